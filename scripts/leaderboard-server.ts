@@ -0,0 +1,251 @@
+// A small reference leaderboard for local play. Every submitted run is
+// re-simulated from its replay and only kept when the result matches what
+// the client claimed. Scores live in memory, or in a JSON file with --data.
+//
+//   npm run leaderboard-server -- --port 8787 --data leaderboard.json
+//   VITE_LEADERBOARD_URL=http://localhost:8787 npm run dev-nolog
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { LeaderboardEntry, normalizePlayerName } from '../src/game/leaderboard/Leaderboard';
+import { parseReplay, ReplayFormatError } from '../src/game/replay/Replay';
+import { isReplayWithinLimits, verifyReplay } from '../src/game/replay/ReplayVerifier';
+import { DIFFICULTIES, Difficulty, isDifficulty } from '../src/game/sim/SimulationConfig';
+
+const { values } = parseArgs({
+    options: {
+        port: { type: 'string', default: '8787' },
+        data: { type: 'string' },
+        'max-entries': { type: 'string', default: '1000' }
+    }
+});
+
+const port = Number(values.port);
+const maxEntries = Number(values['max-entries']);
+const maxBodyBytes = 512 * 1024;
+
+interface StoredEntry
+{
+    name: string;
+    score: number;
+    seed: number;
+    submittedAt: string;
+    // Seed plus flaps, so the same run can't be entered twice.
+    runKey: string;
+}
+
+const boards: Record<Difficulty, StoredEntry[]> = { easy: [], medium: [], hard: [] };
+
+const load = () =>
+{
+    if (!values.data || !existsSync(values.data))
+    {
+        return;
+    }
+
+    const stored = JSON.parse(readFileSync(values.data, 'utf8')) as Partial<Record<Difficulty, StoredEntry[]>>;
+    DIFFICULTIES.forEach((level) =>
+    {
+        boards[level] = Array.isArray(stored[level]) ? stored[level] : [];
+    });
+};
+
+const save = () =>
+{
+    if (values.data)
+    {
+        writeFileSync(values.data, JSON.stringify(boards, null, 2));
+    }
+};
+
+class RequestError extends Error
+{
+    readonly status: number;
+
+    constructor (status: number, message: string)
+    {
+        super(message);
+        this.status = status;
+    }
+}
+
+const send = (response: ServerResponse, status: number, body: unknown = null) =>
+{
+    response.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    response.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readBody = (request: IncomingMessage) => new Promise<unknown>((resolve, reject) =>
+{
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    request.on('data', (chunk: Buffer) =>
+    {
+        size += chunk.length;
+        // The rest is read and thrown away rather than cutting the socket,
+        // so the 413 still reaches the client.
+        if (size > maxBodyBytes)
+        {
+            chunks.length = 0;
+            reject(new RequestError(413, 'Submission is too large.'));
+            return;
+        }
+        chunks.push(chunk);
+    });
+    request.on('end', () =>
+    {
+        try
+        {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        }
+        catch
+        {
+            reject(new RequestError(400, 'Submission is not valid JSON.'));
+        }
+    });
+    request.on('error', reject);
+});
+
+// Higher scores first; ties go to whoever got there first.
+const insertEntry = (board: StoredEntry[], entry: StoredEntry) =>
+{
+    const index = board.filter((existing) => existing.score >= entry.score).length;
+    board.splice(index, 0, entry);
+    board.splice(maxEntries);
+    return index;
+};
+
+const handleSubmit = async (request: IncomingMessage, response: ServerResponse) =>
+{
+    const body = await readBody(request);
+    const data = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+    const name = typeof data.name === 'string' ? normalizePlayerName(data.name) : '';
+
+    if (!name)
+    {
+        throw new RequestError(400, 'A player name is required.');
+    }
+
+    if (!isDifficulty(data.difficulty) || typeof data.seed !== 'number' || typeof data.score !== 'number')
+    {
+        throw new RequestError(400, 'Submission is missing its seed, difficulty or score.');
+    }
+
+    let replay;
+    try
+    {
+        replay = parseReplay(JSON.stringify(data.replay ?? null));
+    }
+    catch (error)
+    {
+        throw new RequestError(400, error instanceof ReplayFormatError ? error.message : 'Replay could not be read.');
+    }
+
+    if (replay.seed !== data.seed || replay.difficulty !== data.difficulty || replay.score !== data.score)
+    {
+        throw new RequestError(422, 'Submission does not match its replay.');
+    }
+
+    if (replay.course)
+    {
+        throw new RequestError(422, 'Custom course runs are not ranked.');
+    }
+
+    if (replay.gameSpeed !== undefined)
+    {
+        throw new RequestError(422, 'Slowed-down runs are not ranked.');
+    }
+
+    if (!isReplayWithinLimits(replay))
+    {
+        throw new RequestError(422, 'Replay is longer than any run that gets checked.');
+    }
+
+    const board = boards[replay.difficulty];
+    const runKey = `${replay.seed}:${replay.flaps.join(',')}`;
+    if (board.some((entry) => entry.runKey === runKey))
+    {
+        throw new RequestError(409, 'This run was already submitted.');
+    }
+
+    const check = verifyReplay(replay);
+    if (!check.valid)
+    {
+        throw new RequestError(422, `Replay did not check out: ${check.reason}`);
+    }
+
+    const index = insertEntry(board, { name, score: check.score, seed: replay.seed, submittedAt: new Date().toISOString(), runKey });
+    save();
+
+    console.log(`${replay.difficulty}: ${name} scored ${check.score} (#${index + 1})`);
+    send(response, 200, { accepted: true, rank: index + 1, total: board.length });
+};
+
+const handleTop = (url: URL, response: ServerResponse) =>
+{
+    const difficulty = url.searchParams.get('difficulty');
+    const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 10, 1), 100);
+
+    if (!isDifficulty(difficulty))
+    {
+        throw new RequestError(400, 'Unknown difficulty.');
+    }
+
+    const entries: LeaderboardEntry[] = boards[difficulty].slice(0, limit).map((entry, index) => ({
+        rank: index + 1,
+        name: entry.name,
+        score: entry.score,
+        seed: entry.seed,
+        submittedAt: entry.submittedAt
+    }));
+
+    send(response, 200, { entries });
+};
+
+const server = createServer(async (request, response) =>
+{
+    const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+
+    try
+    {
+        if (request.method === 'OPTIONS')
+        {
+            send(response, 204);
+        }
+        else if (url.pathname === '/scores' && request.method === 'POST')
+        {
+            await handleSubmit(request, response);
+        }
+        else if (url.pathname === '/scores' && request.method === 'GET')
+        {
+            handleTop(url, response);
+        }
+        else
+        {
+            send(response, 404, { error: 'Not found.' });
+        }
+    }
+    catch (error)
+    {
+        if (error instanceof RequestError)
+        {
+            send(response, error.status, { accepted: false, reason: error.message });
+            return;
+        }
+
+        console.error(error);
+        send(response, 500, { error: 'Internal error.' });
+    }
+});
+
+load();
+server.listen(port, () =>
+{
+    console.log(`Leaderboard listening on http://localhost:${port}`);
+});
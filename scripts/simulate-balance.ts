@@ -0,0 +1,113 @@
+// Plays batches of seeded autopilot runs per difficulty and prints score
+// distributions, so tuning changes can be judged with numbers.
+//
+//   npm run simulate -- --runs 2000 --skill 0.85
+//   npm run simulate -- --difficulty hard --gap 190 --histogram 5
+import { parseArgs } from 'node:util';
+import { histogram, simulateBalance } from '../src/game/bot/BalanceSimulator';
+import { DIFFICULTIES, DIFFICULTY_SETTINGS, Difficulty, isDifficulty, shiftDifficultyRamps } from '../src/game/sim/SimulationConfig';
+
+const { values } = parseArgs({
+    options: {
+        runs: { type: 'string', default: '1000' },
+        skill: { type: 'string', default: '0.9' },
+        seed: { type: 'string', default: 'balance' },
+        difficulty: { type: 'string', multiple: true },
+        'max-ticks': { type: 'string' },
+        gap: { type: 'string' },
+        'spawn-delay': { type: 'string' },
+        speed: { type: 'string' },
+        histogram: { type: 'string' },
+        json: { type: 'boolean', default: false }
+    }
+});
+
+const toNumber = (name: string, value: string | undefined) =>
+{
+    if (value === undefined)
+    {
+        return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed))
+    {
+        console.error(`--${name} expects a number, got "${value}"`);
+        process.exit(1);
+    }
+    return parsed;
+};
+
+const toDifficulty = (value: string): Difficulty =>
+{
+    if (!isDifficulty(value))
+    {
+        console.error(`--difficulty expects one of ${DIFFICULTIES.join(', ')}, got "${value}"`);
+        process.exit(1);
+    }
+    return value;
+};
+
+const levels: Difficulty[] = values.difficulty?.length ? values.difficulty.map(toDifficulty) : DIFFICULTIES;
+const runs = toNumber('runs', values.runs) ?? 1000;
+const skill = toNumber('skill', values.skill) ?? 0.9;
+const maxTicks = toNumber('max-ticks', values['max-ticks']);
+const gap = toNumber('gap', values.gap);
+const spawnDelay = toNumber('spawn-delay', values['spawn-delay']);
+const speed = toNumber('speed', values.speed);
+const bucketSize = toNumber('histogram', values.histogram);
+
+// Overrides apply to every selected difficulty, which is how a single
+// difficulty is retuned: `--difficulty hard --gap 190`. The ramp's end
+// moves with them, or every run would slide back to the stock settings.
+const difficultySettings = { ...DIFFICULTY_SETTINGS };
+levels.forEach((level) =>
+{
+    difficultySettings[level] = {
+        gap: gap ?? DIFFICULTY_SETTINGS[level].gap,
+        spawnDelay: spawnDelay ?? DIFFICULTY_SETTINGS[level].spawnDelay,
+        speed: speed ?? DIFFICULTY_SETTINGS[level].speed
+    };
+});
+const difficultyRamps = shiftDifficultyRamps(difficultySettings);
+
+const reports = levels.map((difficulty) => simulateBalance({
+    difficulty,
+    runs,
+    skill,
+    seed: values.seed,
+    maxTicks,
+    config: { difficultySettings, difficultyRamps }
+}));
+
+if (values.json)
+{
+    console.log(JSON.stringify(reports.map(({ difficulty, summary }) => ({ difficulty, settings: difficultySettings[difficulty], summary })), null, 2));
+}
+else
+{
+    console.log(`${runs} runs per difficulty, bot skill ${skill}, seed "${values.seed}"\n`);
+    console.table(Object.fromEntries(reports.map(({ difficulty, summary }) => [difficulty, {
+        ...difficultySettings[difficulty],
+        mean: Number(summary.mean.toFixed(1)),
+        min: summary.min,
+        p10: summary.p10,
+        median: summary.median,
+        p90: summary.p90,
+        max: summary.max,
+        capped: `${((summary.cappedRuns / summary.runs) * 100).toFixed(1)}%`
+    }])));
+
+    if (bucketSize)
+    {
+        reports.forEach(({ difficulty, results }) =>
+        {
+            console.log(`\n${difficulty}`);
+            histogram(results, bucketSize).forEach(({ from, to, count }) =>
+            {
+                const bar = '#'.repeat(Math.max(1, Math.round((count / results.length) * 60)));
+                console.log(`${`${from}-${to}`.padStart(9)} ${String(count).padStart(6)} ${bar}`);
+            });
+        });
+    }
+}
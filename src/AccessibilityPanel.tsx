@@ -0,0 +1,104 @@
+import { KeyboardEvent, useState } from 'react';
+import { EventBus } from './game/EventBus';
+import { AccessibilitySettings, AccessibilityStore, GAME_SPEED_STEP, MIN_GAME_SPEED, Palette, PALETTES } from './game/persistence/AccessibilityStore';
+
+const PALETTE_LABELS: Record<Palette, string> = {
+    default: 'Default',
+    'high-contrast': 'High contrast',
+    'color-blind': 'Color-blind safe'
+};
+
+interface AccessibilityPanelProps
+{
+    onClose: () => void;
+}
+
+// Every change is saved and broadcast. Motion and input settings apply
+// straight away; colours, text size and game speed wait for the next run if
+// one is already under way.
+export function AccessibilityPanel({ onClose }: AccessibilityPanelProps)
+{
+    const [store] = useState(() => new AccessibilityStore());
+    const [settings, setSettings] = useState<AccessibilitySettings>(() => ({ ...store.getSettings() }));
+
+    const publish = (next: Readonly<AccessibilitySettings>) =>
+    {
+        setSettings({ ...next });
+        EventBus.emit('accessibility-changed', { ...next });
+    };
+
+    const update = (changes: Partial<AccessibilitySettings>) =>
+    {
+        publish(store.update(changes));
+    };
+
+    const handleReset = () =>
+    {
+        store.reset();
+        publish(store.getSettings());
+    };
+
+    // SPACE toggles the focused checkbox here; it must not reach the game's
+    // window listener and flap too.
+    const stopKeys = (event: KeyboardEvent<HTMLElement>) =>
+    {
+        event.stopPropagation();
+    };
+
+    return (
+        <div className="accessibility-panel" onKeyDown={stopKeys} onKeyUp={stopKeys}>
+            <h2>Accessibility</h2>
+            <label className="accessibility-speed">
+                Game speed
+                <input
+                    type="range"
+                    min={MIN_GAME_SPEED}
+                    max={1}
+                    step={GAME_SPEED_STEP}
+                    value={settings.gameSpeed}
+                    onChange={(event) => update({ gameSpeed: Number(event.target.value) })}
+                />
+                <span>{Math.round(settings.gameSpeed * 100)}%</span>
+            </label>
+            <p className="accessibility-hint">
+                Runs below 100% keep their own bests and stay off the leaderboard. Daily challenges always run at full speed.
+            </p>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={settings.reducedMotion}
+                    onChange={(event) => update({ reducedMotion: event.target.checked })}
+                />
+                Reduced motion (no blinking, bobbing or flashes)
+            </label>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={settings.largeText}
+                    onChange={(event) => update({ largeText: event.target.checked })}
+                />
+                Larger HUD text
+            </label>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={settings.oneSwitch}
+                    onChange={(event) => update({ oneSwitch: event.target.checked })}
+                />
+                One-switch mode (any key, button or tap flaps, starts and retries)
+            </label>
+            <label>
+                Colours
+                <select value={settings.palette} onChange={(event) => update({ palette: event.target.value as Palette })}>
+                    {PALETTES.map((palette) => (
+                        <option key={palette} value={palette}>{PALETTE_LABELS[palette]}</option>
+                    ))}
+                </select>
+            </label>
+            <footer>
+                <button type="button" onClick={handleReset}>Reset to defaults</button>
+                <button type="button" onClick={onClose}>Close</button>
+            </footer>
+        </div>
+    );
+}
@@ -1,15 +1,38 @@
-import { useCallback, useEffect, useState } from 'react';
+import { ChangeEvent, MouseEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { AccessibilityPanel } from './AccessibilityPanel';
+import { AudioControls } from './AudioControls';
+import { ControlsPanel } from './ControlsPanel';
+import { CourseEditor } from './CourseEditor';
+import { Hud } from './Hud';
 import { PhaserGame } from './PhaserGame';
+import { StatsPanel } from './StatsPanel';
+import { TuningPanel } from './TuningPanel';
 import type Phaser from 'phaser';
-import type { Game as GameScene } from './game/scenes/Game';
+import { Course, createEmptyCourse } from './game/course/Course';
+import { createDefaultTuning, isDebugEnabled, Tuning } from './game/debug/Tuning';
+import { EventBus } from './game/EventBus';
+import { parseReplay, Replay, ReplayFormatError, serializeReplay } from './game/replay/Replay';
 
 function App()
 {
-    const [activeScene, setActiveScene] = useState<GameScene | null>(null);
+    const [gameActive, setGameActive] = useState(false);
+    const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+    const [playbackSpeed, setPlaybackSpeed] = useState(1);
+    const [replayError, setReplayError] = useState<string | null>(null);
+    const [editorOpen, setEditorOpen] = useState(false);
+    const [controlsOpen, setControlsOpen] = useState(false);
+    const [accessibilityOpen, setAccessibilityOpen] = useState(false);
+    const [statsOpen, setStatsOpen] = useState(false);
+    const [course, setCourse] = useState<Course>(createEmptyCourse);
+    const [tuningOpen, setTuningOpen] = useState(false);
+    const [tuning, setTuning] = useState<Tuning>(createDefaultTuning);
+    const replayInput = useRef<HTMLInputElement | null>(null);
 
+    // Only the Game scene takes flaps and playback controls; the menu has
+    // nothing for the overlay to drive.
     const handleSceneReady = useCallback((sceneInstance: Phaser.Scene) =>
     {
-        setActiveScene(sceneInstance as GameScene);
+        setGameActive(sceneInstance.scene.key === 'Game');
     }, []);
 
     useEffect(() =>
@@ -34,7 +57,7 @@ function App()
 
     useEffect(() =>
     {
-        if (!activeScene)
+        if (!gameActive)
         {
             return;
         }
@@ -52,10 +75,12 @@ function App()
                 return;
             }
 
+            // The canvas reports the same tap as a pointer event; the game
+            // drops whichever copy arrives second.
             if (container.contains(event.target))
             {
                 event.preventDefault();
-                activeScene.triggerFlapFromUI();
+                EventBus.emit('flap');
             }
         };
 
@@ -65,11 +90,183 @@ function App()
         {
             window.removeEventListener('touchstart', handleTouch);
         };
-    }, [activeScene]);
+    }, [gameActive]);
+
+    useEffect(() =>
+    {
+        const handleReplayRecorded = (replay: Replay) =>
+        {
+            setLastReplay(replay);
+        };
+
+        EventBus.on('replay-recorded', handleReplayRecorded);
+
+        return () =>
+        {
+            EventBus.off('replay-recorded', handleReplayRecorded);
+        };
+    }, []);
+
+    useEffect(() =>
+    {
+        if (gameActive)
+        {
+            EventBus.emit('set-playback-speed', playbackSpeed);
+        }
+    }, [gameActive, playbackSpeed]);
+
+    // Buttons keep focus after a click, which would turn the next SPACE flap
+    // into another click on them.
+    const releaseFocus = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        event.currentTarget.blur();
+    };
+
+    const handleSaveReplay = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+
+        if (!lastReplay)
+        {
+            return;
+        }
+
+        const blob = new Blob([serializeReplay(lastReplay)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `bunny-bird-${lastReplay.difficulty}-${lastReplay.seed}-${lastReplay.score}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // The course stays here while the editor is closed, so test plays can go
+    // back and forth without losing edits.
+    const handleOpenEditor = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+        EventBus.emit('pause');
+        setEditorOpen(true);
+    };
+
+    const handleOpenControls = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+        EventBus.emit('pause');
+        setControlsOpen(true);
+    };
+
+    const handleOpenAccessibility = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+        EventBus.emit('pause');
+        setAccessibilityOpen(true);
+    };
+
+    const handleOpenStats = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+        EventBus.emit('pause');
+        setStatsOpen(true);
+    };
+
+    // The run carries on while the tuning panel is open.
+    const handleOpenTuning = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        releaseFocus(event);
+        setTuningOpen(true);
+    };
+
+    const handleTuningChange = (next: Tuning) =>
+    {
+        setTuning(next);
+        EventBus.emit('set-tuning', next);
+    };
+
+    const handleLoadReplay = async (event: ChangeEvent<HTMLInputElement>) =>
+    {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+
+        if (!file)
+        {
+            return;
+        }
+
+        try
+        {
+            // Whichever scene is showing starts the playback.
+            EventBus.emit('play-replay', parseReplay(await file.text()));
+            setReplayError(null);
+        }
+        catch (error)
+        {
+            setReplayError(error instanceof ReplayFormatError ? error.message : 'Could not read that replay file.');
+        }
+    };
 
     return (
         <div id="app">
             <PhaserGame currentActiveScene={handleSceneReady} />
+            <Hud />
+            {editorOpen && <CourseEditor course={course} onChange={setCourse} onClose={() => setEditorOpen(false)} />}
+            {controlsOpen && <ControlsPanel onClose={() => setControlsOpen(false)} />}
+            {accessibilityOpen && <AccessibilityPanel onClose={() => setAccessibilityOpen(false)} />}
+            {statsOpen && <StatsPanel onClose={() => setStatsOpen(false)} />}
+            {tuningOpen && <TuningPanel tuning={tuning} onChange={handleTuningChange} onClose={() => setTuningOpen(false)} />}
+            <div className="replay-controls">
+                <button type="button" onClick={handleSaveReplay} disabled={!lastReplay}>
+                    Save replay
+                </button>
+                <button
+                    type="button"
+                    onClick={(event) =>
+                    {
+                        releaseFocus(event);
+                        replayInput.current?.click();
+                    }}
+                >
+                    Load replay
+                </button>
+                <input
+                    ref={replayInput}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={handleLoadReplay}
+                />
+                <label className="replay-speed">
+                    Speed
+                    <input
+                        type="range"
+                        min={0.25}
+                        max={4}
+                        step={0.25}
+                        value={playbackSpeed}
+                        onChange={(event) => setPlaybackSpeed(Number(event.target.value))}
+                    />
+                    <span>{playbackSpeed.toFixed(2)}x</span>
+                </label>
+                <button type="button" onClick={handleOpenEditor}>
+                    Course editor
+                </button>
+                <button type="button" onClick={handleOpenControls}>
+                    Controls
+                </button>
+                <button type="button" onClick={handleOpenAccessibility}>
+                    Accessibility
+                </button>
+                <button type="button" onClick={handleOpenStats}>
+                    Stats
+                </button>
+                {isDebugEnabled() && (
+                    <button type="button" onClick={handleOpenTuning}>
+                        Tuning
+                    </button>
+                )}
+                <AudioControls />
+                {replayError && <p className="replay-error">{replayError}</p>}
+            </div>
         </div>
     )
 }
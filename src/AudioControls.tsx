@@ -0,0 +1,59 @@
+import { MouseEvent, useEffect, useState } from 'react';
+import { AudioSettings, getSoundSystem } from './game/audio/SoundSystem';
+import { EventBus } from './game/EventBus';
+
+type VolumeSetting = 'masterVolume' | 'sfxVolume' | 'musicVolume';
+
+const VOLUME_LABELS: Record<VolumeSetting, string> = {
+    masterVolume: 'Master',
+    sfxVolume: 'Effects',
+    musicVolume: 'Music'
+};
+
+// Mixer for the synthesised sounds. Settings live in the shared sound
+// system, which also hears the M key and the menu buttons, so this only
+// mirrors its audio-changed events.
+export function AudioControls()
+{
+    const sound = getSoundSystem();
+    const [settings, setSettings] = useState<AudioSettings>(() => ({ ...sound.getSettings() }));
+
+    useEffect(() =>
+    {
+        EventBus.on('audio-changed', setSettings);
+
+        return () =>
+        {
+            EventBus.off('audio-changed', setSettings);
+        };
+    }, []);
+
+    const handleMute = (event: MouseEvent<HTMLButtonElement>) =>
+    {
+        event.currentTarget.blur();
+        sound.toggleMute();
+    };
+
+    return (
+        <div className="audio-controls">
+            <button type="button" onClick={handleMute} aria-pressed={settings.muted}>
+                {settings.muted ? 'Unmute' : 'Mute'}
+            </button>
+            {(Object.keys(VOLUME_LABELS) as VolumeSetting[]).map((setting) => (
+                <label key={setting} className="audio-volume">
+                    {VOLUME_LABELS[setting]}
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={settings[setting]}
+                        disabled={settings.muted}
+                        onChange={(event) => sound.updateSettings({ [setting]: Number(event.target.value) })}
+                        onPointerUp={(event) => event.currentTarget.blur()}
+                    />
+                </label>
+            ))}
+        </div>
+    );
+}
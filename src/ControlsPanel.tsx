@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EventBus } from './game/EventBus';
+import { getKeyName } from './game/input/InputController';
+import { describeKey, INPUT_ACTIONS, InputAction, KeyBindings, KeyBindingStore, MAX_KEYS_PER_ACTION } from './game/persistence/KeyBindingStore';
+
+const ACTION_LABELS: Record<InputAction, string> = {
+    flap: 'Flap / start',
+    flap2: 'Player 2 flap',
+    pause: 'Pause',
+    autopilot: 'Autopilot',
+    mute: 'Mute',
+    rewind: 'Practice rewind',
+    freeze: 'Practice freeze',
+    slow: 'Practice slow-mo'
+};
+
+interface ControlsPanelProps
+{
+    onClose: () => void;
+}
+
+// Keyboard remapping. Every change is saved and broadcast, so open scenes
+// pick the new keys up without a restart.
+export function ControlsPanel({ onClose }: ControlsPanelProps)
+{
+    const [store] = useState(() => new KeyBindingStore());
+    const [bindings, setBindings] = useState<KeyBindings>(() => ({ ...store.getBindings() }));
+    const [listening, setListening] = useState<InputAction | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const publish = useCallback(() =>
+    {
+        const next = { ...store.getBindings() };
+        setBindings(next);
+        EventBus.emit('bindings-changed', next);
+    }, [store]);
+
+    // Grabs the next key press before the game's own window listener sees
+    // it, so binding SPACE doesn't also flap.
+    useEffect(() =>
+    {
+        if (!listening)
+        {
+            return;
+        }
+
+        const handleKey = (event: KeyboardEvent) =>
+        {
+            event.preventDefault();
+            event.stopImmediatePropagation();
+
+            const key = getKeyName(event);
+            if (!key)
+            {
+                setError('That key can\'t be bound.');
+            }
+            else if (store.bind(listening, key))
+            {
+                setError(null);
+                publish();
+            }
+            else
+            {
+                setError(`${describeKey(key)} is the only key for another action.`);
+            }
+            setListening(null);
+        };
+
+        window.addEventListener('keydown', handleKey, { capture: true });
+
+        return () =>
+        {
+            window.removeEventListener('keydown', handleKey, { capture: true });
+        };
+    }, [listening, publish, store]);
+
+    const handleUnbind = (action: InputAction, key: string) =>
+    {
+        if (store.unbind(action, key))
+        {
+            publish();
+        }
+    };
+
+    const handleReset = () =>
+    {
+        store.reset();
+        setError(null);
+        publish();
+    };
+
+    return (
+        <div className="controls-panel">
+            <h2>Controls</h2>
+            <table>
+                <tbody>
+                    {INPUT_ACTIONS.map((action) => (
+                        <tr key={action}>
+                            <th scope="row">{ACTION_LABELS[action]}</th>
+                            <td>
+                                {bindings[action].map((key) => (
+                                    <button
+                                        key={key}
+                                        type="button"
+                                        className="controls-key"
+                                        title={bindings[action].length > 1 ? 'Remove' : undefined}
+                                        disabled={bindings[action].length <= 1}
+                                        onClick={() => handleUnbind(action, key)}
+                                    >
+                                        {describeKey(key)}
+                                    </button>
+                                ))}
+                            </td>
+                            <td>
+                                <button
+                                    type="button"
+                                    className={listening === action ? 'is-primary' : undefined}
+                                    onClick={() => setListening(listening === action ? null : action)}
+                                >
+                                    {listening === action ? 'Press a key...' : bindings[action].length < MAX_KEYS_PER_ACTION ? 'Add key' : 'Replace key'}
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {error && <p className="controls-error">{error}</p>}
+            <p className="controls-hint">Click a key to remove it. Gamepads: A, B, X or Y to flap (the second pad flies player 2), Start to pause.</p>
+            <footer>
+                <button type="button" onClick={handleReset}>Reset to defaults</button>
+                <button type="button" onClick={onClose}>Close</button>
+            </footer>
+        </div>
+    );
+}
@@ -0,0 +1,392 @@
+import { ChangeEvent, KeyboardEvent, PointerEvent, useRef, useState } from 'react';
+import { Course, CourseFormatError, CourseObstacle, getCourseLength, getObstaclePositions, parseCourse, serializeCourse } from './game/course/Course';
+import { EventBus } from './game/EventBus';
+import { OBSTACLE_TYPES } from './game/sim/Obstacles';
+import { createSimulationConfig, DIFFICULTIES, DIFFICULTY_SETTINGS, isDifficulty, POWER_UP_KINDS, PowerUpKind } from './game/sim/SimulationConfig';
+
+// The Game scene's world: a 960x540 canvas with the HUD strips taking the
+// top 90 and bottom 95 pixels.
+const WORLD_HEIGHT = 540;
+const PLAY_TOP = 90;
+const PLAY_BOTTOM = 445;
+const VIEW_WIDTH = 960;
+const SCALE = 0.5;
+const { pipeWidth, pipeHeight } = createSimulationConfig();
+const OBSTACLE_TYPE_NAMES = Object.keys(OBSTACLE_TYPES);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Obstacles are stored by spacing, but edited by absolute position; these
+// rebuild the spacings so every other obstacle stays where it was.
+const withPositions = (course: Course, positions: number[], obstacles: CourseObstacle[]): Course => ({
+    ...course,
+    obstacles: obstacles.map((obstacle, index) => ({
+        ...obstacle,
+        spacing: Math.round(positions[index] - (positions[index - 1] ?? 0))
+    }))
+});
+
+const insertObstacle = (course: Course, position: number, obstacle: CourseObstacle) =>
+{
+    const positions = getObstaclePositions(course);
+    const index = positions.filter((existing) => existing <= position).length;
+    positions.splice(index, 0, position);
+    const obstacles = [...course.obstacles];
+    obstacles.splice(index, 0, obstacle);
+    return { course: withPositions(course, positions, obstacles), index };
+};
+
+// Kept between its neighbours so dragging never reorders the course.
+const moveObstacle = (course: Course, index: number, position: number) =>
+{
+    const positions = getObstaclePositions(course);
+    positions[index] = clamp(position, positions[index - 1] ?? 0, positions[index + 1] ?? Infinity);
+    return withPositions(course, positions, course.obstacles);
+};
+
+const removeObstacle = (course: Course, index: number) =>
+{
+    const positions = getObstaclePositions(course);
+    positions.splice(index, 1);
+    return withPositions(course, positions, course.obstacles.filter((_, current) => current !== index));
+};
+
+interface CourseEditorProps
+{
+    course: Course;
+    onChange: (course: Course) => void;
+    onClose: () => void;
+}
+
+// Lays a course out on a scrolling side view of the play area. Click empty
+// space to add an obstacle there, drag one to move it, and tweak the selected
+// obstacle in the inspector. Test play hands the course straight to the game.
+export function CourseEditor({ course, onChange, onClose }: CourseEditorProps)
+{
+    const [selected, setSelected] = useState<number | null>(null);
+    const [dragging, setDragging] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const courseInput = useRef<HTMLInputElement | null>(null);
+    const svg = useRef<SVGSVGElement | null>(null);
+
+    const defaultGap = DIFFICULTY_SETTINGS[course.difficulty].gap;
+    const defaultSpacing = Math.round(Math.abs(DIFFICULTY_SETTINGS[course.difficulty].speed) * DIFFICULTY_SETTINGS[course.difficulty].spawnDelay / 1000);
+    const positions = getObstaclePositions(course);
+    const length = getCourseLength(course);
+    const selectedObstacle = selected === null ? null : course.obstacles[selected] ?? null;
+
+    const toWorld = (event: PointerEvent<SVGElement>) =>
+    {
+        const rect = svg.current?.getBoundingClientRect();
+        const x = rect ? event.clientX - rect.left : 0;
+        const y = rect ? event.clientY - rect.top : 0;
+        return {
+            position: Math.max(0, Math.round(x / SCALE)),
+            gapCenter: Math.round(clamp(y / SCALE, PLAY_TOP, PLAY_BOTTOM))
+        };
+    };
+
+    const replaceObstacle = (index: number, replacement: CourseObstacle) =>
+    {
+        onChange({
+            ...course,
+            obstacles: course.obstacles.map((obstacle, current) => (current === index ? replacement : obstacle))
+        });
+    };
+
+    const updateObstacle = (index: number, changes: Partial<CourseObstacle>) =>
+    {
+        replaceObstacle(index, { ...course.obstacles[index], ...changes });
+    };
+
+    const handleTimelineDown = (event: PointerEvent<SVGSVGElement>) =>
+    {
+        const { position, gapCenter } = toWorld(event);
+        const result = insertObstacle(course, position, { spacing: 0, type: 'pipes', gapCenter });
+        onChange(result.course);
+        setSelected(result.index);
+    };
+
+    const handleObstacleDown = (event: PointerEvent<SVGGElement>, index: number) =>
+    {
+        event.stopPropagation();
+        svg.current?.setPointerCapture(event.pointerId);
+        setSelected(index);
+        setDragging(index);
+    };
+
+    const handlePointerMove = (event: PointerEvent<SVGSVGElement>) =>
+    {
+        if (dragging === null)
+        {
+            return;
+        }
+
+        const { position, gapCenter } = toWorld(event);
+        const moved = moveObstacle(course, dragging, position);
+        onChange({
+            ...moved,
+            obstacles: moved.obstacles.map((obstacle, index) => (index === dragging ? { ...obstacle, gapCenter } : obstacle))
+        });
+    };
+
+    const handleAppend = () =>
+    {
+        const last = positions[positions.length - 1] ?? 0;
+        const result = insertObstacle(course, last + defaultSpacing, { spacing: 0, type: 'pipes', gapCenter: (PLAY_TOP + PLAY_BOTTOM) * 0.5 });
+        onChange(result.course);
+        setSelected(result.index);
+    };
+
+    const handleRemove = () =>
+    {
+        if (selected === null)
+        {
+            return;
+        }
+
+        onChange(removeObstacle(course, selected));
+        setSelected(null);
+    };
+
+    const handleExport = () =>
+    {
+        const blob = new Blob([serializeCourse(course)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${course.name.trim().replace(/\W+/g, '-').toLowerCase() || 'course'}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) =>
+    {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+
+        if (!file)
+        {
+            return;
+        }
+
+        try
+        {
+            onChange(parseCourse(await file.text()));
+            setSelected(null);
+            setError(null);
+        }
+        catch (importError)
+        {
+            setError(importError instanceof CourseFormatError ? importError.message : 'Could not read that course file.');
+        }
+    };
+
+    // Whichever scene is showing switches to the course.
+    const handleTestPlay = () =>
+    {
+        EventBus.emit('play-course', course);
+        onClose();
+    };
+
+    // The game listens for SPACE and friends on the window; keep typing in
+    // the editor from flapping or being swallowed.
+    const stopKeys = (event: KeyboardEvent<HTMLElement>) =>
+    {
+        event.stopPropagation();
+    };
+
+    const renderObstacle = (obstacle: CourseObstacle, index: number) =>
+    {
+        const definition = OBSTACLE_TYPES[obstacle.type];
+        const gapSize = obstacle.gapSize ?? defaultGap;
+        const x = positions[index];
+        const rects: { top: number; bottom: number }[] = [];
+        const gaps = [...definition.gaps].sort((a, b) => a.offset - b.offset);
+
+        if (gaps.length > 0)
+        {
+            const edges = gaps.flatMap((gap) =>
+            {
+                const half = gap.size * gapSize * 0.5;
+                return [obstacle.gapCenter + gap.offset - half, obstacle.gapCenter + gap.offset + half];
+            });
+            const bounds = [edges[0] - pipeHeight, ...edges, edges[edges.length - 1] + pipeHeight];
+            for (let i = 0; i < bounds.length; i += 2)
+            {
+                rects.push({ top: bounds[i], bottom: bounds[i + 1] });
+            }
+        }
+
+        return (
+            <g
+                key={index}
+                className={index === selected ? 'course-obstacle is-selected' : 'course-obstacle'}
+                onPointerDown={(event) => handleObstacleDown(event, index)}
+            >
+                {rects.map((rect, rectIndex) => (
+                    <rect
+                        key={rectIndex}
+                        x={(x - (pipeWidth * 0.5)) * SCALE}
+                        y={rect.top * SCALE}
+                        width={pipeWidth * SCALE}
+                        height={(rect.bottom - rect.top) * SCALE}
+                        rx={6}
+                    />
+                ))}
+                {definition.hazards?.map((hazard, hazardIndex) => (
+                    <circle
+                        key={`hazard-${hazardIndex}`}
+                        className="course-hazard"
+                        cx={x * SCALE}
+                        cy={(obstacle.gapCenter + hazard.offset) * SCALE}
+                        r={hazard.size * 0.5 * SCALE}
+                    />
+                ))}
+                {obstacle.pickup && (
+                    <circle
+                        className={`course-pickup is-${obstacle.pickup}`}
+                        cx={x * SCALE}
+                        cy={(obstacle.gapCenter + (gaps[0]?.offset ?? 0)) * SCALE}
+                        r={10}
+                    />
+                )}
+                {(definition.oscillate || definition.pulse) && (
+                    <text x={x * SCALE} y={(PLAY_TOP * SCALE) - 6} textAnchor="middle">
+                        {definition.oscillate ? 'moves' : 'closes'}
+                    </text>
+                )}
+            </g>
+        );
+    };
+
+    return (
+        <section className="course-editor" aria-label="Course editor" onKeyDown={stopKeys} onKeyUp={stopKeys}>
+            <header className="course-toolbar">
+                <label>
+                    Name
+                    <input
+                        type="text"
+                        value={course.name}
+                        onChange={(event) => onChange({ ...course, name: event.target.value })}
+                    />
+                </label>
+                <label>
+                    Difficulty
+                    <select
+                        value={course.difficulty}
+                        onChange={(event) => isDifficulty(event.target.value) && onChange({ ...course, difficulty: event.target.value })}
+                    >
+                        {DIFFICULTIES.map((level) => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Finish after
+                    <input
+                        type="number"
+                        min={0}
+                        step={10}
+                        value={course.finish}
+                        onChange={(event) => onChange({ ...course, finish: Math.max(0, Number(event.target.value)) })}
+                    />
+                </label>
+                <button type="button" onClick={handleAppend}>Add obstacle</button>
+                <button type="button" onClick={() => courseInput.current?.click()}>Import</button>
+                <input ref={courseInput} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+                <button type="button" onClick={handleExport}>Export</button>
+                <button type="button" className="is-primary" onClick={handleTestPlay}>Test play</button>
+                <button type="button" onClick={onClose}>Close</button>
+                {error && <p className="course-error">{error}</p>}
+            </header>
+
+            <div className="course-timeline">
+                <svg
+                    ref={svg}
+                    width={(length + VIEW_WIDTH) * SCALE}
+                    height={WORLD_HEIGHT * SCALE}
+                    onPointerDown={handleTimelineDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => setDragging(null)}
+                    onPointerCancel={() => setDragging(null)}
+                >
+                    <rect className="course-strip" x={0} y={0} width="100%" height={PLAY_TOP * SCALE} />
+                    <rect className="course-strip" x={0} y={PLAY_BOTTOM * SCALE} width="100%" height={(WORLD_HEIGHT - PLAY_BOTTOM) * SCALE} />
+                    {course.obstacles.map(renderObstacle)}
+                    <line className="course-finish" x1={length * SCALE} y1={0} x2={length * SCALE} y2={WORLD_HEIGHT * SCALE} />
+                </svg>
+            </div>
+
+            {selectedObstacle && selected !== null ? (
+                <div className="course-inspector">
+                    <label>
+                        Type
+                        <select
+                            value={selectedObstacle.type}
+                            onChange={(event) => updateObstacle(selected, { type: event.target.value })}
+                        >
+                            {OBSTACLE_TYPE_NAMES.map((type) => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Spacing
+                        <input
+                            type="number"
+                            min={0}
+                            step={10}
+                            value={selectedObstacle.spacing}
+                            onChange={(event) => updateObstacle(selected, { spacing: Math.max(0, Number(event.target.value)) })}
+                        />
+                    </label>
+                    <label>
+                        Gap center
+                        <input
+                            type="number"
+                            min={PLAY_TOP}
+                            max={PLAY_BOTTOM}
+                            value={selectedObstacle.gapCenter}
+                            onChange={(event) => updateObstacle(selected, { gapCenter: clamp(Number(event.target.value), PLAY_TOP, PLAY_BOTTOM) })}
+                        />
+                    </label>
+                    <label>
+                        Gap size
+                        <input
+                            type="number"
+                            min={1}
+                            placeholder={String(defaultGap)}
+                            value={selectedObstacle.gapSize ?? ''}
+                            onChange={(event) =>
+                            {
+                                // Left empty, the gap follows the difficulty.
+                                const obstacle = { ...selectedObstacle };
+                                const value = Number(event.target.value);
+                                delete obstacle.gapSize;
+                                replaceObstacle(selected, value > 0 ? { ...obstacle, gapSize: value } : obstacle);
+                            }}
+                        />
+                    </label>
+                    <label>
+                        Pickup
+                        <select
+                            value={selectedObstacle.pickup ?? ''}
+                            onChange={(event) =>
+                            {
+                                const obstacle = { ...selectedObstacle };
+                                const pickup = event.target.value as PowerUpKind | '';
+                                delete obstacle.pickup;
+                                replaceObstacle(selected, pickup ? { ...obstacle, pickup } : obstacle);
+                            }}
+                        >
+                            <option value="">none</option>
+                            {POWER_UP_KINDS.map((kind) => <option key={kind} value={kind}>{kind}</option>)}
+                        </select>
+                    </label>
+                    <button type="button" onClick={handleRemove}>Delete</button>
+                </div>
+            ) : (
+                <p className="course-hint">
+                    Click the timeline to place an obstacle, drag to move it. {course.obstacles.length} obstacles.
+                </p>
+            )}
+        </section>
+    );
+}
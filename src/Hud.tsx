@@ -0,0 +1,390 @@
+import { FormEvent, Fragment, KeyboardEvent, MouseEvent, useEffect, useRef, useState } from 'react';
+import type Phaser from 'phaser';
+import { EventBus } from './game/EventBus';
+import { canSubmit, describeSubmission, PLAYER_NAME_MAX_LENGTH, SubmissionStatus } from './game/leaderboard/Leaderboard';
+import type { Course } from './game/course/Course';
+import { AccessibilitySettings, createDefaultAccessibilitySettings } from './game/persistence/AccessibilityStore';
+import type { DailyStatus } from './game/persistence/DailyStore';
+import type { HudMode } from './game/persistence/SaveData';
+import type { PracticeStatus, RunState, RunSummary, VersusPlayer } from './game/scenes/Game';
+import type { TimedPowerUp } from './game/sim/Simulation';
+import { DIFFICULTIES, Difficulty } from './game/sim/SimulationConfig';
+import type { Achievement } from './game/stats/Achievements';
+import { describeGameSpeed, describeUnlockedThemes, describeWinner, formatDuration } from './game/ui/format';
+
+interface PowerUpTimer
+{
+    id: number;
+    durationMs: number;
+}
+
+interface AchievementToast
+{
+    id: number;
+    achievement: Achievement;
+}
+
+const TOAST_DURATION_MS = 3000;
+
+const POWER_UP_LABELS: Record<TimedPowerUp, string> = {
+    shield: 'Shield',
+    slowmo: 'Slow-mo'
+};
+
+function Hearts({ lives, maxLives }: { lives: number; maxLives: number })
+{
+    return (
+        <>
+            {Array.from({ length: maxLives }, (_, index) => (
+                <span
+                    key={index}
+                    className={index < lives ? 'hud-heart' : 'hud-heart is-empty'}
+                    aria-hidden="true"
+                >
+                    ♥
+                </span>
+            ))}
+        </>
+    );
+}
+
+// DOM version of the in-game HUD. It only listens to scene events and sends
+// commands back, so it can be restyled from style.css without touching Phaser.
+export function Hud()
+{
+    const [gameActive, setGameActive] = useState(false);
+    const [hudMode, setHudMode] = useState<HudMode>('canvas');
+    const [runState, setRunState] = useState<RunState>('ready');
+    const [score, setScore] = useState(0);
+    const [lives, setLives] = useState({ lives: 0, maxLives: 0 });
+    const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+    const [tier, setTier] = useState({ tier: 1, tiers: 1 });
+    const [bests, setBests] = useState<Record<Difficulty, number>>({ easy: 0, medium: 0, hard: 0 });
+    const [autopilot, setAutopilot] = useState(false);
+    const [summary, setSummary] = useState<RunSummary | null>(null);
+    const [course, setCourse] = useState<Course | null>(null);
+    const [daily, setDaily] = useState<DailyStatus | null>(null);
+    const [versus, setVersus] = useState<VersusPlayer[] | null>(null);
+    const [practice, setPractice] = useState<PracticeStatus | null>(null);
+    const [accessibility, setAccessibility] = useState<AccessibilitySettings>(createDefaultAccessibilitySettings);
+    const [submission, setSubmission] = useState<SubmissionStatus>({ state: 'idle' });
+    const [playerName, setPlayerName] = useState('');
+    const [timers, setTimers] = useState<Partial<Record<TimedPowerUp, PowerUpTimer>>>({});
+    const [toasts, setToasts] = useState<AchievementToast[]>([]);
+    const nextTimerId = useRef(0);
+    const nextToastId = useRef(0);
+
+    useEffect(() =>
+    {
+        const handleSceneReady = (scene: Phaser.Scene) => setGameActive(scene.scene.key === 'Game');
+        const handleLivesChanged = (current: number, maxLives: number) => setLives({ lives: current, maxLives });
+        const handleTierChanged = (current: number, tiers: number) => setTier({ tier: current, tiers });
+        const handleRunEnded = (ended: RunSummary) =>
+        {
+            setSummary(ended);
+            setPlayerName((current) => current || ended.leaderboard?.playerName || '');
+        };
+        const handleStateChanged = (state: RunState) =>
+        {
+            setRunState(state);
+            if (state === 'ready' || state === 'playing')
+            {
+                setSummary(null);
+            }
+            if (state === 'ready' || state === 'gameover')
+            {
+                setTimers({});
+            }
+        };
+        // A fresh id restarts the bar's CSS animation when a power-up is
+        // picked up again before it ran out.
+        const handlePowerUpStarted = (kind: TimedPowerUp, durationMs: number) =>
+        {
+            nextTimerId.current += 1;
+            const timer = { id: nextTimerId.current, durationMs };
+            setTimers((current) => ({ ...current, [kind]: timer }));
+        };
+        const handlePowerUpEnded = (kind: TimedPowerUp) =>
+        {
+            setTimers((current) =>
+            {
+                const rest = { ...current };
+                delete rest[kind];
+                return rest;
+            });
+        };
+        const handleAchievementUnlocked = (achievement: Achievement) =>
+        {
+            nextToastId.current += 1;
+            const toast = { id: nextToastId.current, achievement };
+            setToasts((current) => [...current, toast]);
+            window.setTimeout(() => setToasts((current) => current.filter((entry) => entry !== toast)), TOAST_DURATION_MS);
+        };
+
+        EventBus.on('current-scene-ready', handleSceneReady);
+        EventBus.on('hud-changed', setHudMode);
+        EventBus.on('state-changed', handleStateChanged);
+        EventBus.on('score-changed', setScore);
+        EventBus.on('lives-changed', handleLivesChanged);
+        EventBus.on('difficulty-changed', setDifficulty);
+        EventBus.on('tier-changed', handleTierChanged);
+        EventBus.on('bests-changed', setBests);
+        EventBus.on('autopilot-changed', setAutopilot);
+        EventBus.on('run-ended', handleRunEnded);
+        EventBus.on('power-up-started', handlePowerUpStarted);
+        EventBus.on('power-up-ended', handlePowerUpEnded);
+        EventBus.on('course-changed', setCourse);
+        EventBus.on('daily-changed', setDaily);
+        EventBus.on('versus-changed', setVersus);
+        EventBus.on('practice-changed', setPractice);
+        EventBus.on('accessibility-changed', setAccessibility);
+        EventBus.on('leaderboard-changed', setSubmission);
+        EventBus.on('achievement-unlocked', handleAchievementUnlocked);
+
+        return () =>
+        {
+            EventBus.off('current-scene-ready', handleSceneReady);
+            EventBus.off('hud-changed', setHudMode);
+            EventBus.off('state-changed', handleStateChanged);
+            EventBus.off('score-changed', setScore);
+            EventBus.off('lives-changed', handleLivesChanged);
+            EventBus.off('difficulty-changed', setDifficulty);
+            EventBus.off('tier-changed', handleTierChanged);
+            EventBus.off('bests-changed', setBests);
+            EventBus.off('autopilot-changed', setAutopilot);
+            EventBus.off('run-ended', handleRunEnded);
+            EventBus.off('power-up-started', handlePowerUpStarted);
+            EventBus.off('power-up-ended', handlePowerUpEnded);
+            EventBus.off('course-changed', setCourse);
+            EventBus.off('daily-changed', setDaily);
+            EventBus.off('versus-changed', setVersus);
+            EventBus.off('practice-changed', setPractice);
+            EventBus.off('accessibility-changed', setAccessibility);
+            EventBus.off('leaderboard-changed', setSubmission);
+            EventBus.off('achievement-unlocked', handleAchievementUnlocked);
+        };
+    }, []);
+
+    if (!gameActive || hudMode !== 'dom')
+    {
+        return null;
+    }
+
+    // Blurred straight away so a later SPACE flap doesn't re-press the button.
+    const selectDifficulty = (event: MouseEvent<HTMLButtonElement>, level: Difficulty) =>
+    {
+        event.currentTarget.blur();
+        EventBus.emit('set-difficulty', level);
+    };
+
+    const sendPracticeCommand = (event: MouseEvent<HTMLButtonElement>, command: 'practice-rewind' | 'practice-freeze' | 'practice-speed') =>
+    {
+        event.currentTarget.blur();
+        EventBus.emit(command);
+    };
+
+    const submitScore = (event: FormEvent<HTMLFormElement>) =>
+    {
+        event.preventDefault();
+        EventBus.emit('submit-score', playerName);
+    };
+
+    // The game listens for SPACE on the window, which would eat spaces in
+    // the name field.
+    const stopKeys = (event: KeyboardEvent<HTMLElement>) =>
+    {
+        event.stopPropagation();
+    };
+
+    const best = Math.max(score, bests[difficulty]);
+    const hudClasses = [
+        'hud',
+        `is-palette-${accessibility.palette}`,
+        accessibility.largeText && 'is-large-text'
+    ].filter(Boolean).join(' ');
+
+    return (
+        <div className={hudClasses}>
+            <section className="hud-bar" aria-label="Game status">
+                {versus ? versus.map((player, index) => (
+                    <p
+                        key={index}
+                        className={player.status === 'out' ? 'hud-player is-out' : 'hud-player'}
+                        aria-label={`Player ${index + 1}: ${player.score} points, ${player.lives} of ${lives.maxLives} lives left`}
+                    >
+                        <span className="hud-badge">P{index + 1}</span>
+                        <Hearts lives={player.lives} maxLives={lives.maxLives} />
+                        <strong>{player.score}</strong>
+                    </p>
+                )) : (
+                    <>
+                        <p className="hud-lives" aria-label={`${lives.lives} of ${lives.maxLives} lives left`}>
+                            <Hearts lives={lives.lives} maxLives={lives.maxLives} />
+                        </p>
+                        <p className="hud-score">
+                            Score <strong>{score}</strong>
+                            <span className="hud-best">Best {best}</span>
+                        </p>
+                    </>
+                )}
+                <p className="hud-mode">
+                    {autopilot && <span className="hud-badge">AUTO</span>}
+                    {practice && <span className="hud-badge">PRACTICE</span>}
+                    {course ? course.name : daily ? 'DAILY' : versus ? 'VERSUS' : difficulty.toUpperCase()}
+                    {!course && (
+                        <span className="hud-tier" aria-label={`Tier ${tier.tier} of ${tier.tiers}`}>
+                            T{tier.tier}
+                        </span>
+                    )}
+                </p>
+            </section>
+
+            <ul className="hud-toasts" aria-live="polite">
+                {toasts.map(({ id, achievement }) => (
+                    <li key={id} className="hud-toast">
+                        Achievement unlocked: <strong>{achievement.name}</strong>
+                        <span>{achievement.description}</span>
+                    </li>
+                ))}
+            </ul>
+
+            <ul className="hud-power-ups" aria-label="Active power-ups">
+                {(Object.entries(timers) as [TimedPowerUp, PowerUpTimer][]).map(([kind, timer]) => (
+                    <li key={`${kind}-${timer.id}`} className={`hud-power-up is-${kind}`}>
+                        {POWER_UP_LABELS[kind]}
+                        <span
+                            className="hud-timer"
+                            aria-hidden="true"
+                            style={{
+                                animationDuration: `${timer.durationMs}ms`,
+                                animationPlayState: runState === 'playing' ? 'running' : 'paused'
+                            }}
+                        />
+                    </li>
+                ))}
+            </ul>
+
+            {practice && (runState === 'playing' || runState === 'resuming') && (
+                <div className="hud-practice" role="group" aria-label="Practice">
+                    <button type="button" onClick={(event) => sendPracticeCommand(event, 'practice-rewind')}>
+                        Rewind <span className="hud-best">{practice.checkpoints}</span>
+                    </button>
+                    <button type="button" aria-pressed={practice.frozen} onClick={(event) => sendPracticeCommand(event, 'practice-freeze')}>
+                        {practice.frozen ? 'Go' : 'Freeze'}
+                    </button>
+                    <button type="button" aria-pressed={practice.speed < 1} onClick={(event) => sendPracticeCommand(event, 'practice-speed')}>
+                        Speed {Math.round(practice.speed * 100)}%
+                    </button>
+                </div>
+            )}
+
+            {runState === 'ready' && !course && !daily && (
+                <div className="hud-difficulty" role="group" aria-label="Difficulty">
+                    {DIFFICULTIES.map((level) => (
+                        <button
+                            key={level}
+                            type="button"
+                            aria-pressed={level === difficulty}
+                            onClick={(event) => selectDifficulty(event, level)}
+                        >
+                            {level.toUpperCase()} <span className="hud-best">{bests[level]}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {runState === 'gameover' && summary && (
+                <section className="hud-gameover" role="dialog" aria-labelledby="hud-gameover-title">
+                    <h2 id="hud-gameover-title">
+                        {summary.versus
+                            ? describeWinner(summary.versus.winner)
+                            : summary.courseComplete ? 'Course Complete!' : summary.isReplay ? 'Replay Over' : 'Game Over'}
+                    </h2>
+                    {summary.isNewBest && <p className="hud-note is-best">New best!</p>}
+                    {summary.unlockedThemes.length > 0 && (
+                        <p className="hud-note is-best">{describeUnlockedThemes(summary.unlockedThemes)}</p>
+                    )}
+                    {summary.practice && <p className="hud-note">Practice run - not recorded</p>}
+                    {summary.tuned && <p className="hud-note">Tuned run - not recorded</p>}
+                    {summary.assisted && <p className="hud-note">Autopilot run - not recorded</p>}
+                    {summary.gameSpeed < 1 && (
+                        <p className="hud-note">Assisted run - {describeGameSpeed(summary.gameSpeed)}, with its own bests</p>
+                    )}
+                    <dl>
+                        {summary.versus ? summary.versus.players.map((player, index) => (
+                            <Fragment key={index}>
+                                <dt>Player {index + 1}</dt>
+                                <dd>{player.score}</dd>
+                            </Fragment>
+                        )) : (
+                            <>
+                                <dt>Score</dt>
+                                <dd>{summary.score}</dd>
+                            </>
+                        )}
+                        {summary.versus ? null : summary.courseName === null ? (
+                            <>
+                                <dt>{summary.gameSpeed < 1 ? 'Assisted best' : 'Best'} ({summary.difficulty})</dt>
+                                <dd>{summary.best}</dd>
+                            </>
+                        ) : (
+                            <>
+                                <dt>Course</dt>
+                                <dd>{summary.courseName}</dd>
+                            </>
+                        )}
+                        <dt>Pipes cleared</dt>
+                        <dd>{summary.pipesCleared}</dd>
+                        <dt>Time</dt>
+                        <dd>{formatDuration(summary.durationMs)}</dd>
+                        {summary.courseName === null && (
+                            <>
+                                <dt>Seed</dt>
+                                <dd>{summary.seed}</dd>
+                            </>
+                        )}
+                    </dl>
+                    {summary.daily && (
+                        <section className="hud-daily" aria-label={`Daily ${summary.daily.date} results`}>
+                            <h3>Daily {summary.daily.date}</h3>
+                            <ol>
+                                {summary.daily.results.map((entry, index) => (
+                                    <li key={entry.recordedAt + index} className={index + 1 === summary.daily?.rank ? 'is-current' : undefined}>
+                                        {entry.score}
+                                    </li>
+                                ))}
+                            </ol>
+                            <p className="hud-note">
+                                Streak {summary.daily.streak} - {summary.daily.attemptsLeft} left today
+                            </p>
+                        </section>
+                    )}
+                    {summary.leaderboard && (
+                        <form className="hud-submit" onSubmit={submitScore} onKeyDown={stopKeys} onKeyUp={stopKeys}>
+                            <input
+                                type="text"
+                                aria-label="Name for the leaderboard"
+                                placeholder="Your name"
+                                maxLength={PLAYER_NAME_MAX_LENGTH}
+                                value={playerName}
+                                onChange={(event) => setPlayerName(event.target.value)}
+                            />
+                            <button type="submit" disabled={!canSubmit(submission) || !playerName.trim()}>
+                                {submission.state === 'offline' ? 'Try again' : 'Submit'}
+                            </button>
+                            <p className="hud-note" role="status">{describeSubmission(submission)}</p>
+                        </form>
+                    )}
+                    <div className="hud-actions">
+                        <button type="button" className="is-primary" autoFocus onClick={() => EventBus.emit('retry')}>
+                            {summary.isReplay ? 'Watch again' : 'Retry'}
+                        </button>
+                        <button type="button" onClick={() => EventBus.emit('open-menu')}>
+                            Menu
+                        </button>
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+}
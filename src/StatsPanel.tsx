@@ -0,0 +1,140 @@
+import { ChangeEvent, KeyboardEvent, useRef, useState } from 'react';
+import { HISTOGRAM_BUCKET_SIZE, HISTOGRAM_BUCKETS, StatsData, StatsFormatError, StatsStore } from './game/persistence/StatsStore';
+import { DIFFICULTIES } from './game/sim/SimulationConfig';
+import { ACHIEVEMENTS } from './game/stats/Achievements';
+import { formatDuration } from './game/ui/format';
+
+const BUCKET_LABELS = Array.from({ length: HISTOGRAM_BUCKETS }, (_, bucket) =>
+{
+    const from = bucket * HISTOGRAM_BUCKET_SIZE;
+    return bucket === HISTOGRAM_BUCKETS - 1 ? `${from}+` : `${from}-${from + HISTOGRAM_BUCKET_SIZE - 1}`;
+});
+
+interface StatsPanelProps
+{
+    onClose: () => void;
+}
+
+function Histogram({ counts }: { counts: number[] })
+{
+    const highest = Math.max(1, ...counts);
+
+    return (
+        <ol className="stats-histogram">
+            {counts.map((count, bucket) => (
+                <li key={bucket} title={`${BUCKET_LABELS[bucket]}: ${count} runs`}>
+                    <span className="stats-bar" style={{ height: `${(count / highest) * 100}%` }} />
+                    <span className="stats-bucket">{BUCKET_LABELS[bucket]}</span>
+                </li>
+            ))}
+        </ol>
+    );
+}
+
+// Lifetime totals, score histograms and achievements, with export and
+// import so they can move between browsers.
+export function StatsPanel({ onClose }: StatsPanelProps)
+{
+    const [store] = useState(() => new StatsStore());
+    const [stats, setStats] = useState<StatsData>(() => ({ ...store.getData() }));
+    const [error, setError] = useState<string | null>(null);
+    const importInput = useRef<HTMLInputElement | null>(null);
+    const { totals, histograms, achievements } = stats;
+    const unlockedCount = ACHIEVEMENTS.filter(({ id }) => achievements[id]).length;
+
+    const handleExport = () =>
+    {
+        const blob = new Blob([store.export()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'bunny-bird-stats.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) =>
+    {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+
+        if (!file)
+        {
+            return;
+        }
+
+        try
+        {
+            store.import(await file.text());
+            setStats({ ...store.getData() });
+            setError(null);
+        }
+        catch (caught)
+        {
+            setError(caught instanceof StatsFormatError ? caught.message : 'Could not read that stats file.');
+        }
+    };
+
+    // SPACE on a focused button must not reach the game's window listener.
+    const stopKeys = (event: KeyboardEvent<HTMLElement>) =>
+    {
+        event.stopPropagation();
+    };
+
+    return (
+        <div className="stats-panel" onKeyDown={stopKeys} onKeyUp={stopKeys}>
+            <h2>Stats</h2>
+            <dl className="stats-totals">
+                <dt>Runs</dt>
+                <dd>{totals.runs}</dd>
+                <dt>Pipes cleared</dt>
+                <dd>{totals.pipes}</dd>
+                <dt>Flaps</dt>
+                <dd>{totals.flaps}</dd>
+                <dt>Lives lost</dt>
+                <dd>{totals.livesLost}</dd>
+                <dt>Power-ups</dt>
+                <dd>{totals.powerUps}</dd>
+                <dt>Time flown</dt>
+                <dd>{formatDuration(totals.playTimeMs)}</dd>
+                <dt>Average run</dt>
+                <dd>{totals.runs > 0 ? formatDuration(totals.playTimeMs / totals.runs) : '-'}</dd>
+                <dt>Average score</dt>
+                <dd>{totals.runs > 0 ? (totals.pipes / totals.runs).toFixed(1) : '-'}</dd>
+            </dl>
+
+            <h3>Scores</h3>
+            {DIFFICULTIES.map((level) => (
+                <section key={level} className="stats-difficulty" aria-label={`${level} scores`}>
+                    <h4>{level.toUpperCase()} <span>{histograms[level].reduce((sum, count) => sum + count, 0)} runs</span></h4>
+                    <Histogram counts={histograms[level]} />
+                </section>
+            ))}
+
+            <h3>Achievements <span>{unlockedCount}/{ACHIEVEMENTS.length}</span></h3>
+            <ul className="stats-achievements">
+                {ACHIEVEMENTS.map(({ id, name, description }) => (
+                    <li key={id} className={achievements[id] ? 'is-unlocked' : undefined}>
+                        <strong>{name}</strong>
+                        <span>{description}</span>
+                        <small>{achievements[id] ? new Date(achievements[id]).toLocaleDateString() : 'Locked'}</small>
+                    </li>
+                ))}
+            </ul>
+
+            {error && <p className="stats-error">{error}</p>}
+            <footer>
+                <button type="button" onClick={handleExport}>Export</button>
+                <button type="button" onClick={() => importInput.current?.click()}>Import</button>
+                <input
+                    ref={importInput}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={handleImport}
+                />
+                <button type="button" onClick={onClose}>Close</button>
+            </footer>
+        </div>
+    );
+}
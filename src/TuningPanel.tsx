@@ -0,0 +1,91 @@
+import { KeyboardEvent } from 'react';
+import { createDefaultTuning, DIFFICULTY_TUNING_RANGES, serializeTuning, Tuning, TUNING_RANGES, TuningRange, TuningValue } from './game/debug/Tuning';
+import { DIFFICULTIES, Difficulty, DifficultySettings } from './game/sim/SimulationConfig';
+
+interface TuningPanelProps
+{
+    tuning: Tuning;
+    onChange: (tuning: Tuning) => void;
+    onClose: () => void;
+}
+
+function Slider({ range, value, onChange }: { range: TuningRange; value: number; onChange: (value: number) => void })
+{
+    return (
+        <label>
+            {range.label}
+            <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={value}
+                onChange={(event) => onChange(Number(event.target.value))}
+            />
+            <span>{Math.round(value)}</span>
+        </label>
+    );
+}
+
+// Debug-only sliders for the simulation's feel. Unlike the other panels it
+// leaves the run going, so every change can be felt as it is made.
+export function TuningPanel({ tuning, onChange, onClose }: TuningPanelProps)
+{
+    const update = (changes: Partial<Tuning>) =>
+    {
+        onChange({ ...tuning, ...changes });
+    };
+
+    const updateDifficulty = (level: Difficulty, changes: Partial<DifficultySettings>) =>
+    {
+        update({ difficultySettings: { ...tuning.difficultySettings, [level]: { ...tuning.difficultySettings[level], ...changes } } });
+    };
+
+    const handleExport = () =>
+    {
+        const blob = new Blob([serializeTuning(tuning)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'bunny-bird-tuning.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Arrow keys nudge the focused slider; SPACE must not reach the game's
+    // window listener and flap too.
+    const stopKeys = (event: KeyboardEvent<HTMLElement>) =>
+    {
+        event.stopPropagation();
+    };
+
+    return (
+        <div className="tuning-panel" onKeyDown={stopKeys} onKeyUp={stopKeys}>
+            <h2>Tuning</h2>
+            {(Object.keys(TUNING_RANGES) as TuningValue[]).map((key) => (
+                <Slider key={key} range={TUNING_RANGES[key]} value={tuning[key]} onChange={(value) => update({ [key]: value })} />
+            ))}
+            {DIFFICULTIES.map((level) => (
+                <section key={level} aria-label={`${level} settings`}>
+                    <h3>{level.toUpperCase()}</h3>
+                    {(Object.keys(DIFFICULTY_TUNING_RANGES) as (keyof DifficultySettings)[]).map((key) => (
+                        <Slider
+                            key={key}
+                            range={DIFFICULTY_TUNING_RANGES[key]}
+                            value={tuning.difficultySettings[level][key]}
+                            onChange={(value) => updateDifficulty(level, { [key]: value })}
+                        />
+                    ))}
+                </section>
+            ))}
+            <p className="tuning-hint">
+                Changes apply to the run under way. Tuned runs are never recorded, and replays keep the stock rules.
+            </p>
+            <footer>
+                <button type="button" onClick={handleExport}>Export JSON</button>
+                <button type="button" onClick={() => onChange(createDefaultTuning())}>Reset to defaults</button>
+                <button type="button" onClick={onClose}>Close</button>
+            </footer>
+        </div>
+    );
+}
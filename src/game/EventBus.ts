@@ -1,4 +1,93 @@
 import { Events } from 'phaser';
+import type { Scene } from 'phaser';
+import type { AudioSettings } from './audio/SoundSystem';
+import type { Course } from './course/Course';
+import type { Tuning } from './debug/Tuning';
+import type { SubmissionStatus } from './leaderboard/Leaderboard';
+import type { AccessibilitySettings } from './persistence/AccessibilityStore';
+import type { DailyStatus } from './persistence/DailyStore';
+import type { KeyBindings } from './persistence/KeyBindingStore';
+import type { HudMode } from './persistence/SaveData';
+import type { Replay } from './replay/Replay';
+import type { PracticeStatus, RunState, RunSummary, VersusPlayer } from './scenes/Game';
+import type { TimedPowerUp } from './sim/Simulation';
+import type { Difficulty } from './sim/SimulationConfig';
+import type { Achievement } from './stats/Achievements';
 
-// Used to emit events between components, HTML and Phaser scenes
-export const EventBus = new Events.EventEmitter();
\ No newline at end of file
+// Every event crossing between React and Phaser, keyed by name with the
+// listener's argument list as the value.
+export interface GameEvents
+{
+    // Notifications from the scenes.
+    'current-scene-ready': [scene: Scene];
+    'score-changed': [score: number];
+    'lives-changed': [lives: number, maxLives: number];
+    'state-changed': [state: RunState];
+    'difficulty-changed': [difficulty: Difficulty];
+    'tier-changed': [tier: number, tiers: number];
+    'bests-changed': [bests: Record<Difficulty, number>];
+    'hud-changed': [mode: HudMode];
+    'autopilot-changed': [enabled: boolean];
+    'power-up-started': [kind: TimedPowerUp, durationMs: number];
+    'power-up-ended': [kind: TimedPowerUp];
+    'run-ended': [summary: RunSummary];
+    'replay-recorded': [replay: Replay];
+    'course-changed': [course: Course | null];
+    'daily-changed': [status: DailyStatus | null];
+    'leaderboard-changed': [status: SubmissionStatus];
+    'audio-changed': [settings: AudioSettings];
+    'bindings-changed': [bindings: KeyBindings];
+    'accessibility-changed': [settings: AccessibilitySettings];
+    // Both birds' standing during a versus run; null outside of one.
+    'versus-changed': [players: VersusPlayer[] | null];
+    'achievement-unlocked': [achievement: Achievement];
+    // The drill tools' state during a practice run; null outside of one.
+    'practice-changed': [status: PracticeStatus | null];
+
+    // Commands for whichever scene is listening.
+    'flap': [];
+    'pause': [];
+    'retry': [];
+    'open-menu': [];
+    'set-difficulty': [difficulty: Difficulty];
+    'set-seed': [seed: number | string | null];
+    'set-autopilot': [enabled: boolean];
+    'set-playback-speed': [speed: number];
+    'play-replay': [replay: Replay];
+    'play-course': [course: Course];
+    'submit-score': [name: string];
+    'practice-rewind': [];
+    'practice-freeze': [];
+    'practice-speed': [];
+    'set-tuning': [tuning: Tuning];
+}
+
+export type GameEventName = keyof GameEvents;
+export type GameEventListener<K extends GameEventName> = (...args: GameEvents[K]) => void;
+
+const emitter = new Events.EventEmitter();
+
+// Used to emit events between components, HTML and Phaser scenes. Event names
+// and payloads are checked against GameEvents at compile time.
+export const EventBus = {
+    on<K extends GameEventName> (event: K, listener: GameEventListener<K>, context?: unknown)
+    {
+        emitter.on(event, listener, context);
+    },
+
+    once<K extends GameEventName> (event: K, listener: GameEventListener<K>, context?: unknown)
+    {
+        emitter.once(event, listener, context);
+    },
+
+    // Removes only the given listener, never every listener for the event.
+    off<K extends GameEventName> (event: K, listener: GameEventListener<K>, context?: unknown)
+    {
+        emitter.off(event, listener, context);
+    },
+
+    emit<K extends GameEventName> (event: K, ...args: GameEvents[K])
+    {
+        return emitter.emit(event, ...args);
+    }
+};
\ No newline at end of file
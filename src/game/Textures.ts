@@ -0,0 +1,419 @@
+import Phaser from 'phaser';
+import type { Palette } from './persistence/AccessibilityStore';
+import { SeededRandom } from './random/SeededRandom';
+import type { BackgroundLayer, Theme, ThemeColors } from './theme/Theme';
+
+// The high-contrast palette puts dark pipes against a bright bird; the
+// color-blind one sticks to the Okabe-Ito colours, which stay distinct
+// under the common forms of color blindness. Either replaces the theme's
+// own colours, while its shapes and background stay.
+const PALETTE_COLORS: Record<Exclude<Palette, 'default'>, ThemeColors> = {
+    'high-contrast': {
+        pipe: 0x111111,
+        pipeEdge: 0xffeb3b,
+        hazard: 0x000000,
+        hazardCore: 0xff1744,
+        birdBody: 0xffd600,
+        birdWing: 0xff6d00,
+        birdBelly: 0xffffff,
+        birdBeak: 0xff3d00,
+        birdTail: 0xffab00,
+        birdEye: 0x000000,
+        heartFull: 0xff1744,
+        heartEmpty: 0x424242,
+        shield: 0x2962ff,
+        shieldBubble: 0xffffff,
+        slowmo: 0x00b8d4,
+        heart: 0xff1744
+    },
+    'color-blind': {
+        pipe: 0x0072b2,
+        pipeEdge: 0x004c78,
+        hazard: 0x37474f,
+        hazardCore: 0xd55e00,
+        birdBody: 0xe69f00,
+        birdWing: 0xd55e00,
+        birdBelly: 0xfff5d6,
+        birdBeak: 0xf0e442,
+        birdTail: 0xf5b841,
+        birdEye: 0x000000,
+        heartFull: 0xd55e00,
+        heartEmpty: 0x6b7c8b,
+        shield: 0x56b4e9,
+        shieldBubble: 0x56b4e9,
+        slowmo: 0xcc79a7,
+        heart: 0xd55e00
+    }
+};
+
+// Textures drawn from the theme and palette, dropped and redrawn when
+// either changes.
+const STYLED_TEXTURES = ['pipe', 'hazard', 'bird', 'heart-full', 'heart-empty', 'power-shield', 'power-slowmo', 'power-heart', 'shield-bubble'];
+
+let textureStyle: string | null = null;
+
+const generateHeartTextures = (scene: Phaser.Scene, colors: ThemeColors) =>
+{
+    generateHeartTexture(scene, 'heart-full', colors.heartFull);
+    generateHeartTexture(scene, 'heart-empty', colors.heartEmpty);
+};
+
+const generateHeartTexture = (scene: Phaser.Scene, key: string, color: number) =>
+{
+    if (scene.textures.exists(key))
+    {
+        return;
+    }
+
+    const width = 48;
+    const height = 40;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+
+    graphics.fillStyle(color, 1);
+    graphics.fillCircle(width * 0.32, height * 0.35, width * 0.18);
+    graphics.fillCircle(width * 0.68, height * 0.35, width * 0.18);
+    graphics.fillTriangle(width * 0.08, height * 0.4, width * 0.92, height * 0.4, width * 0.5, height * 0.92);
+
+    graphics.generateTexture(key, width, height);
+    graphics.destroy();
+};
+
+const generateGhostMarkerTexture = (scene: Phaser.Scene) =>
+{
+    if (scene.textures.exists('ghost-marker'))
+    {
+        return;
+    }
+
+    const size = 28;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+    graphics.fillStyle(0x311b92, 0.6);
+    graphics.fillCircle(size * 0.5, size * 0.5, size * 0.5 - 2);
+    graphics.lineStyle(3, 0xd1c4e9, 1);
+    graphics.strokeCircle(size * 0.5, size * 0.5, size * 0.5 - 2);
+    graphics.lineBetween(size * 0.3, size * 0.3, size * 0.7, size * 0.7);
+    graphics.lineBetween(size * 0.7, size * 0.3, size * 0.3, size * 0.7);
+    graphics.generateTexture('ghost-marker', size, size);
+    graphics.destroy();
+};
+
+// Power-up pickups share a glowing disc and differ in the symbol on top.
+const generatePowerUpTexture = (scene: Phaser.Scene, key: string, color: number, drawSymbol: (graphics: Phaser.GameObjects.Graphics, size: number) => void) =>
+{
+    if (scene.textures.exists(key))
+    {
+        return;
+    }
+
+    const size = 44;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+    graphics.fillStyle(color, 0.35);
+    graphics.fillCircle(size * 0.5, size * 0.5, size * 0.5);
+    graphics.fillStyle(color, 1);
+    graphics.fillCircle(size * 0.5, size * 0.5, size * 0.38);
+    graphics.lineStyle(3, 0xffffff, 1);
+    graphics.strokeCircle(size * 0.5, size * 0.5, size * 0.38);
+    drawSymbol(graphics, size);
+    graphics.generateTexture(key, size, size);
+    graphics.destroy();
+};
+
+const generatePowerUpTextures = (scene: Phaser.Scene, colors: ThemeColors) =>
+{
+    generatePowerUpTexture(scene, 'power-shield', colors.shield, (graphics, size) =>
+    {
+        graphics.fillStyle(0xffffff, 1);
+        graphics.fillRect(size * 0.34, size * 0.3, size * 0.32, size * 0.2);
+        graphics.fillTriangle(size * 0.34, size * 0.5, size * 0.66, size * 0.5, size * 0.5, size * 0.72);
+    });
+
+    generatePowerUpTexture(scene, 'power-slowmo', colors.slowmo, (graphics, size) =>
+    {
+        graphics.fillStyle(0xffffff, 1);
+        graphics.fillTriangle(size * 0.34, size * 0.28, size * 0.66, size * 0.28, size * 0.5, size * 0.5);
+        graphics.fillTriangle(size * 0.34, size * 0.72, size * 0.66, size * 0.72, size * 0.5, size * 0.5);
+    });
+
+    generatePowerUpTexture(scene, 'power-heart', colors.heart, (graphics, size) =>
+    {
+        graphics.fillStyle(0xffffff, 1);
+        graphics.fillCircle(size * 0.41, size * 0.42, size * 0.09);
+        graphics.fillCircle(size * 0.59, size * 0.42, size * 0.09);
+        graphics.fillTriangle(size * 0.32, size * 0.46, size * 0.68, size * 0.46, size * 0.5, size * 0.7);
+    });
+
+    if (!scene.textures.exists('shield-bubble'))
+    {
+        const size = 124;
+        const graphics = scene.make.graphics({ x: 0, y: 0 });
+        graphics.fillStyle(colors.shieldBubble, 0.18);
+        graphics.fillCircle(size * 0.5, size * 0.5, size * 0.5 - 3);
+        graphics.lineStyle(4, colors.shieldBubble, 0.9);
+        graphics.strokeCircle(size * 0.5, size * 0.5, size * 0.5 - 3);
+        graphics.generateTexture('shield-bubble', size, size);
+        graphics.destroy();
+    }
+};
+
+const generateHazardTexture = (scene: Phaser.Scene, colors: ThemeColors) =>
+{
+    if (scene.textures.exists('hazard'))
+    {
+        return;
+    }
+
+    const size = 64;
+    const center = size * 0.5;
+    const spikes = 10;
+    const points: Phaser.Types.Math.Vector2Like[] = [];
+
+    for (let i = 0; i < spikes * 2; i++)
+    {
+        const radius = i % 2 === 0 ? center - 1 : center * 0.62;
+        const angle = (Math.PI * i) / spikes;
+        points.push({ x: center + (Math.cos(angle) * radius), y: center + (Math.sin(angle) * radius) });
+    }
+
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+    graphics.fillStyle(colors.hazard, 1);
+    graphics.fillPoints(points, true);
+    graphics.fillStyle(colors.hazardCore, 1);
+    graphics.fillCircle(center, center, center * 0.4);
+    graphics.fillStyle(0xffffff, 1);
+    graphics.fillCircle(center - 5, center - 5, 4);
+    graphics.generateTexture('hazard', size, size);
+    graphics.destroy();
+};
+
+// A checkered post, stretched over the full height at the end of a course.
+const generateFinishLineTexture = (scene: Phaser.Scene) =>
+{
+    if (scene.textures.exists('finish-line'))
+    {
+        return;
+    }
+
+    const square = 12;
+    const columns = 2;
+    const rows = 8;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+
+    for (let row = 0; row < rows; row++)
+    {
+        for (let column = 0; column < columns; column++)
+        {
+            graphics.fillStyle((row + column) % 2 === 0 ? 0xffffff : 0x212121, 1);
+            graphics.fillRect(column * square, row * square, square, square);
+        }
+    }
+
+    graphics.generateTexture('finish-line', square * columns, square * rows);
+    graphics.destroy();
+};
+
+const generatePipeTexture = (scene: Phaser.Scene, { colors, shapes }: Theme) =>
+{
+    if (scene.textures.exists('pipe'))
+    {
+        return;
+    }
+
+    const width = 90;
+    const height = 400;
+    const inset = shapes.pipeEdgeWidth * 0.5;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+    graphics.fillStyle(colors.pipe, 1);
+    graphics.lineStyle(shapes.pipeEdgeWidth, colors.pipeEdge, 1);
+    if (shapes.pipeCornerRadius > 0)
+    {
+        graphics.fillRoundedRect(0, 0, width, height, shapes.pipeCornerRadius);
+        graphics.strokeRoundedRect(0, 0, width, height, shapes.pipeCornerRadius);
+    }
+    else
+    {
+        graphics.fillRect(0, 0, width, height);
+        graphics.strokeRect(inset, inset, width - shapes.pipeEdgeWidth, height - shapes.pipeEdgeWidth);
+    }
+    graphics.generateTexture('pipe', width, height);
+    graphics.destroy();
+};
+
+const generateBirdTexture = (scene: Phaser.Scene, colors: ThemeColors, blocky: boolean) =>
+{
+    if (scene.textures.exists('bird'))
+    {
+        return;
+    }
+
+    const width = 96;
+    const height = 72;
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+
+    if (blocky)
+    {
+        drawBlockyBird(graphics, colors);
+    }
+    else
+    {
+        drawRoundBird(graphics, colors, width, height);
+    }
+
+    graphics.generateTexture('bird', width, height);
+    graphics.destroy();
+};
+
+const drawRoundBird = (graphics: Phaser.GameObjects.Graphics, colors: ThemeColors, width: number, height: number) =>
+{
+    graphics.fillStyle(colors.birdBody, 1);
+    graphics.fillEllipse(width * 0.45, height * 0.55, width * 0.7, height * 0.7);
+
+    graphics.fillStyle(colors.birdWing, 1);
+    graphics.fillEllipse(width * 0.35, height * 0.52, width * 0.5, height * 0.35);
+
+    graphics.fillStyle(colors.birdBelly, 1);
+    graphics.fillEllipse(width * 0.53, height * 0.58, width * 0.4, height * 0.3);
+
+    graphics.fillStyle(colors.birdBeak, 1);
+    graphics.fillTriangle(width * 0.78, height * 0.47, width * 0.96, height * 0.53, width * 0.78, height * 0.59);
+
+    graphics.fillStyle(colors.birdTail, 1);
+    graphics.fillRoundedRect(width * 0.08, height * 0.5, width * 0.18, height * 0.18, 16);
+
+    graphics.fillStyle(colors.birdEye, 1);
+    graphics.fillCircle(width * 0.63, height * 0.38, 7);
+    graphics.fillStyle(0xffffff, 1);
+    graphics.fillCircle(width * 0.66, height * 0.36, 3);
+};
+
+// The same bird laid out on a grid of 8px cells, for pixel-art themes.
+const drawBlockyBird = (graphics: Phaser.GameObjects.Graphics, colors: ThemeColors) =>
+{
+    const cell = 8;
+    const block = (color: number, column: number, row: number, columns: number, rows: number) =>
+    {
+        graphics.fillStyle(color, 1);
+        graphics.fillRect(column * cell, row * cell, columns * cell, rows * cell);
+    };
+
+    block(colors.birdBody, 2, 2, 7, 5);
+    block(colors.birdBody, 3, 1, 5, 1);
+    block(colors.birdTail, 0, 4, 2, 2);
+    block(colors.birdWing, 2, 4, 3, 2);
+    block(colors.birdBelly, 5, 5, 3, 2);
+    block(colors.birdBeak, 9, 4, 2, 1);
+    block(colors.birdEye, 7, 3, 1, 1);
+};
+
+// Draws every generated texture the scenes share. Safe to call from each
+// scene's create(), since textures that already exist are skipped. Only call
+// it before the scene adds any objects: a theme or palette change replaces
+// textures that objects from an earlier scene may still have been using.
+export const generateTextures = (scene: Phaser.Scene, theme: Theme, palette: Palette = 'default') =>
+{
+    const style = `${theme.id}/${palette}`;
+    if (textureStyle !== style)
+    {
+        STYLED_TEXTURES.forEach((key) =>
+        {
+            if (scene.textures.exists(key))
+            {
+                scene.textures.remove(key);
+            }
+        });
+        textureStyle = style;
+    }
+
+    const colors = palette === 'default' ? theme.colors : PALETTE_COLORS[palette];
+    generatePipeTexture(scene, { ...theme, colors });
+    generateHazardTexture(scene, colors);
+    generateBirdTexture(scene, colors, theme.shapes.blockyBird);
+    generateHeartTextures(scene, colors);
+    generateGhostMarkerTexture(scene);
+    generatePowerUpTextures(scene, colors);
+    generateFinishLineTexture(scene);
+};
+
+// Each theme's sky and hill textures keep their own keys, so switching
+// themes never has to drop them.
+// Generated backgrounds are drawn for one screen size, so each layout gets
+// its own copy.
+export const getSkyTextureKey = (theme: Theme, width: number, height: number) => theme.background.image ?? `sky-${theme.id}-${width}x${height}`;
+
+export const getLayerTextureKey = (theme: Theme, index: number, width: number, height: number) => `hills-${theme.id}-${index}-${width}x${height}`;
+
+// Fills the sky with a top-to-bottom gradient in bands, since textures are
+// drawn without gradient support, and scatters the theme's stars over it.
+const generateSkyTexture = (scene: Phaser.Scene, theme: Theme, width: number, height: number) =>
+{
+    const key = getSkyTextureKey(theme, width, height);
+    if (scene.textures.exists(key))
+    {
+        return;
+    }
+
+    const { skyTop, skyBottom, stars } = theme.background;
+    const bands = 24;
+    const top = Phaser.Display.Color.ValueToColor(skyTop);
+    const bottom = Phaser.Display.Color.ValueToColor(skyBottom);
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+
+    for (let band = 0; band < bands; band++)
+    {
+        const color = Phaser.Display.Color.Interpolate.ColorWithColor(top, bottom, bands - 1, band);
+        graphics.fillStyle(Phaser.Display.Color.GetColor(color.r, color.g, color.b), 1);
+        graphics.fillRect(0, Math.floor(band * height / bands), width, Math.ceil(height / bands) + 1);
+    }
+
+    // Seeded by the theme so the stars sit in the same place every time.
+    const random = new SeededRandom(theme.id);
+    for (let i = 0; i < stars; i++)
+    {
+        graphics.fillStyle(0xffffff, random.between(0.3, 0.9));
+        graphics.fillCircle(random.between(0, width), random.between(0, height * 0.7), random.between(0.8, 2));
+    }
+
+    graphics.generateTexture(key, width, height);
+    graphics.destroy();
+};
+
+// Hilltops are a sum of sine waves with whole periods across the texture,
+// so it tiles seamlessly as it scrolls.
+const generateLayerTexture = (scene: Phaser.Scene, key: string, layer: BackgroundLayer, index: number, width: number, height: number) =>
+{
+    if (scene.textures.exists(key))
+    {
+        return;
+    }
+
+    const points: Phaser.Types.Math.Vector2Like[] = [{ x: 0, y: height }];
+    for (let x = 0; x <= width; x += 8)
+    {
+        const angle = (Math.PI * 2 * x) / width;
+        const wave = (Math.sin(angle * 2 + index) * 0.6) + (Math.sin(angle * 5 + index * 2) * 0.4);
+        points.push({ x, y: layer.roughness * (1 - wave) * 0.5 });
+    }
+    points.push({ x: width, y: height });
+
+    const graphics = scene.make.graphics({ x: 0, y: 0 });
+    graphics.fillStyle(layer.color, 1);
+    graphics.fillPoints(points, true);
+    graphics.generateTexture(key, width, height);
+    graphics.destroy();
+};
+
+// Draws the theme's background at the scene's size. Themes with an image
+// use the one the scene loaded instead of a generated sky.
+export const generateBackdropTextures = (scene: Phaser.Scene, theme: Theme) =>
+{
+    const { width, height } = scene.scale;
+
+    if (!theme.background.image)
+    {
+        generateSkyTexture(scene, theme, width, height);
+    }
+
+    theme.background.layers.forEach((layer, index) =>
+    {
+        generateLayerTexture(scene, getLayerTextureKey(theme, index, width, height), layer, index, width * 0.5, Math.round(layer.height * height));
+    });
+};
@@ -0,0 +1,326 @@
+import { EventBus } from '../EventBus';
+import { getDefaultStorage, StorageBackend } from '../persistence/StorageBackend';
+
+export const AUDIO_STORAGE_KEY = 'bunny-bird.audio';
+
+export interface AudioSettings
+{
+    muted: boolean;
+    // The generative background loop; effects play either way.
+    music: boolean;
+    masterVolume: number;
+    sfxVolume: number;
+    musicVolume: number;
+}
+
+export type SoundEffect = 'flap' | 'score' | 'hit' | 'life-lost' | 'game-over' | 'power-up' | 'course-complete';
+
+interface ToneOptions
+{
+    type: OscillatorType;
+    from: number;
+    to?: number;
+    duration: number;
+    volume: number;
+    delay?: number;
+}
+
+const createDefaultAudioSettings = (): AudioSettings => ({
+    muted: false,
+    music: true,
+    masterVolume: 0.8,
+    sfxVolume: 0.8,
+    musicVolume: 0.4
+});
+
+const toVolume = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+
+const normalizeAudioSettings = (data: Partial<Record<keyof AudioSettings, unknown>>): AudioSettings =>
+{
+    const defaults = createDefaultAudioSettings();
+
+    return {
+        muted: typeof data.muted === 'boolean' ? data.muted : defaults.muted,
+        music: typeof data.music === 'boolean' ? data.music : defaults.music,
+        masterVolume: toVolume(data.masterVolume, defaults.masterVolume),
+        sfxVolume: toVolume(data.sfxVolume, defaults.sfxVolume),
+        musicVolume: toVolume(data.musicVolume, defaults.musicVolume)
+    };
+};
+
+// A2 and the chords of the loop (Am F C G) as semitones from it, with the
+// minor pentatonic the melody picks from.
+const MUSIC_ROOT_HZ = 110;
+const MUSIC_CHORDS = [0, -4, 3, -2];
+const MUSIC_SCALE = [0, 3, 5, 7, 10, 12];
+const MUSIC_BASE_BPM = 100;
+const MUSIC_BASE_SPEED = 220;
+const MUSIC_LOOKAHEAD = 0.15;
+
+const toHz = (semitones: number) => MUSIC_ROOT_HZ * Math.pow(2, semitones / 12);
+
+// Every sound is synthesised with WebAudio, so there is nothing to download.
+// Effects and music run through their own gain nodes into a master gain,
+// and browsers only allow the context to start from a user gesture, so it
+// is created on the first pointer or key press.
+export class SoundSystem
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private settings: AudioSettings;
+    private context: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private sfx: GainNode | null = null;
+    private music: GainNode | null = null;
+    private noise: AudioBuffer | null = null;
+    private nextBeatTime = 0;
+    private beat = 0;
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = AUDIO_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.settings = this.load();
+
+        if (typeof window !== 'undefined')
+        {
+            ['pointerdown', 'keydown', 'touchstart'].forEach((type) => window.addEventListener(type, this.unlock, { capture: true }));
+        }
+    }
+
+    getSettings (): Readonly<AudioSettings>
+    {
+        return this.settings;
+    }
+
+    updateSettings (changes: Partial<AudioSettings>)
+    {
+        this.settings = normalizeAudioSettings({ ...this.settings, ...changes });
+        this.save();
+        this.applyVolumes();
+        EventBus.emit('audio-changed', { ...this.settings });
+    }
+
+    toggleMute ()
+    {
+        this.updateSettings({ muted: !this.settings.muted });
+    }
+
+    play (effect: SoundEffect)
+    {
+        if (!this.context || !this.sfx || this.settings.muted)
+        {
+            return;
+        }
+
+        const bus = this.sfx;
+
+        switch (effect)
+        {
+            case 'flap':
+                this.tone(bus, { type: 'triangle', from: 380, to: 720, duration: 0.09, volume: 0.25 });
+                break;
+            case 'score':
+                this.tone(bus, { type: 'sine', from: 880, duration: 0.08, volume: 0.2 });
+                this.tone(bus, { type: 'sine', from: 1320, duration: 0.16, volume: 0.2, delay: 0.07 });
+                break;
+            case 'hit':
+                this.noiseBurst(bus, 0.18, 0.45);
+                this.tone(bus, { type: 'square', from: 160, to: 60, duration: 0.2, volume: 0.2 });
+                break;
+            case 'life-lost':
+                this.tone(bus, { type: 'sawtooth', from: 520, to: 180, duration: 0.45, volume: 0.15, delay: 0.1 });
+                break;
+            case 'game-over':
+                [523, 415, 330, 262].forEach((hz, index) =>
+                {
+                    this.tone(bus, { type: 'triangle', from: hz, duration: index === 3 ? 0.6 : 0.2, volume: 0.25, delay: 0.15 + (index * 0.18) });
+                });
+                break;
+            case 'power-up':
+                [660, 880, 1100].forEach((hz, index) =>
+                {
+                    this.tone(bus, { type: 'sine', from: hz, duration: 0.1, volume: 0.18, delay: index * 0.06 });
+                });
+                break;
+            case 'course-complete':
+                [523, 659, 784, 1047].forEach((hz, index) =>
+                {
+                    this.tone(bus, { type: 'triangle', from: hz, duration: index === 3 ? 0.5 : 0.15, volume: 0.22, delay: index * 0.12 });
+                });
+                break;
+        }
+    }
+
+    // Called every frame a run is live, with the current pipe speed setting
+    // the tempo. Notes are only scheduled a moment ahead, so the loop falls
+    // silent on its own once the calls stop (pause, game over, menus).
+    updateMusic (pipeSpeed: number)
+    {
+        if (!this.context || !this.music || this.settings.muted || !this.settings.music)
+        {
+            return;
+        }
+
+        const now = this.context.currentTime;
+        const bpm = Math.min(Math.max(MUSIC_BASE_BPM * (Math.abs(pipeSpeed) / MUSIC_BASE_SPEED), 60), 180);
+        const eighth = 30 / bpm;
+
+        if (this.nextBeatTime < now)
+        {
+            this.nextBeatTime = now + 0.05;
+        }
+
+        while (this.nextBeatTime < now + MUSIC_LOOKAHEAD)
+        {
+            this.scheduleBeat(this.music, this.nextBeatTime, eighth);
+            this.nextBeatTime += eighth;
+            this.beat += 1;
+        }
+    }
+
+    private scheduleBeat (bus: GainNode, time: number, eighth: number)
+    {
+        const chord = MUSIC_CHORDS[Math.floor(this.beat / 8) % MUSIC_CHORDS.length];
+        const step = this.beat % 8;
+
+        if (step % 4 === 0)
+        {
+            this.tone(bus, { type: 'triangle', from: toHz(chord - 12), duration: eighth * 3, volume: 0.35 }, time);
+        }
+
+        // A sparse random melody over the chord, denser on the off-beats.
+        if (Math.random() < (step % 2 === 0 ? 0.35 : 0.55))
+        {
+            const note = MUSIC_SCALE[Math.floor(Math.random() * MUSIC_SCALE.length)];
+            this.tone(bus, { type: 'square', from: toHz(chord + note + 12), duration: eighth * 0.8, volume: 0.08 }, time);
+        }
+    }
+
+    private tone (bus: GainNode, { type, from, to, duration, volume, delay = 0 }: ToneOptions, at?: number)
+    {
+        const context = this.context!;
+        const start = (at ?? context.currentTime) + delay;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+
+        oscillator.type = type;
+        oscillator.frequency.setValueAtTime(from, start);
+        if (to !== undefined)
+        {
+            oscillator.frequency.exponentialRampToValueAtTime(to, start + duration);
+        }
+
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.linearRampToValueAtTime(volume, start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+        oscillator.connect(gain).connect(bus);
+        oscillator.start(start);
+        oscillator.stop(start + duration + 0.05);
+    }
+
+    private noiseBurst (bus: GainNode, duration: number, volume: number)
+    {
+        const context = this.context!;
+        const start = context.currentTime;
+        const source = context.createBufferSource();
+        const filter = context.createBiquadFilter();
+        const gain = context.createGain();
+
+        source.buffer = this.getNoise(context);
+        filter.type = 'lowpass';
+        filter.frequency.value = 900;
+        gain.gain.setValueAtTime(volume, start);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+        source.connect(filter).connect(gain).connect(bus);
+        source.start(start);
+        source.stop(start + duration);
+    }
+
+    private getNoise (context: AudioContext)
+    {
+        if (!this.noise)
+        {
+            this.noise = context.createBuffer(1, context.sampleRate * 0.5, context.sampleRate);
+            const data = this.noise.getChannelData(0);
+            for (let i = 0; i < data.length; i++)
+            {
+                data[i] = (Math.random() * 2) - 1;
+            }
+        }
+
+        return this.noise;
+    }
+
+    private unlock = () =>
+    {
+        ['pointerdown', 'keydown', 'touchstart'].forEach((type) => window.removeEventListener(type, this.unlock, { capture: true }));
+
+        if (this.context || typeof AudioContext === 'undefined')
+        {
+            return;
+        }
+
+        this.context = new AudioContext();
+        this.master = this.context.createGain();
+        this.sfx = this.context.createGain();
+        this.music = this.context.createGain();
+        this.sfx.connect(this.master);
+        this.music.connect(this.master);
+        this.master.connect(this.context.destination);
+        this.applyVolumes();
+        void this.context.resume();
+    };
+
+    private applyVolumes ()
+    {
+        if (!this.context || !this.master || !this.sfx || !this.music)
+        {
+            return;
+        }
+
+        // Short ramps rather than jumps, so slider drags don't click.
+        const now = this.context.currentTime;
+        this.master.gain.setTargetAtTime(this.settings.muted ? 0 : this.settings.masterVolume, now, 0.02);
+        this.sfx.gain.setTargetAtTime(this.settings.sfxVolume, now, 0.02);
+        this.music.gain.setTargetAtTime(this.settings.music ? this.settings.musicVolume : 0, now, 0.02);
+    }
+
+    private load (): AudioSettings
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            return normalizeAudioSettings(raw === null ? {} : JSON.parse(raw));
+        }
+        catch
+        {
+            return createDefaultAudioSettings();
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify(this.settings));
+        }
+        catch
+        {
+            // The mix still applies; it just starts from the defaults on the
+            // next visit.
+        }
+    }
+}
+
+let shared: SoundSystem | null = null;
+
+// One audio context per page, shared by every scene and the React controls.
+export const getSoundSystem = () =>
+{
+    shared ??= new SoundSystem();
+    return shared;
+};
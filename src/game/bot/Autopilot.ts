@@ -0,0 +1,101 @@
+import { SeededRandom } from '../random/SeededRandom';
+import { ObstacleState, Simulation } from '../sim/Simulation';
+
+export interface Gap
+{
+    obstacleId: number;
+    top: number;
+    bottom: number;
+}
+
+// The opening nearest the bird's height through the first obstacle the bird
+// has not fully cleared yet. Openings are the spaces between the obstacle's
+// segments (and the world edges) that the bird could fit through.
+export const findUpcomingGap = (sim: Simulation): Gap | null =>
+{
+    const birdLeft = sim.getBirdBounds().left;
+    const next = sim.getObstacles()
+        .filter((obstacle) => obstacle.segments.some((segment) => sim.getPipeBounds(segment).right >= birdLeft))
+        .reduce<Readonly<ObstacleState> | null>((best, obstacle) => (!best || obstacle.x < best.x ? obstacle : best), null);
+
+    if (!next)
+    {
+        return null;
+    }
+
+    const openings: { top: number; bottom: number }[] = [];
+    let top = 0;
+
+    [...next.segments].sort((a, b) => a.top - b.top).forEach((segment) =>
+    {
+        if (segment.top > top)
+        {
+            openings.push({ top, bottom: segment.top });
+        }
+        top = Math.max(top, segment.bottom);
+    });
+    openings.push({ top, bottom: sim.config.worldHeight });
+
+    const birdY = sim.getBird().y;
+    const distance = (opening: { top: number; bottom: number }) => Math.abs(((opening.top + opening.bottom) * 0.5) - birdY);
+    const nearest = openings
+        .filter((opening) => opening.bottom - opening.top > sim.config.birdHeight)
+        .reduce<{ top: number; bottom: number } | null>((best, opening) => (!best || distance(opening) < distance(best) ? opening : best), null);
+
+    return nearest ? { obstacleId: next.id, ...nearest } : null;
+};
+
+// A simple "hold the bird a little below the gap centre" controller. `skill`
+// runs from 0 to 1: lower values aim less precisely at each gap and
+// occasionally miss a flap they should have made.
+export class Autopilot
+{
+    readonly skill: number;
+    private rng: SeededRandom;
+    private aimObstacleId = -1;
+    private aimOffset = 0;
+
+    constructor (skill = 1, seed: number | string = 0)
+    {
+        this.skill = Math.min(Math.max(skill, 0), 1);
+        this.rng = new SeededRandom(seed);
+    }
+
+    reset (seed: number | string)
+    {
+        this.rng = new SeededRandom(seed);
+        this.aimObstacleId = -1;
+        this.aimOffset = 0;
+    }
+
+    decide (sim: Simulation)
+    {
+        if (sim.getState() !== 'playing')
+        {
+            return false;
+        }
+
+        const bird = sim.getBird();
+        const gap = findUpcomingGap(sim);
+        const sloppiness = 1 - this.skill;
+        let target = sim.getPlayCenterY();
+
+        if (gap)
+        {
+            const gapSize = gap.bottom - gap.top;
+            if (gap.obstacleId !== this.aimObstacleId)
+            {
+                this.aimObstacleId = gap.obstacleId;
+                this.aimOffset = ((this.rng.next() * 2) - 1) * sloppiness * gapSize * 0.5;
+            }
+            target = gap.top + (gapSize * 0.6) + this.aimOffset;
+        }
+
+        if (this.rng.next() < sloppiness * 0.15)
+        {
+            return false;
+        }
+
+        return bird.y > target && bird.velocityY > -60;
+    }
+}
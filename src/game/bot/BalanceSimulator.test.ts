@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { histogram, RunResult, simulateBalance, summarizeResults } from './BalanceSimulator';
+
+const result = (score: number, capped = false): RunResult => ({ seed: score, score, ticks: score * 100, capped });
+
+describe('BalanceSimulator', () =>
+{
+    it('summarizes a score distribution', () =>
+    {
+        const summary = summarizeResults([4, 1, 3, 2, 10].map((score) => result(score)).concat(result(6, true)));
+
+        expect(summary).toMatchObject({ runs: 6, min: 1, median: 3, max: 10, p90: 10, cappedRuns: 1 });
+        expect(summary.mean).toBeCloseTo(26 / 6);
+    });
+
+    it('buckets scores into a histogram', () =>
+    {
+        expect(histogram([0, 3, 5, 12].map((score) => result(score)), 5)).toEqual([
+            { from: 0, to: 4, count: 2 },
+            { from: 5, to: 9, count: 1 },
+            { from: 10, to: 14, count: 1 }
+        ]);
+    });
+
+    it('reproduces the same report for the same seed', () =>
+    {
+        const options = { difficulty: 'medium' as const, runs: 5, skill: 0.7, seed: 'test', maxTicks: 3600 };
+
+        expect(simulateBalance(options).results).toEqual(simulateBalance(options).results);
+    });
+
+    it('scores higher with a more skilled bot', () =>
+    {
+        const options = { difficulty: 'easy' as const, runs: 20, seed: 'skill', maxTicks: 3600 };
+        const sloppy = simulateBalance({ ...options, skill: 0.2 }).summary;
+        const skilled = simulateBalance({ ...options, skill: 1 }).summary;
+
+        expect(skilled.mean).toBeGreaterThan(sloppy.mean);
+    });
+});
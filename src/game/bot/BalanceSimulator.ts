@@ -0,0 +1,130 @@
+import { normalizeSeed } from '../random/SeededRandom';
+import { Simulation } from '../sim/Simulation';
+import { createSimulationConfig, Difficulty, SimulationConfig } from '../sim/SimulationConfig';
+import { Autopilot } from './Autopilot';
+
+export interface BalanceOptions
+{
+    difficulty: Difficulty;
+    runs: number;
+    skill: number;
+    seed?: number | string;
+    // Runs still alive after this many ticks are stopped and counted as capped.
+    maxTicks?: number;
+    config?: Partial<SimulationConfig>;
+}
+
+export interface RunResult
+{
+    seed: number;
+    score: number;
+    ticks: number;
+    capped: boolean;
+}
+
+export interface ScoreSummary
+{
+    runs: number;
+    mean: number;
+    min: number;
+    p10: number;
+    p25: number;
+    median: number;
+    p75: number;
+    p90: number;
+    max: number;
+    cappedRuns: number;
+}
+
+export interface BalanceReport
+{
+    difficulty: Difficulty;
+    skill: number;
+    results: RunResult[];
+    summary: ScoreSummary;
+}
+
+export const DEFAULT_MAX_TICKS = 60 * 60 * 3;
+
+// Plays one seeded run to game over (or the tick cap) with the autopilot.
+export const simulateRun = (config: SimulationConfig, difficulty: Difficulty, seed: number, skill: number, maxTicks = DEFAULT_MAX_TICKS): RunResult =>
+{
+    const sim = new Simulation(config);
+    const autopilot = new Autopilot(skill, seed);
+
+    sim.setDifficulty(difficulty);
+    sim.start(seed);
+
+    while (sim.getState() !== 'gameover' && sim.getTick() < maxTicks)
+    {
+        sim.step(autopilot.decide(sim));
+    }
+
+    return { seed, score: sim.getScore(), ticks: sim.getTick(), capped: sim.getState() !== 'gameover' };
+};
+
+const percentile = (sorted: number[], fraction: number) =>
+{
+    if (sorted.length === 0)
+    {
+        return 0;
+    }
+
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1));
+    return sorted[index];
+};
+
+export const summarizeResults = (results: RunResult[]): ScoreSummary =>
+{
+    const sorted = results.map((result) => result.score).sort((a, b) => a - b);
+    const total = sorted.reduce((sum, score) => sum + score, 0);
+
+    return {
+        runs: sorted.length,
+        mean: sorted.length ? total / sorted.length : 0,
+        min: sorted[0] ?? 0,
+        p10: percentile(sorted, 0.1),
+        p25: percentile(sorted, 0.25),
+        median: percentile(sorted, 0.5),
+        p75: percentile(sorted, 0.75),
+        p90: percentile(sorted, 0.9),
+        max: sorted[sorted.length - 1] ?? 0,
+        cappedRuns: results.filter((result) => result.capped).length
+    };
+};
+
+// Buckets scores into `bucketSize`-wide bins, e.g. 0-4, 5-9, ...
+export const histogram = (results: RunResult[], bucketSize: number) =>
+{
+    const buckets = new Map<number, number>();
+
+    results.forEach(({ score }) =>
+    {
+        const bucket = Math.floor(score / bucketSize) * bucketSize;
+        buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+    });
+
+    return [...buckets.entries()].sort(([a], [b]) => a - b).map(([from, count]) => ({ from, to: from + bucketSize - 1, count }));
+};
+
+// Every run's seed is derived from the base seed, difficulty and run index,
+// so a report can be regenerated exactly after changing only the tuning.
+export const simulateBalance = (options: BalanceOptions): BalanceReport =>
+{
+    const config = createSimulationConfig(options.config);
+    const baseSeed = options.seed ?? 'balance';
+    const results: RunResult[] = [];
+
+    for (let i = 0; i < options.runs; i++)
+    {
+        const seed = normalizeSeed(`${baseSeed}:${options.difficulty}:${i}`);
+        results.push(simulateRun(config, options.difficulty, seed, options.skill, options.maxTicks));
+    }
+
+    return {
+        difficulty: options.difficulty,
+        skill: options.skill,
+        results,
+        summary: summarizeResults(results)
+    };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Course, COURSE_VERSION, CourseFormatError, createEmptyCourse, parseCourse, serializeCourse } from './Course';
+
+const course: Course = {
+    version: COURSE_VERSION,
+    name: 'Warm-up',
+    difficulty: 'easy',
+    obstacles: [
+        { spacing: 300, type: 'pipes', gapCenter: 260 },
+        { spacing: 250, type: 'moving-gap', gapCenter: 300, gapSize: 200, pickup: 'shield' }
+    ],
+    finish: 500
+};
+
+describe('parseCourse', () =>
+{
+    it('reads back what it wrote', () =>
+    {
+        expect(parseCourse(serializeCourse(course))).toEqual(course);
+    });
+
+    it('fills in a missing name and finish line', () =>
+    {
+        const parsed = parseCourse(JSON.stringify({ ...course, name: undefined, finish: -1 }));
+
+        expect(parsed.name).toBe('');
+        expect(parsed.finish).toBe(createEmptyCourse().finish);
+    });
+
+    it.each([
+        ['not JSON', '{oops'],
+        ['not an object', '"course"'],
+        ['from another version', JSON.stringify({ ...course, version: COURSE_VERSION + 1 })],
+        ['on an unknown difficulty', JSON.stringify({ ...course, difficulty: 'brutal' })],
+        ['without obstacles', JSON.stringify({ ...course, obstacles: {} })],
+        ['with a negative spacing', JSON.stringify({ ...course, obstacles: [{ spacing: -5, type: 'pipes', gapCenter: 260 }] })],
+        ['with an unknown obstacle type', JSON.stringify({ ...course, obstacles: [{ spacing: 300, type: 'lasers', gapCenter: 260 }] })],
+        ['with a zero gap size', JSON.stringify({ ...course, obstacles: [{ spacing: 300, type: 'pipes', gapCenter: 260, gapSize: 0 }] })],
+        ['with an unknown pickup', JSON.stringify({ ...course, obstacles: [{ spacing: 300, type: 'pipes', gapCenter: 260, pickup: 'coin' }] })]
+    ])('rejects a course %s', (_case, text) =>
+    {
+        expect(() => parseCourse(text)).toThrow(CourseFormatError);
+    });
+});
@@ -0,0 +1,159 @@
+import { OBSTACLE_TYPES } from '../sim/Obstacles';
+import { Difficulty, isDifficulty, POWER_UP_KINDS, PowerUpKind } from '../sim/SimulationConfig';
+
+export const COURSE_VERSION = 1;
+
+// One hand-placed obstacle. `spacing` is how far the course scrolls after the
+// previous obstacle (or the start) before this one appears, in pixels.
+// `gapCenter` is a world y position; `gapSize` falls back to the difficulty's
+// gap when left out.
+export interface CourseObstacle
+{
+    spacing: number;
+    type: string;
+    gapCenter: number;
+    gapSize?: number;
+    pickup?: PowerUpKind;
+}
+
+// A hand-authored course played instead of the endless random one. The run
+// ends at the finish line, `finish` pixels after the last obstacle.
+export interface Course
+{
+    version: number;
+    name: string;
+    difficulty: Difficulty;
+    obstacles: CourseObstacle[];
+    finish: number;
+}
+
+export class CourseFormatError extends Error
+{
+    constructor (message: string)
+    {
+        super(message);
+        this.name = 'CourseFormatError';
+    }
+}
+
+export const createEmptyCourse = (): Course => ({
+    version: COURSE_VERSION,
+    name: 'Untitled course',
+    difficulty: 'medium',
+    obstacles: [],
+    finish: 400
+});
+
+// Distance from the start of the course to each obstacle.
+export const getObstaclePositions = (course: Course) =>
+{
+    let position = 0;
+    return course.obstacles.map((obstacle) =>
+    {
+        position += obstacle.spacing;
+        return position;
+    });
+};
+
+export const getCourseLength = (course: Course) =>
+    course.obstacles.reduce((sum, obstacle) => sum + obstacle.spacing, 0) + course.finish;
+
+const isDistance = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isObstacleType = (value: unknown): value is string =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(OBSTACLE_TYPES, value);
+
+const isPowerUpKind = (value: unknown): value is PowerUpKind =>
+    typeof value === 'string' && (POWER_UP_KINDS as string[]).includes(value);
+
+const parseObstacle = (value: unknown, index: number): CourseObstacle =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        throw new CourseFormatError(`Obstacle ${index + 1} must be an object.`);
+    }
+
+    const data = value as Record<string, unknown>;
+
+    if (!isDistance(data.spacing) || !isDistance(data.gapCenter))
+    {
+        throw new CourseFormatError(`Obstacle ${index + 1} needs a spacing and gap center.`);
+    }
+
+    if (!isObstacleType(data.type))
+    {
+        throw new CourseFormatError(`Obstacle ${index + 1} has an unknown type: ${String(data.type)}.`);
+    }
+
+    if (data.gapSize !== undefined && !(isDistance(data.gapSize) && data.gapSize > 0))
+    {
+        throw new CourseFormatError(`Obstacle ${index + 1} has an invalid gap size.`);
+    }
+
+    if (data.pickup !== undefined && !isPowerUpKind(data.pickup))
+    {
+        throw new CourseFormatError(`Obstacle ${index + 1} has an unknown pickup: ${String(data.pickup)}.`);
+    }
+
+    return {
+        spacing: data.spacing,
+        type: data.type,
+        gapCenter: data.gapCenter,
+        ...(data.gapSize !== undefined && { gapSize: data.gapSize }),
+        ...(data.pickup !== undefined && { pickup: data.pickup })
+    };
+};
+
+export const serializeCourse = (course: Course) => JSON.stringify(course, null, 2);
+
+// Validates an already-parsed value, so courses embedded in other formats
+// (such as replays) go through the same checks as course files.
+export const toCourse = (raw: unknown): Course =>
+{
+    if (typeof raw !== 'object' || raw === null)
+    {
+        throw new CourseFormatError('Course must be a JSON object.');
+    }
+
+    const data = raw as Record<string, unknown>;
+
+    if (data.version !== COURSE_VERSION)
+    {
+        throw new CourseFormatError(`Unsupported course version: ${String(data.version)}.`);
+    }
+
+    if (!isDifficulty(data.difficulty))
+    {
+        throw new CourseFormatError('Course is missing its difficulty.');
+    }
+
+    if (!Array.isArray(data.obstacles))
+    {
+        throw new CourseFormatError('Course obstacles must be a list.');
+    }
+
+    return {
+        version: COURSE_VERSION,
+        name: typeof data.name === 'string' ? data.name : '',
+        difficulty: data.difficulty,
+        obstacles: data.obstacles.map(parseObstacle),
+        finish: isDistance(data.finish) ? data.finish : createEmptyCourse().finish
+    };
+};
+
+export const parseCourse = (text: string): Course =>
+{
+    let raw: unknown;
+
+    try
+    {
+        raw = JSON.parse(text);
+    }
+    catch
+    {
+        throw new CourseFormatError('Course is not valid JSON.');
+    }
+
+    return toCourse(raw);
+};
@@ -0,0 +1,86 @@
+import Phaser from 'phaser';
+import type { Bounds, Simulation } from '../sim/Simulation';
+
+const BIRD_COLOR = 0xffeb3b;
+const PIPE_COLOR = 0x76ff03;
+const POWER_UP_COLOR = 0x18ffff;
+
+// Frame rate, the run's state and the simulation's collision boxes, drawn
+// over the Game scene after every update.
+export class DebugOverlay
+{
+    private readonly scene: Phaser.Scene;
+    private readonly sim: Simulation;
+    private readonly text: Phaser.GameObjects.Text;
+    private readonly bodies: Phaser.GameObjects.Graphics;
+    private visible: boolean;
+
+    constructor (scene: Phaser.Scene, sim: Simulation, visible: boolean)
+    {
+        this.scene = scene;
+        this.sim = sim;
+        this.visible = visible;
+        this.bodies = scene.add.graphics().setDepth(30);
+        this.text = scene.add.text(8, 8, '', {
+            fontFamily: 'monospace',
+            fontSize: '14px',
+            color: '#ffffff',
+            backgroundColor: '#000000aa',
+            padding: { x: 6, y: 4 }
+        }).setDepth(31);
+
+        scene.events.on(Phaser.Scenes.Events.POST_UPDATE, this.draw, this);
+        scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+        {
+            scene.events.off(Phaser.Scenes.Events.POST_UPDATE, this.draw, this);
+        });
+        this.draw();
+    }
+
+    isVisible ()
+    {
+        return this.visible;
+    }
+
+    toggle ()
+    {
+        this.visible = !this.visible;
+        this.draw();
+    }
+
+    private draw ()
+    {
+        this.bodies.clear().setVisible(this.visible);
+        this.text.setVisible(this.visible);
+
+        if (!this.visible)
+        {
+            return;
+        }
+
+        const { sim } = this;
+        const pipes = sim.getPipes();
+        const powerUps = sim.getPowerUps();
+        const players = Array.from({ length: sim.getPlayerCount() }, (_, player) => player);
+
+        this.strokeBounds(BIRD_COLOR, players.map((player) => sim.getBirdBounds(player)));
+        this.strokeBounds(PIPE_COLOR, pipes.map((pipe) => sim.getPipeBounds(pipe)));
+        this.strokeBounds(POWER_UP_COLOR, powerUps.map((powerUp) => sim.getPowerUpBounds(powerUp)));
+
+        const statuses = players.map((player) => sim.getPlayerStatus(player)).join(' / ');
+        this.text.setText([
+            `FPS    ${Math.round(this.scene.game.loop.actualFps)}`,
+            `STATE  ${sim.getState()} (${statuses})`,
+            `BODIES ${players.length + pipes.length + powerUps.length}`,
+            `PIPES  ${pipes.length}`,
+            `TICK   ${sim.getTick()}`,
+            `SPEED  ${Math.round(sim.getPipeSpeed())}`
+        ]);
+    }
+
+    private strokeBounds (color: number, bounds: Bounds[])
+    {
+        this.bodies.lineStyle(2, color, 0.9);
+        bounds.forEach(({ left, top, right, bottom }) => this.bodies.strokeRect(left, top, right - left, bottom - top));
+    }
+}
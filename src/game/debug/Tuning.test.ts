@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createSimulationConfig, DIFFICULTY_RAMPS } from '../sim/SimulationConfig';
+import { createDefaultTuning, isDefaultTuning, serializeTuning } from './Tuning';
+
+describe('Tuning', () =>
+{
+    it('tells tuned rules from the stock ones', () =>
+    {
+        const tuning = createDefaultTuning();
+
+        expect(isDefaultTuning(tuning)).toBe(true);
+        expect(isDefaultTuning({ ...tuning, gravity: tuning.gravity + 10 })).toBe(false);
+
+        tuning.difficultySettings.hard.gap -= 5;
+        expect(isDefaultTuning(tuning)).toBe(false);
+        expect(isDefaultTuning(createDefaultTuning())).toBe(true);
+    });
+
+    it('exports overrides that build the tuned config', () =>
+    {
+        const tuning = { ...createDefaultTuning(), flapVelocity: -360, resumeDelay: 1500 };
+        const config = createSimulationConfig(JSON.parse(serializeTuning(tuning)));
+
+        expect(config.flapVelocity).toBe(-360);
+        expect(config.resumeDelay).toBe(1500);
+        expect(config.difficultySettings).toEqual(tuning.difficultySettings);
+    });
+
+    it('moves the end of each ramp along with a tuned difficulty', () =>
+    {
+        const tuning = createDefaultTuning();
+        tuning.difficultySettings.medium.speed -= 30;
+        const config = createSimulationConfig(JSON.parse(serializeTuning(tuning)));
+
+        expect(config.difficultyRamps.medium.end.speed).toBe(DIFFICULTY_RAMPS.medium.end.speed - 30);
+        expect(config.difficultyRamps.easy).toEqual(DIFFICULTY_RAMPS.easy);
+    });
+});
@@ -0,0 +1,72 @@
+import { createSimulationConfig, DIFFICULTIES, DifficultySettings, shiftDifficultyRamps, SimulationConfig } from '../sim/SimulationConfig';
+
+// The constants the tuning panel can change on a running game, in the
+// landscape units SimulationConfig's defaults are written in.
+export type Tuning = Pick<SimulationConfig, 'gravity' | 'flapVelocity' | 'resumeDelay' | 'spawnPadding' | 'difficultySettings'>;
+
+export type TuningValue = Exclude<keyof Tuning, 'difficultySettings'>;
+
+export interface TuningRange
+{
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export const TUNING_RANGES: Record<TuningValue, TuningRange> = {
+    gravity: { label: 'Gravity', min: 300, max: 2000, step: 10 },
+    flapVelocity: { label: 'Flap velocity', min: -700, max: -100, step: 5 },
+    resumeDelay: { label: 'Resume delay (ms)', min: 0, max: 5000, step: 100 },
+    spawnPadding: { label: 'Spawn padding', min: 0, max: 150, step: 5 }
+};
+
+export const DIFFICULTY_TUNING_RANGES: Record<keyof DifficultySettings, TuningRange> = {
+    gap: { label: 'Gap', min: 100, max: 400, step: 5 },
+    spawnDelay: { label: 'Spawn delay (ms)', min: 600, max: 3000, step: 50 },
+    speed: { label: 'Speed', min: -500, max: -100, step: 5 }
+};
+
+export const createDefaultTuning = (): Tuning =>
+{
+    const { gravity, flapVelocity, resumeDelay, spawnPadding, difficultySettings } = createSimulationConfig();
+    return {
+        gravity,
+        flapVelocity,
+        resumeDelay,
+        spawnPadding,
+        difficultySettings: {
+            easy: { ...difficultySettings.easy },
+            medium: { ...difficultySettings.medium },
+            hard: { ...difficultySettings.hard }
+        }
+    };
+};
+
+export const isDefaultTuning = (tuning: Readonly<Tuning>) =>
+{
+    const defaults = createDefaultTuning();
+    const keys = Object.keys(TUNING_RANGES) as TuningValue[];
+    const settingKeys = Object.keys(DIFFICULTY_TUNING_RANGES) as (keyof DifficultySettings)[];
+
+    return keys.every((key) => tuning[key] === defaults[key])
+        && DIFFICULTIES.every((level) => settingKeys.every((key) => tuning.difficultySettings[level][key] === defaults.difficultySettings[level][key]));
+};
+
+// Overrides for createSimulationConfig. The ramps come along so a tuned
+// difficulty keeps its new feel as a run tightens, rather than sliding back
+// to the stock end settings.
+export const toConfigOverrides = (tuning: Readonly<Tuning>): Partial<SimulationConfig> => ({
+    ...tuning,
+    difficultyRamps: shiftDifficultyRamps(tuning.difficultySettings)
+});
+
+// Written as overrides for createSimulationConfig, so the result can be
+// pasted straight back in as the new defaults.
+export const serializeTuning = (tuning: Readonly<Tuning>) => JSON.stringify(toConfigOverrides(tuning), null, 2);
+
+// The debug overlay and tuning panel are there in development builds, and
+// anywhere else the page is opened with `?debug`.
+export const hasDebugFlag = () => typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('debug');
+
+export const isDebugEnabled = () => import.meta.env.DEV || hasDebugFlag();
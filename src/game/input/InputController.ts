@@ -0,0 +1,202 @@
+import Phaser from 'phaser';
+import { EventBus } from '../EventBus';
+import { AccessibilitySettings, AccessibilityStore } from '../persistence/AccessibilityStore';
+import { InputAction, KeyBindings, KeyBindingStore } from '../persistence/KeyBindingStore';
+import { PressDeduplicator } from './InputTiming';
+
+export type InputSource = 'keyboard' | 'pointer' | 'gamepad' | 'command';
+
+export type InputHandlers = Partial<Record<InputAction, () => void>>;
+
+export interface InputControllerOptions
+{
+    // Canvas taps flap.
+    pointer?: boolean;
+    // What any other key, button or tap does in one-switch mode.
+    switchAction?: InputAction;
+}
+
+// Standard gamepad mapping: A/B/X/Y flap, Start pauses, and the bumpers
+// rewind and freeze practice runs.
+const GAMEPAD_BUTTONS: Partial<Record<InputAction, number[]>> = {
+    flap: [0, 1, 2, 3],
+    pause: [9],
+    rewind: [4],
+    freeze: [5]
+};
+
+// Long enough to cover a frame at 30fps between the page's touch event and
+// the canvas' pointer event for the same tap.
+const DEDUPE_WINDOW_MS = 80;
+
+const KEY_NAMES = new Map(Object.entries(Phaser.Input.Keyboard.KeyCodes).map(([name, code]) => [code, name]));
+
+const getHeldGamepadButtons = () =>
+{
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    return pads.flatMap((pad) => pad ? pad.buttons.flatMap((button, index) => button.pressed ? [index] : []) : []);
+};
+
+// The Phaser key name a bindings editor should store for a DOM key event.
+export const getKeyName = (event: KeyboardEvent) => KEY_NAMES.get(event.keyCode) ?? null;
+
+// Routes keyboard, gamepad and (optionally) pointer input for one scene to
+// the handlers it cares about, using the player's key bindings. Bindings
+// edited while the scene is up take effect straight away. In one-switch mode
+// every input without a meaning of its own runs the scene's switch action.
+export class InputController
+{
+    private readonly scene: Phaser.Scene;
+    private readonly handlers: InputHandlers;
+    private readonly pointer: boolean;
+    private readonly switchAction: InputAction;
+    private oneSwitch: boolean;
+    private readonly presses = new PressDeduplicator<InputSource>(DEDUPE_WINDOW_MS);
+    private bindings: KeyBindings;
+    private keys: { key: Phaser.Input.Keyboard.Key; listener: () => void }[] = [];
+    // A new scene's gamepad plugin reports buttons that were already down
+    // (the Start that opened the pause menu, say) as fresh presses.
+    private readonly heldButtons = new Set(getHeldGamepadButtons());
+
+    constructor (scene: Phaser.Scene, handlers: InputHandlers, options: InputControllerOptions = {})
+    {
+        this.scene = scene;
+        this.handlers = handlers;
+        this.pointer = options.pointer ?? false;
+        this.switchAction = options.switchAction ?? 'flap';
+        this.oneSwitch = new AccessibilityStore().getSettings().oneSwitch;
+        this.bindings = { ...new KeyBindingStore().getBindings() };
+
+        this.bindKeys();
+        scene.input.on('pointerdown', this.handlePointer, this);
+        scene.input.keyboard?.on('keydown', this.handleAnyKey, this);
+        scene.input.gamepad?.on('down', this.handleGamepad, this);
+        EventBus.on('bindings-changed', this.setBindings, this);
+        EventBus.on('accessibility-changed', this.setAccessibility, this);
+        scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    }
+
+    getBindings (): Readonly<KeyBindings>
+    {
+        return this.bindings;
+    }
+
+    // Runs the action's handler unless the same press already arrived from
+    // another source.
+    trigger (action: InputAction, source: InputSource)
+    {
+        const handler = this.handlers[action];
+        if (!handler)
+        {
+            return;
+        }
+
+        if (action === 'flap' && !this.presses.accept(source, performance.now()))
+        {
+            return;
+        }
+
+        handler();
+    }
+
+    private setBindings (bindings: KeyBindings)
+    {
+        this.unbindKeys();
+        this.bindings = { ...bindings };
+        this.bindKeys();
+    }
+
+    private setAccessibility (settings: AccessibilitySettings)
+    {
+        this.oneSwitch = settings.oneSwitch;
+    }
+
+    private bindKeys ()
+    {
+        const { keyboard } = this.scene.input;
+        if (!keyboard)
+        {
+            return;
+        }
+
+        (Object.keys(this.handlers) as InputAction[]).forEach((action) =>
+        {
+            this.bindings[action].forEach((name) =>
+            {
+                const code = Phaser.Input.Keyboard.KeyCodes[name as keyof typeof Phaser.Input.Keyboard.KeyCodes];
+                if (code === undefined)
+                {
+                    return;
+                }
+
+                const key = keyboard.addKey(code);
+                const listener = () => this.trigger(action, 'keyboard');
+                key.on('down', listener);
+                this.keys.push({ key, listener });
+            });
+        });
+    }
+
+    private unbindKeys ()
+    {
+        this.keys.forEach(({ key, listener }) => key.off('down', listener));
+        this.keys = [];
+    }
+
+    // Taps on the scene's own buttons are left to the buttons.
+    private handlePointer (_pointer: Phaser.Input.Pointer, over: Phaser.GameObjects.GameObject[])
+    {
+        if (this.pointer)
+        {
+            this.trigger('flap', 'pointer');
+        }
+        else if (this.oneSwitch && over.length === 0)
+        {
+            this.trigger(this.switchAction, 'pointer');
+        }
+    }
+
+    // Keys the scene listens to itself, bound or not, keep their meaning.
+    private handleAnyKey (event: KeyboardEvent)
+    {
+        if (!this.oneSwitch || event.repeat || this.scene.input.keyboard?.keys[event.keyCode])
+        {
+            return;
+        }
+
+        this.trigger(this.switchAction, 'keyboard');
+    }
+
+    // When the scene takes a second flap, the second pad's flap buttons
+    // drive it instead of the first bird.
+    private handleGamepad (pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button)
+    {
+        if (this.heldButtons.delete(button.index))
+        {
+            return;
+        }
+
+        const actions = (Object.keys(GAMEPAD_BUTTONS) as InputAction[])
+            .filter((action) => GAMEPAD_BUTTONS[action]?.includes(button.index))
+            .map((action) => action === 'flap' && pad.index === 1 && this.handlers.flap2 ? 'flap2' : action)
+            .filter((action) => this.handlers[action]);
+
+        if (actions.length === 0 && this.oneSwitch)
+        {
+            this.trigger(this.switchAction, 'gamepad');
+            return;
+        }
+
+        actions.forEach((action) => this.trigger(action, 'gamepad'));
+    }
+
+    private destroy ()
+    {
+        this.unbindKeys();
+        this.scene.input.off('pointerdown', this.handlePointer, this);
+        this.scene.input.keyboard?.off('keydown', this.handleAnyKey, this);
+        this.scene.input.gamepad?.off('down', this.handleGamepad, this);
+        EventBus.off('bindings-changed', this.setBindings, this);
+        EventBus.off('accessibility-changed', this.setAccessibility, this);
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { InputBuffer, PressDeduplicator } from './InputTiming';
+
+describe('InputBuffer', () =>
+{
+    it('hands a fresh press over exactly once', () =>
+    {
+        const buffer = new InputBuffer(150);
+        buffer.press(1000);
+
+        expect(buffer.consume(1100)).toBe(true);
+        expect(buffer.consume(1110)).toBe(false);
+    });
+
+    it('forgets presses older than its window', () =>
+    {
+        const buffer = new InputBuffer(150);
+        buffer.press(1000);
+
+        expect(buffer.consume(1200)).toBe(false);
+    });
+});
+
+describe('PressDeduplicator', () =>
+{
+    it('drops the second copy of a tap from another source', () =>
+    {
+        const presses = new PressDeduplicator(80);
+
+        expect(presses.accept('command', 1000)).toBe(true);
+        expect(presses.accept('pointer', 1016)).toBe(false);
+        expect(presses.accept('pointer', 1200)).toBe(true);
+    });
+
+    it('never throttles repeated presses from one source', () =>
+    {
+        const presses = new PressDeduplicator(80);
+
+        expect(presses.accept('keyboard', 1000)).toBe(true);
+        expect(presses.accept('keyboard', 1010)).toBe(true);
+    });
+});
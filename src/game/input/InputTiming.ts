@@ -0,0 +1,58 @@
+// Remembers a press that arrived while it couldn't be acted on, so it can
+// still count if the game becomes ready for it within `windowMs`.
+export class InputBuffer
+{
+    private readonly windowMs: number;
+    private pressedAt: number | null = null;
+
+    constructor (windowMs: number)
+    {
+        this.windowMs = windowMs;
+    }
+
+    press (now: number)
+    {
+        this.pressedAt = now;
+    }
+
+    // True at most once per press, and only while it is still fresh.
+    consume (now: number)
+    {
+        const fresh = this.pressedAt !== null && now - this.pressedAt <= this.windowMs;
+        this.pressedAt = null;
+        return fresh;
+    }
+
+    clear ()
+    {
+        this.pressedAt = null;
+    }
+}
+
+// One physical tap can reach the game twice, e.g. as a touch event from the
+// page and a pointer event from the canvas. A press is dropped when another
+// source reported one within `windowMs`; repeats from the same source always
+// count, so fast tapping is never throttled.
+export class PressDeduplicator<Source extends string = string>
+{
+    private readonly windowMs: number;
+    private lastSource: Source | null = null;
+    private lastAt = 0;
+
+    constructor (windowMs: number)
+    {
+        this.windowMs = windowMs;
+    }
+
+    accept (source: Source, now: number)
+    {
+        if (this.lastSource !== null && this.lastSource !== source && now - this.lastAt < this.windowMs)
+        {
+            return false;
+        }
+
+        this.lastSource = source;
+        this.lastAt = now;
+        return true;
+    }
+}
@@ -0,0 +1,187 @@
+import type { Replay } from '../replay/Replay';
+import type { Difficulty } from '../sim/SimulationConfig';
+
+export const PLAYER_NAME_MAX_LENGTH = 16;
+
+// A finished run sent for ranking. The score is only a claim: servers are
+// expected to re-simulate the replay before accepting it.
+export interface ScoreSubmission
+{
+    name: string;
+    seed: number;
+    difficulty: Difficulty;
+    score: number;
+    replay: Replay;
+}
+
+export interface LeaderboardEntry
+{
+    rank: number;
+    name: string;
+    score: number;
+    seed: number;
+    submittedAt: string;
+}
+
+export type SubmitResult =
+    | { accepted: true; rank: number; total: number }
+    | { accepted: false; reason: string };
+
+// Anything that can rank runs: the bundled HTTP client, or a stand-in for
+// tests and other hosting setups.
+export interface LeaderboardBackend
+{
+    submit (submission: ScoreSubmission): Promise<SubmitResult>;
+    fetchTop (difficulty: Difficulty, limit: number): Promise<LeaderboardEntry[]>;
+}
+
+// Where a game over screen's submission has got to.
+export type SubmissionStatus =
+    | { state: 'idle' }
+    | { state: 'submitting' }
+    | { state: 'submitted'; rank: number; total: number }
+    | { state: 'rejected'; reason: string }
+    | { state: 'offline' };
+
+// Only a run nobody has answered for yet can be sent (again).
+export const canSubmit = (status: SubmissionStatus) => status.state === 'idle' || status.state === 'offline';
+
+export const describeSubmission = (status: SubmissionStatus) =>
+{
+    switch (status.state)
+    {
+        case 'submitting':
+            return 'Submitting...';
+        case 'submitted':
+            return `Online rank #${status.rank} of ${status.total}`;
+        case 'rejected':
+            return `Not accepted: ${status.reason}`;
+        case 'offline':
+            return 'Leaderboard offline - try again later';
+        default:
+            return '';
+    }
+};
+
+// The backend couldn't be reached or answered with something unusable, as
+// opposed to a run it looked at and turned down.
+export class LeaderboardUnavailableError extends Error
+{
+    constructor (message: string)
+    {
+        super(message);
+        this.name = 'LeaderboardUnavailableError';
+    }
+}
+
+export const normalizePlayerName = (name: string) =>
+    name.replace(/\s+/g, ' ').trim().slice(0, PLAYER_NAME_MAX_LENGTH);
+
+const toEntry = (value: unknown): LeaderboardEntry | null =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        return null;
+    }
+
+    const entry = value as Record<string, unknown>;
+
+    if (typeof entry.rank !== 'number' || typeof entry.name !== 'string' || typeof entry.score !== 'number' || typeof entry.seed !== 'number')
+    {
+        return null;
+    }
+
+    return {
+        rank: entry.rank,
+        name: entry.name,
+        score: entry.score,
+        seed: entry.seed,
+        submittedAt: typeof entry.submittedAt === 'string' ? entry.submittedAt : ''
+    };
+};
+
+// Talks to scripts/leaderboard-server.ts, or anything serving the same two
+// routes: `POST /scores` and `GET /scores?difficulty=&limit=`.
+export class HttpLeaderboardBackend implements LeaderboardBackend
+{
+    private readonly baseUrl: string;
+    private readonly timeoutMs: number;
+
+    constructor (baseUrl: string, timeoutMs = 8000)
+    {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.timeoutMs = timeoutMs;
+    }
+
+    async submit (submission: ScoreSubmission): Promise<SubmitResult>
+    {
+        const body = await this.request('/scores', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(submission)
+        });
+
+        if (body.accepted === true && typeof body.rank === 'number' && typeof body.total === 'number')
+        {
+            return { accepted: true, rank: body.rank, total: body.total };
+        }
+
+        if (body.accepted === false)
+        {
+            return { accepted: false, reason: typeof body.reason === 'string' ? body.reason : 'Score was rejected.' };
+        }
+
+        throw new LeaderboardUnavailableError('Leaderboard sent an unexpected reply.');
+    }
+
+    async fetchTop (difficulty: Difficulty, limit: number)
+    {
+        const query = new URLSearchParams({ difficulty, limit: String(limit) });
+        const body = await this.request(`/scores?${query}`, { method: 'GET' });
+
+        if (!Array.isArray(body.entries))
+        {
+            throw new LeaderboardUnavailableError('Leaderboard sent an unexpected reply.');
+        }
+
+        return body.entries.map(toEntry).filter((entry) => entry !== null);
+    }
+
+    // Rejections come back as 4xx with a JSON body, so only other failures
+    // count as the leaderboard being unavailable.
+    private async request (path: string, init: RequestInit): Promise<Record<string, unknown>>
+    {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        try
+        {
+            const response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+            const body: unknown = await response.json().catch(() => null);
+
+            if (typeof body !== 'object' || body === null || response.status >= 500)
+            {
+                throw new LeaderboardUnavailableError(`Leaderboard answered ${response.status}.`);
+            }
+
+            return body as Record<string, unknown>;
+        }
+        catch (error)
+        {
+            if (error instanceof LeaderboardUnavailableError)
+            {
+                throw error;
+            }
+            throw new LeaderboardUnavailableError('Could not reach the leaderboard.');
+        }
+        finally
+        {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+// Builds the backend from VITE_LEADERBOARD_URL; without one the game simply
+// has no online leaderboard.
+export const createLeaderboardBackend = (baseUrl = import.meta.env.VITE_LEADERBOARD_URL): LeaderboardBackend | null =>
+    typeof baseUrl === 'string' && baseUrl.length > 0 ? new HttpLeaderboardBackend(baseUrl) : null;
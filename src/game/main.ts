@@ -1,29 +1,41 @@
 import { Game as MainGame } from './scenes/Game';
+import { GameOver } from './scenes/GameOver';
+import { Menu } from './scenes/Menu';
+import { Pause } from './scenes/Pause';
+import { getOrientation, LAYOUTS } from './ui/Layout';
 import { AUTO, Game, Scale, Types } from 'phaser';
 
 // Find out more information about the Game Config at:
 // https://docs.phaser.io/api-documentation/typedef/types-core#gameconfig
+// The game starts in the layout that suits the window; the scenes switch it
+// when the window turns.
+const { width, height } = LAYOUTS[getOrientation(window.innerWidth, window.innerHeight)];
+
 const config: Types.Core.GameConfig = {
     type: AUTO,
-    width: 960,
-    height: 540,
+    width,
+    height,
     parent: 'game-container',
     scale: {
         mode: Scale.FIT,
         autoCenter: Scale.CENTER_BOTH,
-        width: 960,
-        height: 540
+        width,
+        height
     },
     backgroundColor: '#4ec0ca',
-    physics: {
-        default: 'arcade',
-        arcade: {
-            gravity: { y: 900, x: 0 },
-            debug: false
-        }
+    // Every sound is synthesised by audio/SoundSystem, so Phaser's own sound
+    // manager would only open a second, unused audio context.
+    audio: {
+        noAudio: true
+    },
+    input: {
+        gamepad: true
     },
     scene: [
-        MainGame
+        Menu,
+        MainGame,
+        Pause,
+        GameOver
     ]
 };
 
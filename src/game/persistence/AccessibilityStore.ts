@@ -0,0 +1,133 @@
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const ACCESSIBILITY_STORAGE_KEY = 'bunny-bird.accessibility';
+const ACCESSIBILITY_VERSION = 1;
+
+// The slowest the game-speed assist goes, and the steps it moves in.
+export const MIN_GAME_SPEED = 0.5;
+export const GAME_SPEED_STEP = 0.05;
+
+// Colours for the generated bird, pipe, heart and pickup textures.
+export type Palette = 'default' | 'high-contrast' | 'color-blind';
+
+export const PALETTES: Palette[] = ['default', 'high-contrast', 'color-blind'];
+
+export interface AccessibilitySettings
+{
+    // Fraction of full speed the whole run plays at. Anything under 1 is an
+    // assist, so those runs keep their own bests.
+    gameSpeed: number;
+    // Static indicators instead of blinking, bobbing and screen flashes.
+    reducedMotion: boolean;
+    palette: Palette;
+    largeText: boolean;
+    // Every key, button and tap flaps, starts and retries.
+    oneSwitch: boolean;
+}
+
+export const createDefaultAccessibilitySettings = (): AccessibilitySettings => ({
+    gameSpeed: 1,
+    reducedMotion: false,
+    palette: 'default',
+    largeText: false,
+    oneSwitch: false
+});
+
+// Snaps to a whole step so stored speeds always match a slider position.
+const normalizeGameSpeed = (value: unknown) =>
+{
+    if (typeof value !== 'number' || !Number.isFinite(value))
+    {
+        return 1;
+    }
+
+    const stepped = Math.round(value / GAME_SPEED_STEP) * GAME_SPEED_STEP;
+    return Math.min(1, Math.max(MIN_GAME_SPEED, Number(stepped.toFixed(2))));
+};
+
+const normalizeAccessibilitySettings = (data: Record<string, unknown>): AccessibilitySettings =>
+{
+    const settings = createDefaultAccessibilitySettings();
+
+    settings.gameSpeed = normalizeGameSpeed(data.gameSpeed);
+    if (PALETTES.includes(data.palette as Palette))
+    {
+        settings.palette = data.palette as Palette;
+    }
+
+    (['reducedMotion', 'largeText', 'oneSwitch'] as const).forEach((flag) =>
+    {
+        if (typeof data[flag] === 'boolean')
+        {
+            settings[flag] = data[flag] as boolean;
+        }
+    });
+
+    return settings;
+};
+
+// Accessibility needs belong to whoever is playing on this device, so they
+// live under their own key like the key bindings.
+export class AccessibilityStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private settings: AccessibilitySettings = createDefaultAccessibilitySettings();
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = ACCESSIBILITY_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    getSettings (): Readonly<AccessibilitySettings>
+    {
+        return this.settings;
+    }
+
+    update (changes: Partial<AccessibilitySettings>): Readonly<AccessibilitySettings>
+    {
+        this.settings = normalizeAccessibilitySettings({ ...this.settings, ...changes });
+        this.save();
+        return this.settings;
+    }
+
+    reset ()
+    {
+        this.settings = createDefaultAccessibilitySettings();
+        this.save();
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!data || data.version !== ACCESSIBILITY_VERSION || typeof data.settings !== 'object' || data.settings === null)
+            {
+                return;
+            }
+
+            this.settings = normalizeAccessibilitySettings(data.settings);
+        }
+        catch
+        {
+            this.settings = createDefaultAccessibilitySettings();
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify({ version: ACCESSIBILITY_VERSION, settings: this.settings }));
+        }
+        catch
+        {
+            // Settings just last for the session.
+        }
+    }
+}
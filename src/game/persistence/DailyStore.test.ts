@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DAILY_ATTEMPTS, DAILY_STORAGE_KEY, DailyStore, getDailyDate, getDailySeed } from './DailyStore';
+import { MemoryStorage } from './StorageBackend';
+
+describe('DailyStore', () =>
+{
+    it('gives every day its own attempts and keeps them across a reload', () =>
+    {
+        const storage = new MemoryStorage();
+        const store = new DailyStore(storage);
+
+        for (let attempt = 0; attempt < DAILY_ATTEMPTS; attempt++)
+        {
+            expect(store.startAttempt('2026-03-01')).toBe(true);
+        }
+
+        expect(store.startAttempt('2026-03-01')).toBe(false);
+        expect(new DailyStore(storage).getAttemptsLeft('2026-03-01')).toBe(0);
+        expect(new DailyStore(storage).getAttemptsLeft('2026-03-02')).toBe(DAILY_ATTEMPTS);
+    });
+
+    it('counts a streak once a day and resets it after a missed day', () =>
+    {
+        const store = new DailyStore(new MemoryStorage());
+
+        store.startAttempt('2026-02-27');
+        store.startAttempt('2026-02-28');
+        store.startAttempt('2026-02-28');
+        store.startAttempt('2026-03-01');
+
+        expect(store.getStreak('2026-03-01')).toBe(3);
+        expect(store.getStreak('2026-03-02')).toBe(3);
+        expect(store.getStreak('2026-03-03')).toBe(0);
+
+        store.startAttempt('2026-03-03');
+        expect(store.getStatus('2026-03-03')).toEqual({ date: '2026-03-03', attemptsLeft: DAILY_ATTEMPTS - 1, streak: 1 });
+    });
+
+    it('ranks results best first and reports where a run placed', () =>
+    {
+        const store = new DailyStore(new MemoryStorage());
+
+        expect(store.recordResult('2026-03-01', 5)).toBe(1);
+        expect(store.recordResult('2026-03-01', 9)).toBe(1);
+        expect(store.recordResult('2026-03-01', 5)).toBe(3);
+        expect(store.getResults('2026-03-01').map((entry) => entry.score)).toEqual([9, 5, 5]);
+    });
+
+    it('starts afresh from a corrupt save', () =>
+    {
+        const storage = new MemoryStorage();
+        storage.setItem(DAILY_STORAGE_KEY, '{not json');
+
+        expect(new DailyStore(storage).getStatus('2026-03-01')).toEqual({ date: '2026-03-01', attemptsLeft: DAILY_ATTEMPTS, streak: 0 });
+    });
+
+    it('seeds each local date the same way everywhere', () =>
+    {
+        expect(getDailyDate(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+        expect(getDailySeed('2026-01-05')).toBe(getDailySeed('2026-01-05'));
+        expect(getDailySeed('2026-01-05')).not.toBe(getDailySeed('2026-01-06'));
+    });
+});
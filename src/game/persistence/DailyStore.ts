@@ -0,0 +1,202 @@
+import { normalizeSeed } from '../random/SeededRandom';
+import type { Difficulty } from '../sim/SimulationConfig';
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const DAILY_STORAGE_KEY = 'bunny-bird.daily';
+const DAILY_VERSION = 1;
+
+// Everyone plays the same course on the same settings each day, with a
+// limited number of tries at it.
+export const DAILY_DIFFICULTY: Difficulty = 'medium';
+export const DAILY_ATTEMPTS = 3;
+export const DAILY_TABLE_SIZE = 10;
+// Older days are dropped so the table can't grow without bound.
+const DAILY_DAYS_KEPT = 30;
+
+export interface DailyEntry
+{
+    score: number;
+    recordedAt: string;
+}
+
+interface DailyDay
+{
+    attempts: number;
+    results: DailyEntry[];
+}
+
+// What the HUD and results screens show about today's challenge.
+export interface DailyStatus
+{
+    date: string;
+    attemptsLeft: number;
+    streak: number;
+}
+
+// The local calendar date as YYYY-MM-DD, so the course changes at the
+// player's own midnight.
+export const getDailyDate = (now = new Date()) =>
+{
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export const getDailySeed = (date: string) => normalizeSeed(`daily:${date}`);
+
+const getPreviousDate = (date: string) =>
+    new Date(Date.parse(`${date}T00:00:00Z`) - 86400000).toISOString().slice(0, 10);
+
+const toEntry = (value: unknown): DailyEntry | null =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        return null;
+    }
+
+    const entry = value as Record<string, unknown>;
+
+    if (typeof entry.score !== 'number' || !Number.isFinite(entry.score) || entry.score < 0)
+    {
+        return null;
+    }
+
+    return { score: Math.floor(entry.score), recordedAt: typeof entry.recordedAt === 'string' ? entry.recordedAt : '' };
+};
+
+// Daily attempts, each day's top results and the play streak. Kept apart
+// from the progress save, like ghosts, so it can be reset on its own.
+export class DailyStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private days: Record<string, DailyDay> = {};
+    private streak = 0;
+    private lastPlayed: string | null = null;
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = DAILY_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    getStatus (date: string): DailyStatus
+    {
+        return { date, attemptsLeft: this.getAttemptsLeft(date), streak: this.getStreak(date) };
+    }
+
+    getAttemptsLeft (date: string)
+    {
+        return Math.max(0, DAILY_ATTEMPTS - (this.days[date]?.attempts ?? 0));
+    }
+
+    // Days in a row with at least one attempt, as long as the last one was
+    // today or yesterday.
+    getStreak (date: string)
+    {
+        return this.lastPlayed === date || this.lastPlayed === getPreviousDate(date) ? this.streak : 0;
+    }
+
+    // Best first.
+    getResults (date: string): readonly DailyEntry[]
+    {
+        return this.days[date]?.results ?? [];
+    }
+
+    // Uses up one of the day's attempts; false once there are none left.
+    startAttempt (date: string)
+    {
+        if (this.getAttemptsLeft(date) === 0)
+        {
+            return false;
+        }
+
+        if (this.lastPlayed !== date)
+        {
+            this.streak = this.getStreak(date) + 1;
+            this.lastPlayed = date;
+        }
+
+        const day = this.days[date] ?? { attempts: 0, results: [] };
+        day.attempts += 1;
+        this.days[date] = day;
+        this.save();
+        return true;
+    }
+
+    // Returns the run's 1-based place in the day's table, or null when it
+    // didn't make the cut.
+    recordResult (date: string, score: number)
+    {
+        const day = this.days[date] ?? { attempts: 0, results: [] };
+        const entry = { score, recordedAt: new Date().toISOString() };
+        const index = day.results.filter((result) => result.score >= score).length;
+
+        day.results.splice(index, 0, entry);
+        day.results = day.results.slice(0, DAILY_TABLE_SIZE);
+        this.days[date] = day;
+        this.save();
+
+        return index < DAILY_TABLE_SIZE ? index + 1 : null;
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!data || data.version !== DAILY_VERSION || typeof data.days !== 'object' || data.days === null)
+            {
+                return;
+            }
+
+            Object.entries(data.days as Record<string, unknown>).forEach(([date, value]) =>
+            {
+                const day = value as Record<string, unknown> | null;
+                if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || typeof day !== 'object' || day === null)
+                {
+                    return;
+                }
+
+                const results = Array.isArray(day.results) ? day.results.map(toEntry).filter((entry) => entry !== null) : [];
+                this.days[date] = {
+                    attempts: typeof day.attempts === 'number' ? Math.max(0, Math.floor(day.attempts)) : 0,
+                    results: results.sort((a, b) => b.score - a.score).slice(0, DAILY_TABLE_SIZE)
+                };
+            });
+
+            this.streak = typeof data.streak === 'number' ? Math.max(0, Math.floor(data.streak)) : 0;
+            this.lastPlayed = typeof data.lastPlayed === 'string' ? data.lastPlayed : null;
+        }
+        catch
+        {
+            this.days = {};
+            this.streak = 0;
+            this.lastPlayed = null;
+        }
+    }
+
+    private save ()
+    {
+        const kept = Object.keys(this.days).sort().slice(-DAILY_DAYS_KEPT);
+        this.days = Object.fromEntries(kept.map((date) => [date, this.days[date]]));
+
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify({
+                version: DAILY_VERSION,
+                days: this.days,
+                streak: this.streak,
+                lastPlayed: this.lastPlayed
+            }));
+        }
+        catch
+        {
+            // Attempts and results are then only counted until the page
+            // is closed.
+        }
+    }
+}
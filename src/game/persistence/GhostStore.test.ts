@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { GHOST_STORAGE_KEY, GhostRun, GhostStore } from './GhostStore';
+import { MemoryStorage } from './StorageBackend';
+
+const ghostRun = (seed: number, score: number): GhostRun => ({
+    seed,
+    difficulty: 'medium',
+    score,
+    trail: [[336, 270], [336, 268]]
+});
+
+describe('GhostStore', () =>
+{
+    it('races the ghost on its own seed when asked to', () =>
+    {
+        const store = new GhostStore(new MemoryStorage());
+        store.submit(ghostRun(4242, 12));
+
+        const ghost = store.getRace('medium', true, null);
+        const sim = new Simulation();
+        sim.setDifficulty('medium');
+        sim.start(ghost!.seed);
+
+        // The Game scene only shows a ghost whose seed the run landed on.
+        expect(sim.getSeed()).toBe(ghost!.seed);
+        expect(ghost).toEqual(ghostRun(4242, 12));
+    });
+
+    it('leaves other runs to their own seed and races no ghost', () =>
+    {
+        const store = new GhostStore(new MemoryStorage());
+        store.submit(ghostRun(77, 12));
+
+        expect(store.getRace('medium', false, null)).toBeNull();
+        expect(store.getRace('medium', true, 78)).toBeNull();
+        expect(store.getRace('medium', false, 77)).toEqual(ghostRun(77, 12));
+        expect(store.getRace('hard', true, null)).toBeNull();
+    });
+
+    it('keeps a trail for each seed played, not just the best', () =>
+    {
+        const storage = new MemoryStorage();
+        const store = new GhostStore(storage);
+
+        expect(store.submit(ghostRun(1, 20))).toBe(true);
+        expect(store.submit(ghostRun(2, 5))).toBe(true);
+        expect(store.submit(ghostRun(2, 4))).toBe(false);
+        expect(store.submit(ghostRun(2, 8))).toBe(true);
+
+        const reloaded = new GhostStore(storage);
+        expect(reloaded.get('medium')).toEqual(ghostRun(1, 20));
+        expect(reloaded.getRace('medium', false, 2)).toEqual(ghostRun(2, 8));
+    });
+
+    it('drops the oldest seed other than the best once full', () =>
+    {
+        const store = new GhostStore(new MemoryStorage());
+        [ghostRun(1, 20), ghostRun(2, 5), ghostRun(3, 6), ghostRun(4, 7)].forEach((run) => store.submit(run));
+
+        expect(store.get('medium')).toEqual(ghostRun(1, 20));
+        expect(store.get('medium', 2)).toBeNull();
+        expect(store.get('medium', 4)).toEqual(ghostRun(4, 7));
+    });
+
+    it('reads the single ghost per difficulty an older save kept', () =>
+    {
+        const storage = new MemoryStorage();
+        storage.setItem(GHOST_STORAGE_KEY, JSON.stringify({ version: 1, runs: { medium: ghostRun(9, 11) } }));
+
+        expect(new GhostStore(storage).get('medium', 9)).toEqual(ghostRun(9, 11));
+    });
+});
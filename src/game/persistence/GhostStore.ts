@@ -0,0 +1,156 @@
+import { Difficulty, isDifficulty } from '../sim/SimulationConfig';
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const GHOST_STORAGE_KEY = 'bunny-bird.ghosts';
+const GHOST_VERSION = 2;
+// Trails kept per difficulty: the best run, plus the seeds played most
+// recently, so a run pinned to one of them races its own ghost.
+const GHOST_SEEDS_KEPT = 3;
+
+export type GhostPoint = [x: number, y: number];
+
+// The bird's position on every simulation tick of a run, together with the
+// seed needed to rebuild the same pipe layout around it.
+export interface GhostRun
+{
+    seed: number;
+    difficulty: Difficulty;
+    score: number;
+    trail: GhostPoint[];
+}
+
+const isGhostPoint = (value: unknown): value is GhostPoint =>
+    Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+const toGhostRun = (value: unknown): GhostRun | null =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        return null;
+    }
+
+    const run = value as Record<string, unknown>;
+
+    if (typeof run.seed !== 'number' || typeof run.score !== 'number' || !isDifficulty(run.difficulty))
+    {
+        return null;
+    }
+
+    if (!Array.isArray(run.trail) || !run.trail.every(isGhostPoint))
+    {
+        return null;
+    }
+
+    return { seed: run.seed, difficulty: run.difficulty, score: run.score, trail: run.trail };
+};
+
+// The earliest of the highest scoring runs.
+const findBest = (runs: GhostRun[]) =>
+    runs.reduce<GhostRun | null>((best, run) => (best && best.score >= run.score ? best : run), null);
+
+// Ghost trails are far bulkier than the rest of the progress data, so they
+// live under their own key and can be dropped without touching records.
+export class GhostStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    // One run per seed, oldest first.
+    private runs: Partial<Record<Difficulty, GhostRun[]>> = {};
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = GHOST_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    // The difficulty's best run, or its best on one seed.
+    get (level: Difficulty, seed?: number): GhostRun | null
+    {
+        const runs = this.runs[level] ?? [];
+        if (seed !== undefined)
+        {
+            return runs.find((run) => run.seed === seed) ?? null;
+        }
+
+        return findBest(runs);
+    }
+
+    // The ghost a run races. Asking to race sets the run's seed to the
+    // ghost's; otherwise a ghost only turns up on a run pinned to its seed,
+    // and every other run picks its own.
+    getRace (level: Difficulty, race: boolean, pinnedSeed: number | null): GhostRun | null
+    {
+        if (pinnedSeed !== null)
+        {
+            return this.get(level, pinnedSeed);
+        }
+
+        return race ? this.get(level) : null;
+    }
+
+    // Keeps the run as the ghost for its seed if it beats the one already
+    // there. Past the limit, the oldest seed other than the best is dropped.
+    submit (run: GhostRun)
+    {
+        const runs = this.runs[run.difficulty] ?? [];
+        const current = runs.find((existing) => existing.seed === run.seed);
+        if (run.trail.length === 0 || (current && current.score >= run.score))
+        {
+            return false;
+        }
+
+        const kept = [...runs.filter((existing) => existing !== current), run];
+        if (kept.length > GHOST_SEEDS_KEPT)
+        {
+            const best = findBest(kept);
+            kept.splice(kept.findIndex((existing) => existing !== best), 1);
+        }
+
+        this.runs[run.difficulty] = kept;
+        this.save();
+        return true;
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!data || (data.version !== 1 && data.version !== GHOST_VERSION) || typeof data.runs !== 'object' || data.runs === null)
+            {
+                return;
+            }
+
+            // Version 1 kept a single run per difficulty, which reads the
+            // same as a list of one.
+            Object.values(data.runs as Record<string, unknown>).flat().forEach((value) =>
+            {
+                const run = toGhostRun(value);
+                const runs = run ? this.runs[run.difficulty] ?? [] : [];
+                if (run && runs.length < GHOST_SEEDS_KEPT && !runs.some((existing) => existing.seed === run.seed))
+                {
+                    this.runs[run.difficulty] = [...runs, run];
+                }
+            });
+        }
+        catch
+        {
+            this.runs = {};
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify({ version: GHOST_VERSION, runs: this.runs }));
+        }
+        catch
+        {
+            // A trail that doesn't fit in storage just isn't kept as a ghost.
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const KEY_BINDING_STORAGE_KEY = 'bunny-bird.keys';
+const KEY_BINDING_VERSION = 1;
+
+// How many keys one action can be spread over.
+export const MAX_KEYS_PER_ACTION = 3;
+
+// `flap2` is the second bird's flap in versus runs; `rewind`, `freeze` and
+// `slow` only do anything in practice runs.
+export type InputAction = 'flap' | 'flap2' | 'pause' | 'autopilot' | 'mute' | 'rewind' | 'freeze' | 'slow';
+
+export const INPUT_ACTIONS: InputAction[] = ['flap', 'flap2', 'pause', 'autopilot', 'mute', 'rewind', 'freeze', 'slow'];
+
+// Keys are Phaser key names (`Phaser.Input.Keyboard.KeyCodes`), e.g. 'SPACE'.
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const createDefaultKeyBindings = (): KeyBindings => ({
+    flap: ['SPACE', 'UP'],
+    flap2: ['ENTER', 'SHIFT'],
+    pause: ['ESC', 'P'],
+    autopilot: ['B'],
+    mute: ['M'],
+    rewind: ['R'],
+    freeze: ['F'],
+    slow: ['S']
+});
+
+export const describeKey = (key: string) => key.replace(/_/g, ' ');
+
+const isKeyName = (value: unknown): value is string =>
+    typeof value === 'string' && /^[A-Z0-9_]+$/.test(value);
+
+// Drops unknown entries and any key already claimed by an earlier action, so
+// one press never triggers two actions. Actions left empty get their
+// defaults back rather than becoming unreachable.
+const normalizeKeyBindings = (data: Record<string, unknown>): KeyBindings =>
+{
+    const defaults = createDefaultKeyBindings();
+    const claimed = new Set<string>();
+    const bindings = createDefaultKeyBindings();
+
+    INPUT_ACTIONS.forEach((action) =>
+    {
+        const stored = data[action];
+        const keys = Array.isArray(stored) ? stored.filter(isKeyName) : [];
+        const unique = [...new Set(keys)].filter((key) => !claimed.has(key)).slice(0, MAX_KEYS_PER_ACTION);
+
+        bindings[action] = unique.length > 0 ? unique : defaults[action].filter((key) => !claimed.has(key));
+        bindings[action].forEach((key) => claimed.add(key));
+    });
+
+    return bindings;
+};
+
+// Keyboard bindings are device-specific, so they live under their own key
+// rather than alongside the progress records.
+export class KeyBindingStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private bindings: KeyBindings = createDefaultKeyBindings();
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = KEY_BINDING_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    getBindings (): Readonly<KeyBindings>
+    {
+        return this.bindings;
+    }
+
+    // Adds the key to the action, taking it away from whichever action had
+    // it. A full action drops its oldest key to make room.
+    bind (action: InputAction, key: string)
+    {
+        if (!isKeyName(key))
+        {
+            return false;
+        }
+
+        const bindings = { ...this.bindings };
+        INPUT_ACTIONS.forEach((other) =>
+        {
+            bindings[other] = bindings[other].filter((existing) => existing !== key);
+        });
+        bindings[action] = [...bindings[action], key].slice(-MAX_KEYS_PER_ACTION);
+
+        // Stealing an action's only key would leave it unreachable.
+        if (INPUT_ACTIONS.some((other) => bindings[other].length === 0))
+        {
+            return false;
+        }
+
+        this.bindings = bindings;
+        this.save();
+        return true;
+    }
+
+    // Every action keeps at least one key.
+    unbind (action: InputAction, key: string)
+    {
+        const keys = this.bindings[action];
+        if (keys.length <= 1 || !keys.includes(key))
+        {
+            return false;
+        }
+
+        this.bindings = { ...this.bindings, [action]: keys.filter((existing) => existing !== key) };
+        this.save();
+        return true;
+    }
+
+    reset ()
+    {
+        this.bindings = createDefaultKeyBindings();
+        this.save();
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!data || data.version !== KEY_BINDING_VERSION || typeof data.bindings !== 'object' || data.bindings === null)
+            {
+                return;
+            }
+
+            this.bindings = normalizeKeyBindings(data.bindings);
+        }
+        catch
+        {
+            this.bindings = createDefaultKeyBindings();
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify({ version: KEY_BINDING_VERSION, bindings: this.bindings }));
+        }
+        catch
+        {
+            // Bindings just last for the session.
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { PROGRESS_STORAGE_KEY, ProgressStore } from './ProgressStore';
+import { createDefaultSaveData, migrateSaveData, SAVE_VERSION } from './SaveData';
+import { MemoryStorage } from './StorageBackend';
+
+const storageWith = (data: unknown) =>
+{
+    const storage = new MemoryStorage();
+    storage.setItem(PROGRESS_STORAGE_KEY, typeof data === 'string' ? data : JSON.stringify(data));
+    return storage;
+};
+
+describe('ProgressStore', () =>
+{
+    it('upgrades a version 1 save without losing its records', () =>
+    {
+        const store = new ProgressStore(storageWith({
+            version: 1,
+            bestScores: { easy: 12, medium: 7, hard: 3 },
+            lastDifficulty: 'hard',
+            runCount: 20,
+            totalPipesCleared: 140
+        }));
+
+        expect(store.getBestScores()).toEqual({ easy: 12, medium: 7, hard: 3 });
+        expect(store.getBestScores(true)).toEqual({ easy: 0, medium: 0, hard: 0 });
+        expect(store.getLastDifficulty()).toBe('hard');
+        expect(store.getRunCount()).toBe(20);
+        expect(store.getTotalPipesCleared()).toBe(140);
+        expect(store.getSettings()).toEqual(createDefaultSaveData().settings);
+    });
+
+    it('falls back to defaults on a corrupt or malformed save', () =>
+    {
+        expect(new ProgressStore(storageWith('{not json')).getBestScores()).toEqual({ easy: 0, medium: 0, hard: 0 });
+
+        const store = new ProgressStore(storageWith({
+            version: SAVE_VERSION,
+            bestScores: { easy: -4, medium: 'lots', hard: 2.9 },
+            lastDifficulty: 'impossible',
+            runCount: Infinity
+        }));
+
+        expect(store.getBestScores()).toEqual({ easy: 0, medium: 0, hard: 2 });
+        expect(store.getLastDifficulty()).toBe('medium');
+        expect(store.getRunCount()).toBe(0);
+    });
+
+    it('keeps fields written by a newer build through a load and save', () =>
+    {
+        const storage = storageWith({
+            version: SAVE_VERSION,
+            bestScores: { easy: 1, medium: 2, hard: 3 },
+            futureField: { nested: true },
+            settings: { ghostEnabled: false, futureSetting: 'kept' }
+        });
+
+        new ProgressStore(storage).recordRun('easy', 5);
+        const saved = JSON.parse(storage.getItem(PROGRESS_STORAGE_KEY)!);
+
+        expect(saved.futureField).toEqual({ nested: true });
+        expect(saved.settings.futureSetting).toBe('kept');
+        expect(saved.settings.ghostEnabled).toBe(false);
+        expect(saved.bestScores.easy).toBe(5);
+    });
+
+    it('keeps bests per difficulty and assisted runs apart', () =>
+    {
+        const storage = new MemoryStorage();
+        const store = new ProgressStore(storage);
+
+        expect(store.recordRun('medium', 8)).toBe(true);
+        expect(store.recordRun('medium', 6)).toBe(false);
+        expect(store.recordRun('medium', 10, true)).toBe(true);
+
+        const reloaded = new ProgressStore(storage);
+        expect(reloaded.getBestScores()).toEqual({ easy: 0, medium: 8, hard: 0 });
+        expect(reloaded.getBest('medium', true)).toBe(10);
+        expect(reloaded.getRunCount()).toBe(3);
+        expect(reloaded.getTotalPipesCleared()).toBe(24);
+    });
+
+    it('treats anything but an object as no save at all', () =>
+    {
+        expect(migrateSaveData(null)).toEqual(createDefaultSaveData());
+        expect(migrateSaveData([1, 2])).toEqual(createDefaultSaveData());
+    });
+});
@@ -0,0 +1,126 @@
+import type { Difficulty } from '../sim/SimulationConfig';
+import { createDefaultSaveData, GameSettings, migrateSaveData, SaveData } from './SaveData';
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const PROGRESS_STORAGE_KEY = 'bunny-bird.progress';
+
+export class ProgressStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private data: SaveData;
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = PROGRESS_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.data = this.load();
+    }
+
+    // Assisted runs are looked up in their own table.
+    getBest (level: Difficulty, assisted = false)
+    {
+        return this.getBestScores(assisted)[level];
+    }
+
+    getBestScores (assisted = false): Readonly<Record<Difficulty, number>>
+    {
+        return assisted ? this.data.assistedBestScores : this.data.bestScores;
+    }
+
+    getLastDifficulty ()
+    {
+        return this.data.lastDifficulty;
+    }
+
+    getRunCount ()
+    {
+        return this.data.runCount;
+    }
+
+    getTotalPipesCleared ()
+    {
+        return this.data.totalPipesCleared;
+    }
+
+    getSettings (): Readonly<GameSettings>
+    {
+        return this.data.settings;
+    }
+
+    updateSettings (changes: Partial<GameSettings>)
+    {
+        this.data.settings = { ...this.data.settings, ...changes };
+        this.save();
+    }
+
+    setLastDifficulty (level: Difficulty)
+    {
+        if (this.data.lastDifficulty === level)
+        {
+            return;
+        }
+
+        this.data.lastDifficulty = level;
+        this.save();
+    }
+
+    // Returns true when the run set a new best for its difficulty, in the
+    // assisted table when it was slowed down.
+    recordRun (level: Difficulty, pipesCleared: number, assisted = false)
+    {
+        const bests = assisted ? this.data.assistedBestScores : this.data.bestScores;
+        const isNewBest = pipesCleared > bests[level];
+
+        this.data.runCount += 1;
+        this.data.totalPipesCleared += pipesCleared;
+        if (isNewBest)
+        {
+            bests[level] = pipesCleared;
+        }
+
+        this.save();
+        return isNewBest;
+    }
+
+    private load (): SaveData
+    {
+        let raw: string | null = null;
+
+        try
+        {
+            raw = this.storage.getItem(this.key);
+        }
+        catch
+        {
+            return createDefaultSaveData();
+        }
+
+        if (raw === null)
+        {
+            return createDefaultSaveData();
+        }
+
+        try
+        {
+            return migrateSaveData(JSON.parse(raw));
+        }
+        catch
+        {
+            return createDefaultSaveData();
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify(this.data));
+        }
+        catch
+        {
+            // Bests and settings still hold for this session; they just
+            // aren't there on the next visit.
+        }
+    }
+}
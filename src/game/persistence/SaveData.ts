@@ -0,0 +1,147 @@
+import { Difficulty, isDifficulty } from '../sim/SimulationConfig';
+import { DEFAULT_THEME, isThemeId, ThemeId } from '../theme/Theme';
+
+export const SAVE_VERSION = 2;
+
+// Where the score, lives and game over panel are drawn: the React overlay or
+// the original in-canvas text.
+export type HudMode = 'dom' | 'canvas';
+
+export const HUD_MODES: HudMode[] = ['dom', 'canvas'];
+
+export interface GameSettings
+{
+    ghostEnabled: boolean;
+    hud: HudMode;
+    // Shown on the online leaderboard; empty until the player picks one.
+    playerName: string;
+    // The chosen skin, which only shows once its milestone is reached.
+    theme: ThemeId;
+}
+
+export interface SaveData
+{
+    version: number;
+    bestScores: Record<Difficulty, number>;
+    // Bests from runs slowed down by the game-speed assist, kept apart so
+    // they never compete with full-speed ones.
+    assistedBestScores: Record<Difficulty, number>;
+    lastDifficulty: Difficulty;
+    runCount: number;
+    totalPipesCleared: number;
+    settings: GameSettings;
+}
+
+type RawSaveData = Record<string, unknown>;
+type Migration = (data: RawSaveData) => RawSaveData;
+
+// Keyed by the version a migration upgrades *from*. New fields only need a
+// default in `normalizeSaveData`; when an existing field is renamed or
+// reshaped, bump SAVE_VERSION and register the step here instead of letting
+// normalization silently reset the player's records.
+//
+// v2: added `settings` (defaults only, no step needed).
+// `assistedBestScores` came later and only needs its default.
+const migrations: Record<number, Migration> = {};
+
+const createDefaultSettings = (): GameSettings => ({
+    ghostEnabled: true,
+    hud: 'canvas',
+    playerName: '',
+    theme: DEFAULT_THEME
+});
+
+const createDefaultBestScores = (): Record<Difficulty, number> => ({
+    easy: 0,
+    medium: 0,
+    hard: 0
+});
+
+export const createDefaultSaveData = (): SaveData => ({
+    version: SAVE_VERSION,
+    bestScores: createDefaultBestScores(),
+    assistedBestScores: createDefaultBestScores(),
+    lastDifficulty: 'medium',
+    runCount: 0,
+    totalPipesCleared: 0,
+    settings: createDefaultSettings()
+});
+
+const isRecord = (value: unknown): value is RawSaveData =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toCount = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+const normalizeSaveData = (data: RawSaveData, version: number): SaveData =>
+{
+    const defaults = createDefaultSaveData();
+    const storedBests = isRecord(data.bestScores) ? data.bestScores : {};
+    const bestScores = createDefaultBestScores();
+    const storedAssistedBests = isRecord(data.assistedBestScores) ? data.assistedBestScores : {};
+    const assistedBestScores = createDefaultBestScores();
+    const storedSettings = isRecord(data.settings) ? data.settings : {};
+    const settings = createDefaultSettings();
+
+    (Object.keys(bestScores) as Difficulty[]).forEach((level) =>
+    {
+        bestScores[level] = toCount(storedBests[level]);
+        assistedBestScores[level] = toCount(storedAssistedBests[level]);
+    });
+
+    if (typeof storedSettings.ghostEnabled === 'boolean')
+    {
+        settings.ghostEnabled = storedSettings.ghostEnabled;
+    }
+
+    if (HUD_MODES.includes(storedSettings.hud as HudMode))
+    {
+        settings.hud = storedSettings.hud as HudMode;
+    }
+
+    if (typeof storedSettings.playerName === 'string')
+    {
+        settings.playerName = storedSettings.playerName;
+    }
+
+    if (isThemeId(storedSettings.theme))
+    {
+        settings.theme = storedSettings.theme;
+    }
+
+    // Spread the raw data first so fields written by a newer build survive a
+    // round trip through an older one.
+    return {
+        ...data,
+        version,
+        bestScores,
+        assistedBestScores,
+        lastDifficulty: isDifficulty(data.lastDifficulty) ? data.lastDifficulty : defaults.lastDifficulty,
+        runCount: toCount(data.runCount),
+        totalPipesCleared: toCount(data.totalPipesCleared),
+        settings: { ...storedSettings, ...settings }
+    };
+};
+
+export const migrateSaveData = (raw: unknown): SaveData =>
+{
+    if (!isRecord(raw))
+    {
+        return createDefaultSaveData();
+    }
+
+    let data: RawSaveData = { ...raw };
+    let version = typeof data.version === 'number' ? data.version : 0;
+
+    while (version < SAVE_VERSION)
+    {
+        const migration = migrations[version];
+        if (migration)
+        {
+            data = migration(data);
+        }
+        version += 1;
+    }
+
+    return normalizeSaveData(data, version);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyCourse } from '../course/Course';
+import { Simulation } from '../sim/Simulation';
+import { SAVED_RUN_STORAGE_KEY, SavedRun, SavedRunStore } from './SavedRunStore';
+import { MemoryStorage } from './StorageBackend';
+
+const createSavedRun = (overrides: Partial<SavedRun> = {}): SavedRun =>
+{
+    const sim = new Simulation();
+    sim.start('saved');
+    for (let tick = 0; tick < 30; tick++)
+    {
+        sim.step(tick % 20 === 0);
+    }
+
+    return {
+        mode: 'play',
+        layout: 'landscape',
+        course: null,
+        dailyDate: null,
+        assisted: false,
+        snapshot: sim.snapshot(),
+        savedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides
+    };
+};
+
+describe('SavedRunStore', () =>
+{
+    it('hands back the saved run after a reload', () =>
+    {
+        const storage = new MemoryStorage();
+        const run = createSavedRun({ mode: 'practice', layout: 'portrait', course: createEmptyCourse(), assisted: true });
+
+        new SavedRunStore(storage).save(run);
+
+        expect(new SavedRunStore(storage).get()).toEqual(JSON.parse(JSON.stringify(run)));
+    });
+
+    it('forgets a run once it is cleared', () =>
+    {
+        const storage = new MemoryStorage();
+        const store = new SavedRunStore(storage);
+
+        store.save(createSavedRun());
+        store.clear();
+
+        expect(store.get()).toBeNull();
+        expect(new SavedRunStore(storage).get()).toBeNull();
+    });
+
+    it.each([
+        ['corrupt JSON', '{not json'],
+        ['from another version', JSON.stringify({ version: 99, run: createSavedRun() })],
+        ['in an unknown mode', JSON.stringify({ version: 1, run: createSavedRun({ mode: 'arcade' as SavedRun['mode'] }) })],
+        ['with a finished run', JSON.stringify({ version: 1, run: createSavedRun({ snapshot: { ...createSavedRun().snapshot, state: 'gameover' } }) })],
+        ['with a malformed course', JSON.stringify({ version: 1, run: { ...createSavedRun(), course: { version: 1 } } })]
+    ])('drops a save %s', (_case, text) =>
+    {
+        const storage = new MemoryStorage();
+        storage.setItem(SAVED_RUN_STORAGE_KEY, text);
+
+        expect(new SavedRunStore(storage).get()).toBeNull();
+    });
+});
@@ -0,0 +1,142 @@
+import { Course, toCourse } from '../course/Course';
+import type { GameMode } from '../scenes/Game';
+import type { SimSnapshot } from '../sim/Simulation';
+import { isDifficulty } from '../sim/SimulationConfig';
+import type { Orientation } from '../ui/Layout';
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const SAVED_RUN_STORAGE_KEY = 'bunny-bird.saved-run';
+// Bumped whenever the simulation snapshot changes shape, so an old save is
+// dropped rather than restored into the wrong fields.
+const SAVED_RUN_VERSION = 1;
+
+const GAME_MODES: GameMode[] = ['play', 'autopilot', 'daily', 'versus', 'practice'];
+
+// A run left half way through, with everything the Game scene needs to
+// rebuild itself around the simulation as it stood.
+export interface SavedRun
+{
+    mode: GameMode;
+    layout: Orientation;
+    // The course as written, before it was fitted to the layout.
+    course: Course | null;
+    dailyDate: string | null;
+    assisted: boolean;
+    snapshot: SimSnapshot;
+    savedAt: string;
+}
+
+// Only the parts the scene reads before handing the snapshot over are
+// checked; a save is written and read by the same build.
+const isSnapshot = (value: unknown): value is SimSnapshot =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        return false;
+    }
+
+    const snapshot = value as Record<string, unknown>;
+
+    return (snapshot.state === 'playing' || snapshot.state === 'resuming')
+        && isDifficulty(snapshot.difficulty)
+        && typeof snapshot.tick === 'number'
+        && typeof snapshot.seed === 'number'
+        && Array.isArray(snapshot.players) && snapshot.players.length > 0
+        && Array.isArray(snapshot.obstacles)
+        && Array.isArray(snapshot.powerUps);
+};
+
+const toSavedRun = (value: unknown): SavedRun | null =>
+{
+    if (typeof value !== 'object' || value === null)
+    {
+        return null;
+    }
+
+    const run = value as Record<string, unknown>;
+
+    if (!GAME_MODES.includes(run.mode as GameMode) || (run.layout !== 'landscape' && run.layout !== 'portrait') || !isSnapshot(run.snapshot))
+    {
+        return null;
+    }
+
+    // A malformed course throws, which drops the whole save on load.
+    return {
+        mode: run.mode as GameMode,
+        layout: run.layout,
+        course: run.course === null || run.course === undefined ? null : toCourse(run.course),
+        dailyDate: typeof run.dailyDate === 'string' ? run.dailyDate : null,
+        assisted: run.assisted === true,
+        snapshot: run.snapshot,
+        savedAt: typeof run.savedAt === 'string' ? run.savedAt : ''
+    };
+};
+
+// At most one run is kept, under its own key, until it is resumed, thrown
+// away or replaced by the next one.
+export class SavedRunStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private run: SavedRun | null = null;
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = SAVED_RUN_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    get (): SavedRun | null
+    {
+        return this.run;
+    }
+
+    save (run: SavedRun)
+    {
+        this.run = run;
+
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify({ version: SAVED_RUN_VERSION, run }));
+        }
+        catch
+        {
+            // A run that doesn't fit in storage just can't be resumed.
+        }
+    }
+
+    clear ()
+    {
+        this.run = null;
+
+        try
+        {
+            this.storage.removeItem(this.key);
+        }
+        catch
+        {
+            // Storage that can't be written to never held a save either.
+        }
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!data || data.version !== SAVED_RUN_VERSION)
+            {
+                return;
+            }
+
+            this.run = toSavedRun(data.run);
+        }
+        catch
+        {
+            this.run = null;
+        }
+    }
+}
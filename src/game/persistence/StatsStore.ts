@@ -0,0 +1,227 @@
+import { DIFFICULTIES, Difficulty } from '../sim/SimulationConfig';
+import { ACHIEVEMENTS, LifetimeTotals, RunStats } from '../stats/Achievements';
+import { getDefaultStorage, StorageBackend } from './StorageBackend';
+
+export const STATS_STORAGE_KEY = 'bunny-bird.stats';
+const STATS_VERSION = 1;
+
+// Scores are counted in buckets of five; the last bucket takes everything
+// from 45 up.
+export const HISTOGRAM_BUCKET_SIZE = 5;
+export const HISTOGRAM_BUCKETS = 10;
+
+export interface StatsData
+{
+    version: number;
+    totals: LifetimeTotals;
+    // Run counts per score bucket, for each difficulty.
+    histograms: Record<Difficulty, number[]>;
+    // When each achievement was unlocked, as an ISO timestamp.
+    achievements: Record<string, string>;
+}
+
+export class StatsFormatError extends Error
+{
+    constructor (message: string)
+    {
+        super(message);
+        this.name = 'StatsFormatError';
+    }
+}
+
+const createDefaultTotals = (): LifetimeTotals => ({
+    runs: 0,
+    pipes: 0,
+    flaps: 0,
+    livesLost: 0,
+    powerUps: 0,
+    playTimeMs: 0
+});
+
+const createDefaultHistograms = (): Record<Difficulty, number[]> => ({
+    easy: new Array(HISTOGRAM_BUCKETS).fill(0),
+    medium: new Array(HISTOGRAM_BUCKETS).fill(0),
+    hard: new Array(HISTOGRAM_BUCKETS).fill(0)
+});
+
+export const createDefaultStatsData = (): StatsData => ({
+    version: STATS_VERSION,
+    totals: createDefaultTotals(),
+    histograms: createDefaultHistograms(),
+    achievements: {}
+});
+
+export const getHistogramBucket = (score: number) =>
+    Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(score / HISTOGRAM_BUCKET_SIZE));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toCount = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+// Unknown achievement ids are dropped, so renamed or removed ones don't
+// linger in the list.
+const normalizeStatsData = (data: Record<string, unknown>): StatsData =>
+{
+    const stats = createDefaultStatsData();
+    const totals = isRecord(data.totals) ? data.totals : {};
+    const histograms = isRecord(data.histograms) ? data.histograms : {};
+    const achievements = isRecord(data.achievements) ? data.achievements : {};
+
+    (Object.keys(stats.totals) as (keyof LifetimeTotals)[]).forEach((key) =>
+    {
+        stats.totals[key] = toCount(totals[key]);
+    });
+
+    DIFFICULTIES.forEach((level) =>
+    {
+        const counts = histograms[level];
+        if (Array.isArray(counts))
+        {
+            stats.histograms[level] = stats.histograms[level].map((_, bucket) => toCount(counts[bucket]));
+        }
+    });
+
+    ACHIEVEMENTS.forEach(({ id }) =>
+    {
+        if (typeof achievements[id] === 'string')
+        {
+            stats.achievements[id] = achievements[id] as string;
+        }
+    });
+
+    return stats;
+};
+
+export const serializeStats = (data: StatsData) => JSON.stringify(data, null, 2);
+
+export const parseStats = (text: string): StatsData =>
+{
+    let raw: unknown;
+
+    try
+    {
+        raw = JSON.parse(text);
+    }
+    catch
+    {
+        throw new StatsFormatError('Stats file is not valid JSON.');
+    }
+
+    if (!isRecord(raw))
+    {
+        throw new StatsFormatError('Stats file must be a JSON object.');
+    }
+
+    if (raw.version !== STATS_VERSION)
+    {
+        throw new StatsFormatError(`Unsupported stats version: ${String(raw.version)}.`);
+    }
+
+    if (!isRecord(raw.totals) || !isRecord(raw.histograms))
+    {
+        throw new StatsFormatError('Stats file is missing its totals.');
+    }
+
+    return normalizeStatsData(raw);
+};
+
+// Lifetime statistics and unlocked achievements. Kept apart from the
+// progress save so they can be exported and imported on their own.
+export class StatsStore
+{
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private data: StatsData = createDefaultStatsData();
+
+    constructor (storage: StorageBackend = getDefaultStorage(), key = STATS_STORAGE_KEY)
+    {
+        this.storage = storage;
+        this.key = key;
+        this.load();
+    }
+
+    getData (): Readonly<StatsData>
+    {
+        return this.data;
+    }
+
+    getTotals (): Readonly<LifetimeTotals>
+    {
+        return this.data.totals;
+    }
+
+    getUnlocked ()
+    {
+        return Object.keys(this.data.achievements);
+    }
+
+    recordRun (run: Readonly<RunStats>, durationMs: number)
+    {
+        const { totals } = this.data;
+        totals.runs += 1;
+        totals.pipes += run.pipes;
+        totals.flaps += run.flaps;
+        totals.livesLost += run.livesLost;
+        totals.powerUps += run.powerUps;
+        totals.playTimeMs += Math.round(durationMs);
+        this.data.histograms[run.difficulty][getHistogramBucket(run.pipes)] += 1;
+        this.save();
+    }
+
+    // Already unlocked achievements keep their original date.
+    unlock (ids: string[], unlockedAt = new Date().toISOString())
+    {
+        ids.forEach((id) =>
+        {
+            this.data.achievements[id] ??= unlockedAt;
+        });
+        this.save();
+    }
+
+    export ()
+    {
+        return serializeStats(this.data);
+    }
+
+    // Replaces everything with an exported file. Throws StatsFormatError,
+    // leaving the current stats alone, when the file can't be used.
+    import (text: string)
+    {
+        this.data = parseStats(text);
+        this.save();
+    }
+
+    private load ()
+    {
+        try
+        {
+            const raw = this.storage.getItem(this.key);
+            const data = raw === null ? null : JSON.parse(raw);
+
+            if (!isRecord(data) || data.version !== STATS_VERSION)
+            {
+                return;
+            }
+
+            this.data = normalizeStatsData(data);
+        }
+        catch
+        {
+            this.data = createDefaultStatsData();
+        }
+    }
+
+    private save ()
+    {
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify(this.data));
+        }
+        catch
+        {
+            // Stats just last for the session.
+        }
+    }
+}
@@ -0,0 +1,50 @@
+// The subset of the Web Storage API the game relies on. `window.localStorage`
+// satisfies it directly, and `MemoryStorage` stands in for it under Node.
+export interface StorageBackend
+{
+    getItem (key: string): string | null;
+    setItem (key: string, value: string): void;
+    removeItem (key: string): void;
+}
+
+export class MemoryStorage implements StorageBackend
+{
+    private readonly entries = new Map<string, string>();
+
+    getItem (key: string)
+    {
+        return this.entries.has(key) ? this.entries.get(key)! : null;
+    }
+
+    setItem (key: string, value: string)
+    {
+        this.entries.set(key, value);
+    }
+
+    removeItem (key: string)
+    {
+        this.entries.delete(key);
+    }
+}
+
+// localStorage can be missing (Node) or throw on access (privacy modes), in
+// which case progress only lives for the current session.
+export const getDefaultStorage = (): StorageBackend =>
+{
+    try
+    {
+        if (typeof window !== 'undefined' && window.localStorage)
+        {
+            const probe = '__bunny-bird-probe__';
+            window.localStorage.setItem(probe, probe);
+            window.localStorage.removeItem(probe);
+            return window.localStorage;
+        }
+    }
+    catch
+    {
+        // Fall through to the in-memory store.
+    }
+
+    return new MemoryStorage();
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { CheckpointHistory, isCheckpointScore } from './Checkpoints';
+
+// A snapshot of a fresh run stepped on to the given tick.
+const snapshotAt = (tick: number) =>
+{
+    const sim = new Simulation();
+    sim.start(5);
+    while (sim.getTick() < tick)
+    {
+        sim.step(sim.getBird().velocityY > 120);
+    }
+    return sim.snapshot();
+};
+
+describe('CheckpointHistory', () =>
+{
+    it('checkpoints every few pipes but not at the start score', () =>
+    {
+        expect(isCheckpointScore(0)).toBe(false);
+        expect(isCheckpointScore(2)).toBe(false);
+        expect(isCheckpointScore(3)).toBe(true);
+        expect(isCheckpointScore(6)).toBe(true);
+    });
+
+    it('steps further back on each rewind and forgets the checkpoints it passed', () =>
+    {
+        const history = new CheckpointHistory();
+        const [start, early, late] = [0, 100, 200].map(snapshotAt);
+        history.record(start);
+        history.record(early);
+        history.record(late);
+
+        expect(history.rewind(300)?.tick).toBe(200);
+        expect(history.rewind(200)?.tick).toBe(100);
+        expect(history.getCount()).toBe(2);
+        expect(history.rewind(100)?.tick).toBe(0);
+        expect(history.rewind(0)?.tick).toBe(0);
+    });
+
+    it('has nothing to rewind to before the run starts', () =>
+    {
+        expect(new CheckpointHistory().rewind(100)).toBeNull();
+    });
+});
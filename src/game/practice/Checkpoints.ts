@@ -0,0 +1,52 @@
+import type { SimSnapshot } from '../sim/Simulation';
+
+// A practice run keeps a checkpoint at its start and every few pipes after.
+export const CHECKPOINT_PIPES = 3;
+
+const MAX_CHECKPOINTS = 10;
+
+// A rewind lands at least this far back, so pressing it again right after
+// one steps back another checkpoint instead of repeating the same one.
+const MIN_REWIND_TICKS = 60;
+
+export const isCheckpointScore = (score: number) => score > 0 && score % CHECKPOINT_PIPES === 0;
+
+// The snapshots a practice run can be rewound to, oldest first.
+export class CheckpointHistory
+{
+    private checkpoints: SimSnapshot[] = [];
+
+    getCount ()
+    {
+        return this.checkpoints.length;
+    }
+
+    clear ()
+    {
+        this.checkpoints = [];
+    }
+
+    // Only the most recent checkpoints are kept; the start of the run goes
+    // first.
+    record (snapshot: SimSnapshot)
+    {
+        this.checkpoints.push(snapshot);
+        if (this.checkpoints.length > MAX_CHECKPOINTS)
+        {
+            this.checkpoints.shift();
+        }
+    }
+
+    // The newest checkpoint far enough behind `tick`, or the oldest one if
+    // none is. The ones after it are dropped, since the run now carries on
+    // from there.
+    rewind (tick: number): SimSnapshot | null
+    {
+        while (this.checkpoints.length > 1 && this.checkpoints[this.checkpoints.length - 1].tick > tick - MIN_REWIND_TICKS)
+        {
+            this.checkpoints.pop();
+        }
+
+        return this.checkpoints[this.checkpoints.length - 1] ?? null;
+    }
+}
@@ -0,0 +1,68 @@
+const UINT32_RANGE = 0x100000000;
+
+// Accepts either a numeric seed or any shareable text (e.g. "bunny"), which is
+// hashed with FNV-1a so the same phrase always yields the same course.
+export const normalizeSeed = (value: number | string): number =>
+{
+    if (typeof value === 'number')
+    {
+        return Number.isFinite(value) ? Math.floor(Math.abs(value)) % UINT32_RANGE : 0;
+    }
+
+    const text = value.trim();
+    if (/^\d+$/.test(text))
+    {
+        return Number(text) % UINT32_RANGE;
+    }
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++)
+    {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export const createRandomSeed = () => Math.floor(Math.random() * UINT32_RANGE);
+
+// Mulberry32: tiny, fast and good enough for level layouts. The whole
+// generator state is one uint32, which keeps it trivial to snapshot.
+export class SeededRandom
+{
+    readonly seed: number;
+    private state: number;
+
+    constructor (seed: number | string)
+    {
+        this.seed = normalizeSeed(seed);
+        this.state = this.seed;
+    }
+
+    // Returns a float in [0, 1).
+    next ()
+    {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+    }
+
+    getState ()
+    {
+        return this.state;
+    }
+
+    // Picks the sequence up from a value `getState` returned earlier.
+    setState (state: number)
+    {
+        this.state = state >>> 0;
+    }
+
+    // Integer in [min, max], matching Phaser.Math.Between.
+    between (min: number, max: number)
+    {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+}
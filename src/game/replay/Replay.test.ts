@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseReplay, Replay, REPLAY_VERSION, ReplayFormatError, serializeReplay } from './Replay';
+
+const replay: Replay = {
+    version: REPLAY_VERSION,
+    seed: 1234,
+    difficulty: 'hard',
+    flaps: [3, 40, 72],
+    ticks: 300,
+    score: 2,
+    recordedAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('parseReplay', () =>
+{
+    it('reads back what it wrote', () =>
+    {
+        expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('sorts flaps and fills in missing totals', () =>
+    {
+        const parsed = parseReplay(JSON.stringify({ ...replay, ticks: undefined, score: undefined, flaps: [72, 3, 40] }));
+
+        expect(parsed.flaps).toEqual([3, 40, 72]);
+        expect(parsed.ticks).toBe(0);
+        expect(parsed.score).toBe(0);
+    });
+
+    it.each([
+        ['not JSON', '{oops'],
+        ['not an object', '42'],
+        ['from another version', JSON.stringify({ ...replay, version: REPLAY_VERSION + 1 })],
+        ['without a seed', JSON.stringify({ ...replay, seed: undefined })],
+        ['on an unknown difficulty', JSON.stringify({ ...replay, difficulty: 'brutal' })],
+        ['with fractional flaps', JSON.stringify({ ...replay, flaps: [1.5] })],
+        ['sped up', JSON.stringify({ ...replay, gameSpeed: 2 })],
+        ['in an unknown layout', JSON.stringify({ ...replay, layout: 'square' })]
+    ])('rejects a replay %s', (_case, text) =>
+    {
+        expect(() => parseReplay(text)).toThrow(ReplayFormatError);
+    });
+});
@@ -0,0 +1,115 @@
+import { Course, CourseFormatError, toCourse } from '../course/Course';
+import { Difficulty, isDifficulty } from '../sim/SimulationConfig';
+import type { Orientation } from '../ui/Layout';
+
+export const REPLAY_VERSION = 1;
+
+// A run is fully described by its course (seed + difficulty) and the fixed
+// simulation ticks on which the player flapped. Runs on a custom course
+// carry the whole course with them, slowed-down runs their game speed, and
+// portrait runs their layout, since the world is a different shape there.
+export interface Replay
+{
+    version: number;
+    seed: number;
+    difficulty: Difficulty;
+    flaps: number[];
+    ticks: number;
+    score: number;
+    recordedAt: string;
+    course?: Course;
+    gameSpeed?: number;
+    layout?: Orientation;
+}
+
+export class ReplayFormatError extends Error
+{
+    constructor (message: string)
+    {
+        super(message);
+        this.name = 'ReplayFormatError';
+    }
+}
+
+const isTick = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay, null, 2);
+
+export const parseReplay = (text: string): Replay =>
+{
+    let raw: unknown;
+
+    try
+    {
+        raw = JSON.parse(text);
+    }
+    catch
+    {
+        throw new ReplayFormatError('Replay is not valid JSON.');
+    }
+
+    if (typeof raw !== 'object' || raw === null)
+    {
+        throw new ReplayFormatError('Replay must be a JSON object.');
+    }
+
+    const data = raw as Record<string, unknown>;
+
+    if (data.version !== REPLAY_VERSION)
+    {
+        throw new ReplayFormatError(`Unsupported replay version: ${String(data.version)}.`);
+    }
+
+    if (!isTick(data.seed) || !isDifficulty(data.difficulty))
+    {
+        throw new ReplayFormatError('Replay is missing its seed or difficulty.');
+    }
+
+    if (!Array.isArray(data.flaps) || !data.flaps.every(isTick))
+    {
+        throw new ReplayFormatError('Replay flaps must be a list of tick indices.');
+    }
+
+    if (data.gameSpeed !== undefined && (typeof data.gameSpeed !== 'number' || !(data.gameSpeed > 0 && data.gameSpeed <= 1)))
+    {
+        throw new ReplayFormatError('Replay game speed must be above 0 and at most 1.');
+    }
+
+    if (data.layout !== undefined && data.layout !== 'landscape' && data.layout !== 'portrait')
+    {
+        throw new ReplayFormatError(`Unsupported replay layout: ${String(data.layout)}.`);
+    }
+
+    const flaps = [...data.flaps].sort((a, b) => a - b);
+    let course: Course | undefined;
+
+    if (data.course !== undefined)
+    {
+        try
+        {
+            course = toCourse(data.course);
+        }
+        catch (error)
+        {
+            if (error instanceof CourseFormatError)
+            {
+                throw new ReplayFormatError(`Replay course is invalid: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    return {
+        version: REPLAY_VERSION,
+        seed: data.seed,
+        difficulty: data.difficulty,
+        flaps,
+        ticks: isTick(data.ticks) ? data.ticks : 0,
+        score: isTick(data.score) ? data.score : 0,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+        ...(course && { course }),
+        ...(typeof data.gameSpeed === 'number' && data.gameSpeed < 1 && { gameSpeed: data.gameSpeed }),
+        ...(data.layout === 'portrait' && { layout: data.layout })
+    };
+};
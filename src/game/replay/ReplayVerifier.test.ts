@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Autopilot } from '../bot/Autopilot';
+import { Simulation } from '../sim/Simulation';
+import { createSimulationConfig } from '../sim/SimulationConfig';
+import { createLayoutConfig, LAYOUTS, Orientation } from '../ui/Layout';
+import { Replay, REPLAY_VERSION } from './Replay';
+import { MAX_REPLAY_TICKS, verifyReplay } from './ReplayVerifier';
+
+// Plays a run the way a player would and records it like the Game scene.
+const recordRun = (seed: number, layout: Orientation = 'landscape'): Replay =>
+{
+    const sim = new Simulation(createSimulationConfig(createLayoutConfig(LAYOUTS[layout])));
+    const autopilot = new Autopilot(0.6, seed);
+    sim.setDifficulty('easy');
+    sim.start(seed);
+
+    while (sim.getState() !== 'gameover' && sim.getTick() < 20000)
+    {
+        sim.step(autopilot.decide(sim));
+    }
+
+    return {
+        version: REPLAY_VERSION,
+        seed,
+        difficulty: 'easy',
+        flaps: [...sim.getFlapTicks()],
+        ticks: sim.getTick(),
+        score: sim.getScore(),
+        recordedAt: '',
+        ...(layout === 'portrait' && { layout })
+    };
+};
+
+describe('verifyReplay', () =>
+{
+    it('accepts a genuine run', () =>
+    {
+        const replay = recordRun(41);
+
+        expect(replay.score).toBeGreaterThan(0);
+        expect(verifyReplay(replay)).toEqual({ valid: true, score: replay.score, ticks: replay.ticks });
+    });
+
+    it('rejects a run claiming a different score or length', () =>
+    {
+        const replay = recordRun(43);
+
+        expect(verifyReplay({ ...replay, score: replay.score + 5 }).valid).toBe(false);
+        expect(verifyReplay({ ...replay, ticks: replay.ticks + 60 }).valid).toBe(false);
+    });
+
+    it('rejects flaps the bird could not have made', () =>
+    {
+        const replay = recordRun(47);
+
+        expect(verifyReplay({ ...replay, flaps: [...replay.flaps, replay.ticks + 10] }).valid).toBe(false);
+    });
+
+    it('turns away replays too long to check without simulating them', () =>
+    {
+        const replay = recordRun(59);
+
+        expect(verifyReplay({ ...replay, ticks: MAX_REPLAY_TICKS + 1 })).toMatchObject({ valid: false, ticks: 0 });
+        expect(verifyReplay({ ...replay, flaps: Array.from({ length: replay.ticks + 2 }, (_, tick) => tick) })).toMatchObject({ valid: false, ticks: 0 });
+    });
+
+    it('plays portrait runs back in the portrait world', () =>
+    {
+        const replay = recordRun(53, 'portrait');
+
+        expect(replay.score).toBeGreaterThan(0);
+        expect(verifyReplay(replay).valid).toBe(true);
+        expect(verifyReplay({ ...replay, layout: undefined }).valid).toBe(false);
+    });
+});
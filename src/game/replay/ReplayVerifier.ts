@@ -0,0 +1,67 @@
+import { Simulation } from '../sim/Simulation';
+import { createSimulationConfig, SimulationConfig } from '../sim/SimulationConfig';
+import { createLayoutConfig, fitCourseToLayout, LAYOUTS } from '../ui/Layout';
+import type { Replay } from './Replay';
+
+export interface ReplayCheck
+{
+    valid: boolean;
+    score: number;
+    ticks: number;
+    reason?: string;
+}
+
+// An hour of play at the simulation's 60 ticks a second. Replays claiming
+// more are turned away before anything is simulated.
+export const MAX_REPLAY_TICKS = 60 * 60 * 60;
+
+// Whether a replay is short enough to be worth checking; a bird can flap at
+// most once a tick.
+export const isReplayWithinLimits = (replay: Replay) =>
+    replay.ticks <= MAX_REPLAY_TICKS && replay.flaps.length <= replay.ticks + 1;
+
+// Plays a replay's flaps back through a fresh simulation laid out the way
+// it was recorded, the same way the Game scene does, and checks it lands on
+// the score and length it claims. Every flap has to land on a tick where the bird could actually flap.
+export const verifyReplay = (replay: Replay, config?: SimulationConfig): ReplayCheck =>
+{
+    if (!isReplayWithinLimits(replay))
+    {
+        return { valid: false, score: 0, ticks: 0, reason: 'Replay is longer than any run that gets checked.' };
+    }
+
+    const layout = LAYOUTS[replay.layout ?? 'landscape'];
+    const sim = new Simulation(config ?? createSimulationConfig(createLayoutConfig(layout)));
+    const flaps = new Set(replay.flaps);
+
+    sim.setDifficulty(replay.difficulty);
+    sim.setGameSpeed(replay.gameSpeed ?? 1);
+    sim.start(replay.seed, replay.course ? fitCourseToLayout(replay.course, layout) : null);
+
+    // One tick of slack so a run that should have ended is caught still alive.
+    while (sim.getState() !== 'gameover' && sim.getTick() <= replay.ticks)
+    {
+        sim.step(sim.getState() === 'playing' && flaps.has(sim.getTick()));
+    }
+
+    const score = sim.getScore();
+    const ticks = sim.getTick();
+    const fail = (reason: string): ReplayCheck => ({ valid: false, score, ticks, reason });
+
+    if (sim.getState() !== 'gameover' || ticks !== replay.ticks)
+    {
+        return fail(`Run ended on tick ${ticks}, not ${replay.ticks}.`);
+    }
+
+    if (score !== replay.score)
+    {
+        return fail(`Run scored ${score}, not ${replay.score}.`);
+    }
+
+    if (sim.getFlapTicks().length !== flaps.size)
+    {
+        return fail('Replay has flaps the bird could not have made.');
+    }
+
+    return { valid: true, score, ticks };
+};
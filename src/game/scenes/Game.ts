@@ -1,687 +1,1967 @@
 import Phaser from 'phaser';
+import { getSoundSystem, SoundSystem } from '../audio/SoundSystem';
+import { Autopilot } from '../bot/Autopilot';
+import type { Course } from '../course/Course';
+import { DebugOverlay } from '../debug/DebugOverlay';
+import { hasDebugFlag, isDebugEnabled, isDefaultTuning, toConfigOverrides, Tuning } from '../debug/Tuning';
 import { EventBus } from '../EventBus';
+import { InputController } from '../input/InputController';
+import { InputBuffer } from '../input/InputTiming';
+import { canSubmit, createLeaderboardBackend, LeaderboardBackend, normalizePlayerName, SubmissionStatus } from '../leaderboard/Leaderboard';
+import { AccessibilitySettings, AccessibilityStore } from '../persistence/AccessibilityStore';
+import { DAILY_ATTEMPTS, DAILY_DIFFICULTY, DailyEntry, DailyStatus, DailyStore, getDailyDate, getDailySeed } from '../persistence/DailyStore';
+import { GhostPoint, GhostRun, GhostStore } from '../persistence/GhostStore';
+import { describeKey } from '../persistence/KeyBindingStore';
+import { ProgressStore } from '../persistence/ProgressStore';
+import { SavedRun, SavedRunStore } from '../persistence/SavedRunStore';
+import { StatsStore } from '../persistence/StatsStore';
+import { HudMode } from '../persistence/SaveData';
+import { CheckpointHistory, isCheckpointScore } from '../practice/Checkpoints';
+import { createRandomSeed, normalizeSeed } from '../random/SeededRandom';
+import { Replay, REPLAY_VERSION } from '../replay/Replay';
+import { PipeState, PlayerStatus, SimEvent, Simulation, SimState, TimedPowerUp } from '../sim/Simulation';
+import { createSimulationConfig, DIFFICULTIES, Difficulty, PowerUpKind } from '../sim/SimulationConfig';
+import { Achievement, AchievementTracker } from '../stats/Achievements';
+import { generateTextures } from '../Textures';
+import { Backdrop, createBackdrop } from '../theme/Backdrop';
+import { getUnlockedThemes, resolveTheme, Theme } from '../theme/Theme';
+import { describeGameSpeed } from '../ui/format';
+import { applyOrientation, createLayoutConfig, fitCourseToLayout, getLayout, getViewportOrientation, Layout, Orientation } from '../ui/Layout';
+
+export type GameMode = 'play' | 'autopilot' | 'daily' | 'versus' | 'practice';
+
+// The simulation's own state, plus the scene being paused on top of it.
+export type RunState = SimState | 'paused';
+
+export interface GameSceneData
+{
+    mode?: GameMode;
+    replay?: Replay;
+    // Plays a hand-made course instead of a random one.
+    course?: Course;
+    // Picks a run saved on an earlier visit back up, paused.
+    resume?: SavedRun;
+    // Plays on the stored ghost's seed so the bird can race it.
+    raceGhost?: boolean;
+}
+
+interface PowerUpIndicator
+{
+    icon: Phaser.GameObjects.Image;
+    bar: Phaser.GameObjects.Rectangle;
+    track: Phaser.GameObjects.Rectangle;
+    durationMs: number;
+}
+
+const TIMED_POWER_UPS: TimedPowerUp[] = ['shield', 'slowmo'];
+
+// The speeds practice slow-mo steps through, on top of the game-speed assist.
+const PRACTICE_SPEEDS = [1, 0.75, 0.5];
+
+// Player 2's bird in versus runs.
+const RIVAL_TINT = 0x80d8ff;
 
-export type Difficulty = 'easy' | 'medium' | 'hard';
-type GameState = 'ready' | 'playing' | 'resuming' | 'gameover';
+// Which bird a simulation event is about; untagged events are player 1's.
+const playerOf = (event: { player?: number }) => event.player ?? 0;
 
-interface DifficultySettings
+// One bird's standing in a versus run.
+export interface VersusPlayer
 {
-    gap: number;
-    spawnDelay: number;
+    score: number;
+    lives: number;
+    status: PlayerStatus;
+}
+
+// Where a practice run's drill tools stand; `hit` is set while the run is
+// frozen on a crash.
+export interface PracticeStatus
+{
+    frozen: boolean;
+    hit: boolean;
     speed: number;
+    checkpoints: number;
+}
+
+export interface VersusResult
+{
+    players: VersusPlayer[];
+    // Index of the winning bird, or null on a draw.
+    winner: number | null;
+}
+
+// Everything the GameOver overlay shows about the run that just ended.
+export interface RunSummary
+{
+    score: number;
+    best: number;
+    isNewBest: boolean;
+    pipesCleared: number;
+    durationMs: number;
+    seed: number;
+    difficulty: Difficulty;
+    isReplay: boolean;
+    // Set on autopilot runs, which are never recorded.
+    assisted: boolean;
+    // Practice runs are never recorded either.
+    practice: boolean;
+    // Nor are runs played on rules changed from the tuning panel.
+    tuned: boolean;
+    // Below 1 when the game-speed assist slowed the run down; its best is
+    // then the assisted one.
+    gameSpeed: number;
+    // Set on course runs; those never count towards bests or ghosts.
+    courseName: string | null;
+    courseComplete: boolean;
+    daily: DailyResult | null;
+    // Set when the run can go on the online leaderboard.
+    leaderboard: { playerName: string } | null;
+    versus: VersusResult | null;
+    // Names of the skins this run's new best unlocked.
+    unlockedThemes: string[];
 }
 
-interface DifficultyButton
+// Where a daily challenge run landed in the day's local table.
+export interface DailyResult extends DailyStatus
 {
-    container: Phaser.GameObjects.Container;
-    background: Phaser.GameObjects.Rectangle;
-    label: Phaser.GameObjects.Text;
+    rank: number | null;
+    results: readonly DailyEntry[];
 }
 
 export class Game extends Phaser.Scene
 {
-    private bird!: Phaser.Physics.Arcade.Sprite;
-    private pipes!: Phaser.Physics.Arcade.Group;
+    private sim!: Simulation;
+    private bird!: Phaser.GameObjects.Sprite;
+    private rival!: Phaser.GameObjects.Sprite;
+    private ghost!: Phaser.GameObjects.Sprite;
+    private ghostMarker!: Phaser.GameObjects.Image;
+    private pipeSprites!: Map<number, Phaser.GameObjects.Image>;
+    private powerUpSprites!: Map<number, Phaser.GameObjects.Image>;
+    private shieldBubble!: Phaser.GameObjects.Image;
+    private rivalShield!: Phaser.GameObjects.Image;
+    private finishLine!: Phaser.GameObjects.TileSprite;
+    private powerUpIndicators: Partial<Record<TimedPowerUp, PowerUpIndicator>> = {};
     private scoreText!: Phaser.GameObjects.Text;
+    private bestText!: Phaser.GameObjects.Text;
     private instructionText!: Phaser.GameObjects.Text;
-    private gameOverText!: Phaser.GameObjects.Text;
-    private flapKey?: Phaser.Input.Keyboard.Key;
-    private score = 0;
-    private best = 0;
-    private state: GameState = 'ready';
-    private spawnTimer?: Phaser.Time.TimerEvent;
+    private controls!: InputController;
+    private progress!: ProgressStore;
+    private ghostStore!: GhostStore;
+    private dailyStore!: DailyStore;
+    private savedRuns!: SavedRunStore;
+    private resumeData: SavedRun | null = null;
+    private dailyDate: string | null = null;
+    private leaderboard: LeaderboardBackend | null = null;
+    private soundSystem!: SoundSystem;
+    private submittable: Replay | null = null;
+    private submission: SubmissionStatus = { state: 'idle' };
+    private activeGhost: GhostRun | null = null;
+    private trail: GhostPoint[] = [];
+    private fixedSeed: number | null = null;
+    // Set from the menu's race button and kept through retries.
+    private raceGhost = false;
     private readyWave = 0;
     private playBounds!: Phaser.Geom.Rectangle;
-    private readonly hudTop = 90;
-    private readonly hudBottom = 95;
-    private readonly spawnPadding = 70;
-    private readonly maxLives = 3;
-    private lives = this.maxLives;
+    private layout!: Layout;
     private lifeIcons: Phaser.GameObjects.Image[] = [];
-    private readonly resumeDelay = 2500;
-    private invulnerable = false;
+    private rivalLifeIcons: Phaser.GameObjects.Image[] = [];
     private blinkEvent?: Phaser.Time.TimerEvent;
-    private invulnerabilityTimer?: Phaser.Time.TimerEvent;
-    private difficultyButtons: Partial<Record<Difficulty, DifficultyButton>> = {};
-
-    private readonly difficultySettings: Record<Difficulty, DifficultySettings> = {
-        easy: { gap: 280, spawnDelay: 1900, speed: -190 },
-        medium: { gap: 220, spawnDelay: 1650, speed: -220 },
-        hard: { gap: 170, spawnDelay: 1350, speed: -255 }
-    };
-    private difficulty: Difficulty = 'medium';
-    private pipeSpeed = this.difficultySettings[this.difficulty].speed;
-    private gapSize = this.difficultySettings[this.difficulty].gap;
-    private spawnDelay = this.difficultySettings[this.difficulty].spawnDelay;
+    private achievementText!: Phaser.GameObjects.Text;
+    private achievementEvent?: Phaser.Time.TimerEvent;
+    // Follows the current run for achievements; null when it isn't tracked.
+    private achievements: AchievementTracker | null = null;
+    private gameOverEvent?: Phaser.Time.TimerEvent;
+    private mode: GameMode = 'play';
+    private hudMode: HudMode = 'dom';
+    private accessibility!: AccessibilitySettings;
+    private theme!: Theme;
+    private backdrop!: Backdrop;
+    // Colours, text sizes and the layout are baked in when the scene is
+    // built, so a change to them mid-run rebuilds the scene on the next retry.
+    private rebuildPending = false;
+
+    // The simulation advances in fixed 60Hz ticks regardless of display
+    // refresh rate, so a seed plus the ticks a flap landed on reproduce a run
+    // exactly.
+    private readonly maxStepsPerFrame = 12;
+    private stepAccumulator = 0;
+    private flapQueued = false;
+    private rivalFlapQueued = false;
+    // Flaps pressed while the bird can't take them yet (respawning, or the
+    // run just ended) still count if control comes back within this window.
+    private readonly flapBuffer = new InputBuffer(150);
+    private lastReplay: Replay | null = null;
+    private replay: Replay | null = null;
+    private course: Course | null = null;
+    private replayCursor = 0;
+    private playbackSpeed = 1;
+    private autopilot: Autopilot | null = null;
+    private runAssisted = false;
+    // A resumed run has no trail from before it was saved, so it can't
+    // become a ghost.
+    private runResumed = false;
+    // Rules from the debug tuning panel, or null for the stock ones. Kept
+    // across scene restarts, like the panel's sliders.
+    private tuning: Tuning | null = null;
+    private runTuned = false;
+    private debugVisible = hasDebugFlag();
+    private readonly checkpoints = new CheckpointHistory();
+    // A frozen practice run holds on one frame until the next flap.
+    private frozen = false;
+    private practiceHit = false;
+    private practiceSpeed = 1;
 
     constructor ()
     {
         super('Game');
     }
 
-    preload ()
+    // The scene instance is reused on every start, so per-run state is reset
+    // here rather than relying on field initialisers.
+    init (data: GameSceneData = {})
     {
-        this.load.setPath('assets');
-        this.load.image('background', 'bg.png');
+        this.mode = data.mode ?? 'play';
+        this.replay = data.replay ?? null;
+        this.course = data.replay?.course ?? data.course ?? null;
+        this.resumeData = data.replay ? null : data.resume ?? null;
+        this.raceGhost = data.raceGhost === true;
+        this.pipeSprites = new Map();
+        this.powerUpSprites = new Map();
+        this.powerUpIndicators = {};
+        this.lifeIcons = [];
+        this.rivalLifeIcons = [];
+        this.flapBuffer.clear();
+        this.activeGhost = null;
+        this.trail = [];
+        this.replayCursor = 0;
+        this.autopilot = null;
+        this.runAssisted = false;
+        this.runResumed = false;
+        this.rebuildPending = false;
+        this.achievements = null;
+        this.checkpoints.clear();
+        this.frozen = false;
+        this.practiceHit = false;
+        this.practiceSpeed = 1;
     }
 
     create ()
     {
-        const { width, height } = this.scale;
-        const playHeight = height - this.hudTop - this.hudBottom;
-        const playCenterY = this.hudTop + (playHeight * 0.5);
-
-        this.playBounds = new Phaser.Geom.Rectangle(0, this.hudTop, width, playHeight);
-
-        this.add.image(width * 0.5, height * 0.5, 'background').setDisplaySize(width, height);
-        this.add.rectangle(width * 0.5, this.hudTop * 0.5, width, this.hudTop, 0x031b2b, 0.75).setDepth(5);
-        this.add.rectangle(width * 0.5, height - (this.hudBottom * 0.5), width, this.hudBottom, 0x031b2b, 0.75).setDepth(5);
-        this.generatePipeTexture();
-        this.generateBirdTexture();
-        this.generateHeartTextures();
-
-        this.pipes = this.physics.add.group({ allowGravity: false, immovable: true });
-
-        this.bird = this.physics.add.sprite(width * 0.35, playCenterY, 'bird');
+        applyOrientation(this.scale, this.getWantedOrientation());
+        this.layout = getLayout(this.scale);
+        const { width, height, hudTop, hudBottom } = this.layout;
+        const playHeight = height - hudTop - hudBottom;
+        const playCenterY = hudTop + (playHeight * 0.5);
+
+        this.playBounds = new Phaser.Geom.Rectangle(0, hudTop, width, playHeight);
+
+        this.sim = new Simulation(this.createConfig());
+        const { birdStartX } = this.sim.config;
+        this.progress = new ProgressStore();
+        this.ghostStore = new GhostStore();
+        this.dailyStore = new DailyStore();
+        this.savedRuns = new SavedRunStore();
+        this.leaderboard = createLeaderboardBackend();
+        this.soundSystem = getSoundSystem();
+        this.hudMode = this.progress.getSettings().hud;
+        this.accessibility = { ...new AccessibilityStore().getSettings() };
+        const textScale = this.accessibility.largeText ? 1.25 : 1;
+        const modeDifficulty = this.mode === 'daily' ? DAILY_DIFFICULTY : this.progress.getLastDifficulty();
+        this.sim.setDifficulty(this.resumeData?.snapshot.difficulty ?? this.course?.difficulty ?? this.replay?.difficulty ?? modeDifficulty);
+
+        this.theme = resolveTheme(this.progress.getSettings().theme, this.progress.getBestScores());
+        generateTextures(this, this.theme, this.accessibility.palette);
+        this.backdrop = createBackdrop(this, this.theme);
+        this.add.rectangle(width * 0.5, hudTop * 0.5, width, hudTop, 0x031b2b, 0.75).setDepth(5);
+        this.add.rectangle(width * 0.5, height - (hudBottom * 0.5), width, hudBottom, 0x031b2b, 0.75).setDepth(5);
+
+        // Created before the live bird so it always renders underneath it.
+        this.ghost = this.add.sprite(birdStartX, playCenterY, 'bird');
+        this.ghost.setScale(0.95).setAlpha(0.35).setTint(0xd1c4e9).setVisible(false);
+        this.ghostMarker = this.add.image(0, 0, 'ghost-marker').setAlpha(0.8).setVisible(false);
+
+        this.rival = this.add.sprite(birdStartX, playCenterY, 'bird');
+        this.rival.setScale(0.95).setTint(RIVAL_TINT).setVisible(false);
+        this.rivalShield = this.add.image(this.rival.x, this.rival.y, 'shield-bubble').setVisible(false);
+
+        this.bird = this.add.sprite(birdStartX, playCenterY, 'bird');
         this.bird.setScale(0.95);
-        this.bird.setCollideWorldBounds(true);
-        const body = this.bird.body as Phaser.Physics.Arcade.Body;
-        body.setAllowGravity(false);
-        body.onWorldBounds = true;
+        this.shieldBubble = this.add.image(this.bird.x, this.bird.y, 'shield-bubble').setVisible(false);
+        this.finishLine = this.add.tileSprite(0, this.playBounds.top, 24, playHeight, 'finish-line').setOrigin(0.5, 0).setVisible(false);
 
-        this.physics.world.setBounds(0, 0, width, height);
-        this.physics.add.collider(this.bird, this.pipes, this.onBirdHit, undefined, this);
-        this.physics.world.on('worldbounds', this.handleWorldBounds, this);
-
-        this.scoreText = this.add.text(width * 0.5, this.hudTop * 0.5, '', {
+        this.scoreText = this.add.text(width * 0.5, this.layout.scoreY, '', {
             fontFamily: 'Arial Black',
-            fontSize: '32px',
+            fontSize: `${Math.round(this.layout.scoreFontSize * textScale)}px`,
             color: '#ffffff',
             stroke: '#000000',
-            strokeThickness: 6
+            strokeThickness: 6,
+            align: 'center',
+            wordWrap: { width: width - 48 }
         }).setOrigin(0.5).setDepth(10);
 
-        this.instructionText = this.add.text(width * 0.5, height - (this.hudBottom * 0.5), '', {
+        this.bestText = this.add.text(width - 24, this.layout.scoreY, '', {
             fontFamily: 'Arial Black',
-            fontSize: '24px',
+            fontSize: `${Math.round(18 * textScale)}px`,
             color: '#ffffff',
             stroke: '#000000',
-            strokeThickness: 6,
-            align: 'center'
-        }).setOrigin(0.5).setDepth(10);
+            strokeThickness: 4,
+            align: 'right'
+        }).setOrigin(1, 0.5).setDepth(10);
 
-        this.gameOverText = this.add.text(width * 0.5, playCenterY, 'Game Over\nClick to try again', {
+        this.instructionText = this.add.text(width * 0.5, height - (hudBottom * 0.5), '', {
             fontFamily: 'Arial Black',
-            fontSize: '48px',
-            align: 'center',
-            color: '#ffeb3b',
+            fontSize: `${Math.round(24 * textScale)}px`,
+            color: '#ffffff',
             stroke: '#000000',
-            strokeThickness: 8
-        }).setOrigin(0.5).setDepth(30).setVisible(false);
+            strokeThickness: 6,
+            align: 'center',
+            wordWrap: { width: width - 48 }
+        }).setOrigin(0.5).setDepth(10);
 
         this.createLivesDisplay();
         this.updateLivesDisplay();
-        this.createDifficultyButtons();
-        this.refreshDifficultyButtons();
+        this.createPowerUpIndicators();
 
-        this.input.on('pointerdown', this.handleFlap, this);
-        this.flapKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
-        this.flapKey?.on('down', this.handleFlap, this);
+        this.achievementText = this.add.text(width * 0.5, hudTop + 16, '', {
+            fontFamily: 'Arial Black',
+            fontSize: `${Math.round(18 * textScale)}px`,
+            color: '#ffbe0b',
+            stroke: '#000000',
+            strokeThickness: 5,
+            align: 'center'
+        }).setOrigin(0.5, 0).setDepth(10).setVisible(false);
+
+        // With the React HUD in charge the canvas copies stay hidden, but are
+        // still kept up to date so the fallback needs no special casing.
+        const canvasHud = this.hudMode === 'canvas';
+        this.scoreText.setVisible(canvasHud);
+        this.lifeIcons.forEach((icon) => icon.setVisible(canvasHud));
+        this.updatePowerUpIndicators();
+
+        this.controls = new InputController(this, {
+            flap: this.handleFlap,
+            ...(this.mode === 'versus' && { flap2: this.handleRivalFlap }),
+            pause: () => this.pauseRun(),
+            autopilot: () => this.toggleAutopilot(),
+            mute: () => this.toggleMute(),
+            rewind: () => this.rewind(),
+            freeze: () => this.toggleFreeze(),
+            slow: () => this.cyclePracticeSpeed()
+        }, { pointer: true });
+        this.game.events.on(Phaser.Core.Events.BLUR, this.pauseRun, this);
+        this.game.events.on(Phaser.Core.Events.HIDDEN, this.pauseRun, this);
+        this.events.on(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+        this.scale.on(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        window.addEventListener('pagehide', this.saveRun);
+        EventBus.on('flap', this.handleFlapCommand, this);
+        EventBus.on('bindings-changed', this.updateInstructionText, this);
+        EventBus.on('accessibility-changed', this.handleAccessibilityChanged, this);
+        EventBus.on('pause', this.pauseRun, this);
+        EventBus.on('retry', this.retry, this);
+        EventBus.on('open-menu', this.openMenu, this);
+        EventBus.on('set-difficulty', this.handleDifficultyCommand, this);
+        EventBus.on('set-seed', this.setSeed, this);
+        EventBus.on('set-autopilot', this.setAutopilot, this);
+        EventBus.on('set-playback-speed', this.setPlaybackSpeed, this);
+        EventBus.on('play-replay', this.playReplay, this);
+        EventBus.on('play-course', this.playCourse, this);
+        EventBus.on('submit-score', this.submitScore, this);
+        EventBus.on('practice-rewind', this.rewind, this);
+        EventBus.on('practice-freeze', this.toggleFreeze, this);
+        EventBus.on('practice-speed', this.cyclePracticeSpeed, this);
+        EventBus.on('set-tuning', this.handleTuning, this);
 
         this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
         {
-            this.input.off('pointerdown', this.handleFlap, this);
-            this.flapKey?.off('down', this.handleFlap, this);
-            this.physics.world.off('worldbounds', this.handleWorldBounds, this);
+            this.game.events.off(Phaser.Core.Events.BLUR, this.pauseRun, this);
+            this.game.events.off(Phaser.Core.Events.HIDDEN, this.pauseRun, this);
+            this.events.off(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+            this.scale.off(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+            document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+            window.removeEventListener('pagehide', this.saveRun);
+            // Leaving the scene any other way than closing the page ends the
+            // run for good.
+            this.savedRuns.clear();
+            EventBus.off('flap', this.handleFlapCommand, this);
+            EventBus.off('bindings-changed', this.updateInstructionText, this);
+            EventBus.off('accessibility-changed', this.handleAccessibilityChanged, this);
+            EventBus.off('pause', this.pauseRun, this);
+            EventBus.off('retry', this.retry, this);
+            EventBus.off('open-menu', this.openMenu, this);
+            EventBus.off('set-difficulty', this.handleDifficultyCommand, this);
+            EventBus.off('set-seed', this.setSeed, this);
+            EventBus.off('set-autopilot', this.setAutopilot, this);
+            EventBus.off('set-playback-speed', this.setPlaybackSpeed, this);
+            EventBus.off('play-replay', this.playReplay, this);
+            EventBus.off('play-course', this.playCourse, this);
+            EventBus.off('submit-score', this.submitScore, this);
+            EventBus.off('practice-rewind', this.rewind, this);
+            EventBus.off('practice-freeze', this.toggleFreeze, this);
+            EventBus.off('practice-speed', this.cyclePracticeSpeed, this);
+            EventBus.off('set-tuning', this.handleTuning, this);
             this.blinkEvent?.remove(false);
-            this.invulnerabilityTimer?.remove(false);
+            this.achievementEvent?.remove(false);
+            this.gameOverEvent?.remove(false);
         });
 
+        if (isDebugEnabled())
+        {
+            const overlay = new DebugOverlay(this, this.sim, this.debugVisible);
+            this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.BACKTICK).on('down', () =>
+            {
+                overlay.toggle();
+                this.debugVisible = overlay.isVisible();
+            });
+        }
+
+        EventBus.emit('hud-changed', this.hudMode);
+        EventBus.emit('accessibility-changed', this.accessibility);
+        EventBus.emit('difficulty-changed', this.sim.getDifficulty());
+        EventBus.emit('autopilot-changed', false);
         this.resetScene();
 
+        if (this.replay)
+        {
+            this.startRun();
+        }
+        else if (this.resumeData)
+        {
+            this.resumeRun(this.resumeData);
+        }
+
+        if (!this.replay && this.mode === 'autopilot')
+        {
+            this.setAutopilot(true);
+        }
+
         EventBus.emit('current-scene-ready', this);
     }
 
     update (_time: number, delta: number)
     {
-        if (this.state === 'ready')
+        if (this.sim.getState() === 'ready' && this.autopilot && !this.replay)
+        {
+            this.startRun();
+        }
+
+        if (this.sim.getState() === 'ready')
         {
-            this.readyWave += delta * 0.005;
-            this.bird.y = this.getPlayCenterY() + Math.sin(this.readyWave) * 12;
+            // With reduced motion the waiting birds hold still.
+            if (!this.accessibility.reducedMotion)
+            {
+                this.readyWave += delta * 0.005;
+            }
+            this.bird.y = this.sim.getPlayCenterY() + Math.sin(this.readyWave) * 12;
+            this.rival.y = this.sim.getPlayCenterY() - Math.sin(this.readyWave) * 12;
             return;
         }
 
-        if (this.state !== 'playing')
+        if (this.frozen)
         {
             return;
         }
 
-        this.updateBirdAngle();
-        this.managePipes();
+        const { stepMs } = this.sim.config;
+        const speed = this.replay ? this.playbackSpeed : 1;
+        this.stepAccumulator = Math.min(this.stepAccumulator + (delta * speed), stepMs * this.maxStepsPerFrame);
+
+        while (this.stepAccumulator >= stepMs)
+        {
+            this.stepAccumulator -= stepMs;
+            this.step();
+        }
+
+        this.syncBird();
+        this.syncPipes();
+        this.syncPowerUps();
+        this.syncFinishLine();
+        this.updatePowerUpIndicators();
+
+        if (this.sim.getState() === 'playing')
+        {
+            this.soundSystem.updateMusic(this.sim.getPipeSpeed());
+        }
     }
 
-    public triggerFlapFromUI ()
+    public getLastReplay ()
     {
-        this.handleFlap();
+        return this.lastReplay;
     }
 
-    public setDifficulty (level: Difficulty)
+    // Plays a recorded run back on its own seed and difficulty, closing any
+    // overlay on top of the scene. Player input is ignored until it ends.
+    public playReplay (replay: Replay)
     {
-        if (!this.difficultySettings[level] || this.difficulty === level)
+        this.closeOverlays();
+        this.replay = replay;
+        this.course = replay.course ?? null;
+        if (this.getWantedOrientation() !== this.layout.orientation)
         {
+            this.rebuild();
             return;
         }
 
-        this.difficulty = level;
-        const settings = this.difficultySettings[level];
-        this.pipeSpeed = settings.speed;
-        this.gapSize = settings.gap;
-        this.spawnDelay = settings.spawnDelay;
-
+        this.sim.setConfig(this.createConfig());
+        this.sim.setDifficulty(replay.difficulty);
+        EventBus.emit('difficulty-changed', replay.difficulty);
         this.resetScene();
+        this.startRun();
     }
 
-    private handleFlap = () =>
+    // Switches to a hand-made course on its own difficulty and waits for the
+    // first flap, closing any overlay on top of the scene. Practice mode
+    // stays on, so a course's hard sections can be drilled.
+    public playCourse (course: Course)
     {
-        if (this.state === 'gameover')
-        {
-            this.resetScene();
-            this.startRun();
-        }
-        else if (this.state === 'ready')
-        {
-            this.startRun();
-        }
-
-        if (this.state !== 'playing')
+        this.closeOverlays();
+        this.replay = null;
+        this.course = course;
+        this.mode = this.mode === 'practice' ? 'practice' : 'play';
+        if (this.getWantedOrientation() !== this.layout.orientation)
         {
+            this.rebuild();
             return;
         }
 
-        this.bird.setVelocityY(-320);
-    };
-
-    private startRun ()
-    {
-        this.state = 'playing';
-        this.updateDifficultyButtonsVisibility();
-        this.instructionText.setVisible(false);
-        const body = this.bird.body as Phaser.Physics.Arcade.Body;
-        body.setAllowGravity(true);
-        this.spawnTimer = this.time.addEvent({
-            delay: this.spawnDelay,
-            loop: true,
-            callback: this.spawnPipes,
-            callbackScope: this
-        });
-        this.spawnPipes();
+        this.sim.setConfig(this.createConfig());
+        this.sim.setDifficulty(course.difficulty);
+        EventBus.emit('difficulty-changed', course.difficulty);
+        this.resetScene();
     }
 
-    private resetScene ()
+    public getCourse ()
     {
-        this.state = 'ready';
-        this.score = 0;
-        this.readyWave = 0;
-        this.lives = this.maxLives;
-        this.clearInvulnerability();
-        this.updateScoreboard();
-        this.updateInstructionText();
-        this.instructionText.setVisible(true);
-        this.gameOverText.setVisible(false);
-        this.spawnTimer?.remove(false);
-        this.spawnTimer = undefined;
-        this.pipes.clear(true, true);
-        this.bird.clearTint();
-        this.bird.setPosition(this.scale.width * 0.35, this.getPlayCenterY());
-        this.bird.setVelocity(0, 0);
-        this.bird.setAngle(0);
-        (this.bird.body as Phaser.Physics.Arcade.Body).setAllowGravity(false);
-        this.updateLivesDisplay();
-        this.refreshDifficultyButtons();
+        return this.course;
     }
 
-    private spawnPipes ()
+    // Sends the run that just ended to the online leaderboard. Any failure
+    // to get an answer leaves the run unsubmitted and marked offline, so it
+    // can be tried again.
+    public async submitScore (name = this.progress.getSettings().playerName)
     {
-        if (this.state !== 'playing')
+        const replay = this.submittable;
+        const playerName = normalizePlayerName(name);
+
+        if (!this.leaderboard || !replay || !playerName || !canSubmit(this.submission))
         {
             return;
         }
 
-        const { width } = this.scale;
-        const minY = this.playBounds.y + this.spawnPadding;
-        const maxY = this.playBounds.bottom - this.spawnPadding;
-        const centerY = Phaser.Math.Between(minY, maxY);
-        const pipeX = width + 80;
+        this.progress.updateSettings({ playerName });
+        this.setSubmission({ state: 'submitting' });
 
-        const topPipe = this.createPipe(pipeX, centerY - (this.gapSize * 0.5), true);
-        topPipe.setData('isTop', true);
-        topPipe.setData('scored', false);
+        let status: SubmissionStatus;
+        try
+        {
+            const result = await this.leaderboard.submit({ name: playerName, seed: replay.seed, difficulty: replay.difficulty, score: replay.score, replay });
+            status = result.accepted ? { state: 'submitted', rank: result.rank, total: result.total } : { state: 'rejected', reason: result.reason };
+        }
+        catch
+        {
+            status = { state: 'offline' };
+        }
 
-        this.createPipe(pipeX, centerY + (this.gapSize * 0.5), false);
+        // A new run may have started while the request was out.
+        if (replay === this.submittable)
+        {
+            this.setSubmission(status);
+        }
     }
 
-    private createPipe (x: number, y: number, isTop: boolean)
+    public getSubmission (): Readonly<SubmissionStatus>
     {
-        const pipe = this.pipes.create(x, y, 'pipe') as Phaser.Physics.Arcade.Image;
-        pipe.setOrigin(0.5, isTop ? 1 : 0);
-        pipe.setFlipY(isTop);
-        
-        const body = pipe.body as Phaser.Physics.Arcade.Body;
-
-        body.setAllowGravity(false);
-        body.setVelocityX(this.pipeSpeed);
-        body.setImmovable(true);
-        pipe.setData('isTop', isTop);
-        pipe.setData('scored', false);
-        return pipe;
+        return this.submission;
     }
 
-    private managePipes ()
+    // Back to the ready state for another attempt; a replay is watched again.
+    // A flap pressed just before the retry starts the new run straight away.
+    public retry ()
     {
-        this.pipes.children.each((child) =>
+        if (this.rebuildPending)
         {
-            const pipe = child as Phaser.Physics.Arcade.Image;
-            const rightEdge = pipe.x + (pipe.displayWidth * 0.5);
-
-            if (rightEdge < -20)
-            {
-                this.pipes.remove(pipe, true, true);
-                return;
-            }
-
-            const isTop = pipe.getData('isTop') === true;
-            const scored = pipe.getData('scored') === true;
+            this.closeOverlays();
+            this.rebuild();
+            return;
+        }
 
-            if (this.state === 'playing' && isTop && !scored && rightEdge < this.bird.x)
-            {
-                pipe.setData('scored', true);
-                this.incrementScore();
-            }
-        });
-    }
+        if (this.replay)
+        {
+            this.playReplay(this.replay);
+            return;
+        }
 
-    private updateBirdAngle ()
-    {
-        const velocityY = (this.bird.body as Phaser.Physics.Arcade.Body).velocity.y;
-        const angle = Phaser.Math.Clamp(velocityY / 5, -25, 60);
-        this.bird.setAngle(angle);
-    }
+        const flapBuffered = this.flapBuffer.consume(this.time.now);
+        this.closeOverlays();
+        this.resetScene();
 
-    private incrementScore ()
-    {
-        this.score += 1;
-        if (this.score > this.best)
+        if (flapBuffered)
         {
-            this.best = this.score;
+            this.handleFlap();
         }
-        this.updateScoreboard();
     }
 
-    private updateScoreboard ()
+    public openMenu ()
     {
-        if (!this.scoreText)
-        {
-            return;
-        }
+        this.closeOverlays();
+        this.scene.start('Menu');
+    }
 
-        this.scoreText.setText(`Score: ${this.score}  Best: ${this.best}  ${this.difficulty.toUpperCase()}`);
+    public setPlaybackSpeed (speed: number)
+    {
+        this.playbackSpeed = Phaser.Math.Clamp(speed, 0.25, 4);
     }
 
-    private updateInstructionText ()
+    // Hands the flap decisions to the bot. Runs it touches are marked as
+    // assisted and never count towards bests or ghosts. Daily challenges and
+    // versus rounds are always flown by hand.
+    public setAutopilot (enabled: boolean)
     {
-        if (!this.instructionText)
+        if (enabled === (this.autopilot !== null) || (enabled && (this.isDaily() || this.isVersus())))
         {
             return;
         }
 
-        // this.instructionText.setText(`Tap or press SPACE to flap\nDifficulty: ${this.difficulty.toUpperCase()}`);
+        this.autopilot = enabled ? new Autopilot(1, this.sim.getSeed()) : null;
+        this.runAssisted = this.runAssisted || enabled;
+        this.updateScoreboard();
+        EventBus.emit('autopilot-changed', enabled);
     }
 
-    private createDifficultyButtons ()
+    public isAutopilotEnabled ()
     {
-        const options: Difficulty[] = ['easy', 'medium', 'hard'];
-        const buttonWidth = 140;
-        const buttonHeight = 46;
-        const spacing = 18;
-        const totalWidth = (buttonWidth * options.length) + (spacing * (options.length - 1));
-        const startX = (this.scale.width * 0.5) - (totalWidth * 0.5) + (buttonWidth * 0.5);
-        const y = this.scale.height - (this.hudBottom * 0.5);
-
-        options.forEach((level, index) =>
-        {
-            const x = startX + index * (buttonWidth + spacing);
-            const container = this.add.container(x, y).setDepth(16);
-            const background = this.add.rectangle(0, 0, buttonWidth, buttonHeight, 0x0b2033, 0.8);
-            background.setStrokeStyle(3, 0xffffff, 0.5);
-            const label = this.add.text(0, 0, level.toUpperCase(), {
-                fontFamily: 'Arial Black',
-                fontSize: '20px',
-                color: '#ffffff'
-            }).setOrigin(0.5);
-
-            container.add([background, label]);
-            container.setSize(buttonWidth, buttonHeight);
-            container.setInteractive({ useHandCursor: true });
-            container.on('pointerdown', () => this.handleDifficultyButtonPress(level));
-
-            this.difficultyButtons[level] = { container, background, label };
-        });
+        return this.autopilot !== null;
     }
 
-    private handleDifficultyButtonPress (level: Difficulty)
+    public setDifficulty (level: Difficulty)
     {
-        if (this.state === 'playing' || this.state === 'resuming')
+        if (!DIFFICULTIES.includes(level) || this.sim.getDifficulty() === level)
         {
             return;
         }
 
-        this.setDifficulty(level);
-    }
-
-    private updateDifficultyButtonStyles ()
-    {
-        Object.entries(this.difficultyButtons).forEach(([level, buttonEntry]) =>
-        {
-            if (!buttonEntry)
-            {
-                return;
-            }
+        this.sim.setDifficulty(level);
+        this.progress.setLastDifficulty(level);
+        EventBus.emit('difficulty-changed', level);
 
-            const { background, label } = buttonEntry;
-            const typedLevel = level as Difficulty;
-            const isActive = typedLevel === this.difficulty;
-            background.setFillStyle(isActive ? 0xffbe0b : 0x0b2033, isActive ? 1 : 0.8);
-            background.setStrokeStyle(3, 0xffffff, isActive ? 1 : 0.35);
-            label.setColor(isActive ? '#0b1726' : '#ffffff');
-            label.setAlpha(isActive ? 1 : 0.85);
-        });
+        this.resetScene();
     }
 
-    private updateDifficultyButtonsVisibility ()
+    // Pins every following run to the given course; pass null to go back to a
+    // fresh random seed per run. Takes effect from the next run onwards.
+    public setSeed (seed: number | string | null)
     {
-        const show = this.state !== 'playing' && this.state !== 'resuming';
-        Object.values(this.difficultyButtons).forEach((entry) =>
-        {
-            entry?.container.setVisible(show);
-        });
+        this.fixedSeed = seed === null ? null : normalizeSeed(seed);
     }
 
-    private refreshDifficultyButtons ()
+    public getSeed ()
     {
-        this.updateDifficultyButtonStyles();
-        this.updateDifficultyButtonsVisibility();
+        return this.sim.getSeed();
     }
 
-    private createLivesDisplay ()
+    // Settings come from the accessibility panel, which pauses any run while
+    // it is open. Motion settings apply straight away; the game speed from
+    // the next run.
+    private handleAccessibilityChanged (settings: AccessibilitySettings)
     {
-        this.lifeIcons.forEach((icon) => icon.destroy());
-        this.lifeIcons = [];
+        const rebuild = settings.palette !== this.accessibility.palette || settings.largeText !== this.accessibility.largeText;
+        this.accessibility = { ...settings };
 
-        const startX = 70;
-        const spacing = 50;
-        const y = this.hudTop * 0.5;
-
-        for (let i = 0; i < this.maxLives; i++)
+        if (this.blinkEvent || this.isAnyBirdResuming())
         {
-            const heart = this.add.image(startX + (i * spacing), y, 'heart-full');
-            heart.setDepth(12);
-            heart.setScale(0.75);
-            this.lifeIcons.push(heart);
+            this.stopBlinking();
+            this.startBlinking();
         }
-    }
 
-    private updateLivesDisplay ()
-    {
-        if (!this.lifeIcons.length)
+        if (rebuild && this.sim.getState() === 'ready')
         {
+            this.rebuild();
             return;
         }
 
-        this.lifeIcons.forEach((icon, index) =>
+        this.rebuildPending = this.rebuildPending || rebuild;
+        if (this.sim.getState() === 'ready')
         {
-            icon.setTexture(index < this.lives ? 'heart-full' : 'heart-empty');
-        });
+            this.sim.setGameSpeed(this.getGameSpeed());
+            this.updateScoreboard();
+            EventBus.emit('bests-changed', { ...this.progress.getBestScores(this.isSlowedDown()) });
+        }
     }
 
-    private handleWorldBounds = (body: Phaser.Physics.Arcade.Body) =>
+    // Replays play in the layout they were recorded in, and resumed runs in
+    // the one they were saved in; everything else follows the shape of the
+    // page.
+    private getWantedOrientation (): Orientation
     {
-        if (body.gameObject === this.bird)
+        if (this.replay)
         {
-            this.handleBirdCollision();
+            return this.replay.layout ?? 'landscape';
         }
-    };
 
-    private onBirdHit = (_bird: Phaser.GameObjects.GameObject, collider: Phaser.GameObjects.GameObject) =>
-    {
-        this.handleBirdCollision(collider as Phaser.Physics.Arcade.Image);
-    };
+        return this.resumeData?.layout ?? getViewportOrientation(this.scale);
+    }
 
-    private setSpawnTimerPaused (paused: boolean)
+    // Turning the device mid-run keeps the current layout until the retry.
+    private handleResize ()
     {
-        if (this.spawnTimer)
+        if (this.getWantedOrientation() === this.layout.orientation)
         {
-            this.spawnTimer.paused = paused;
+            return;
         }
-    }
 
-    private pausePipes ()
-    {
-        this.pipes.children.each((child) =>
+        if (this.sim.getState() === 'ready' && this.scene.isActive())
         {
-            const body = (child as Phaser.Physics.Arcade.Image).body as Phaser.Physics.Arcade.Body;
-            body.setVelocityX(0);
-        });
+            this.rebuild();
+            return;
+        }
+
+        this.rebuildPending = true;
     }
 
-    private resumePipes ()
+    private rebuild ()
     {
-        this.pipes.children.each((child) =>
-        {
-            const body = (child as Phaser.Physics.Arcade.Image).body as Phaser.Physics.Arcade.Body;
-            body.setVelocityX(this.pipeSpeed);
-        });
+        const data: GameSceneData = {
+            mode: this.mode,
+            ...(this.replay && { replay: this.replay }),
+            ...(this.course && { course: this.course }),
+            ...(this.raceGhost && { raceGhost: true })
+        };
+        this.scene.restart(data);
     }
 
-    private startBlinking ()
+    // Replays play at the speed they were recorded at. Daily challenges are
+    // always at full speed, so everyone's results compare.
+    private getGameSpeed ()
     {
-        this.blinkEvent?.remove(false);
-        this.blinkEvent = this.time.addEvent({
-            delay: 140,
-            loop: true,
-            callback: () =>
-            {
-                this.bird.setVisible(!this.bird.visible);
-            }
-        });
+        if (this.replay)
+        {
+            return this.replay.gameSpeed ?? 1;
+        }
+
+        if (this.isPractice())
+        {
+            return this.accessibility.gameSpeed * this.practiceSpeed;
+        }
+
+        return this.isDaily() ? 1 : this.accessibility.gameSpeed;
     }
 
-    private stopBlinking ()
+    // The layout's rules, built on the tuned ones if there are any. Replays
+    // always play on the stock rules they were recorded under.
+    private createConfig ()
     {
-        this.blinkEvent?.remove(false);
-        this.blinkEvent = undefined;
-        this.bird.setVisible(true);
+        const base = createSimulationConfig(this.replay || !this.tuning ? {} : toConfigOverrides(this.tuning));
+        return { ...base, ...createLayoutConfig(this.layout, base) };
     }
 
-    private clearInvulnerability ()
+    // Changes from the tuning panel apply to the run under way. Once a run
+    // has been tuned nothing about it is recorded, even if the stock rules
+    // are put back.
+    private handleTuning (tuning: Tuning)
     {
-        this.stopBlinking();
-        this.invulnerabilityTimer?.remove(false);
-        this.invulnerabilityTimer = undefined;
-        this.invulnerable = false;
+        this.tuning = isDefaultTuning(tuning) ? null : tuning;
+        if (this.replay)
+        {
+            return;
+        }
 
-        if (this.bird)
+        this.sim.setConfig(this.createConfig());
+        if (this.tuning && this.isRunActive())
         {
-            this.bird.setVisible(true);
-            this.bird.clearTint();
+            this.runTuned = true;
+            this.achievements = null;
         }
+    }
 
-        this.setSpawnTimerPaused(false);
+    private isSlowedDown ()
+    {
+        return this.sim.getGameSpeed() < 1;
     }
 
-    private handleBirdCollision (hitPipe?: Phaser.Physics.Arcade.Image)
+    // Puts a practice run back to its last checkpoint and freezes it there,
+    // so the next flap picks up from a standing start.
+    private rewind ()
     {
-        if (this.state !== 'playing' || this.invulnerable)
+        if (!this.isPractice() || !this.isRunActive() || !this.scene.isActive())
         {
             return;
         }
 
-        this.lives -= 1;
-        this.updateLivesDisplay();
-
-        if (this.lives <= 0)
+        const snapshot = this.checkpoints.rewind(this.sim.getTick());
+        if (!snapshot)
         {
-            this.enterGameOver();
             return;
         }
 
-        this.handleLifeLost(hitPipe);
+        this.sim.restore(snapshot);
+        this.syncRestoredRun();
+        EventBus.emit('state-changed', this.sim.getState());
+        this.setFrozen(true, false);
     }
 
-    private handleLifeLost (hitPipe?: Phaser.Physics.Arcade.Image)
+    // Brings the scene in line with a simulation that was just restored,
+    // rather than stepped to where it is.
+    private syncRestoredRun ()
     {
-        this.state = 'resuming';
-        this.updateDifficultyButtonsVisibility();
-        this.invulnerable = true;
-
-        const body = this.bird.body as Phaser.Physics.Arcade.Body;
-        body.setVelocity(0, 0);
-        body.setAllowGravity(false);
+        this.stepAccumulator = 0;
+        this.flapQueued = false;
+        this.rivalFlapQueued = false;
+        this.flapBuffer.clear();
+        this.clearInvulnerability();
+        if (this.isAnyBirdResuming())
+        {
+            this.startBlinking();
+        }
+        // Sprites are rebuilt from scratch, since the pipes restored may not
+        // be the ones on screen.
+        [...this.pipeSprites.values(), ...this.powerUpSprites.values()].forEach((sprite) => sprite.destroy());
+        this.pipeSprites.clear();
+        this.powerUpSprites.clear();
+        this.syncBird();
         this.bird.setAngle(0);
-        this.bird.setVisible(true);
-        this.bird.setTint(0xfff082);
+        this.syncPipes();
+        this.syncPowerUps();
+        this.syncFinishLine();
+        TIMED_POWER_UPS.forEach((kind) =>
+        {
+            const remaining = kind === 'shield' ? this.sim.getShieldRemaining() : this.sim.getSlowMoRemaining();
+            EventBus.emit('power-up-ended', kind);
+            if (remaining > 0)
+            {
+                this.handlePowerUpCollected(kind);
+            }
+        });
+        this.updatePowerUpIndicators();
+        this.updateLivesDisplay();
+        this.updateScoreboard();
+        EventBus.emit('score-changed', this.sim.getScore());
+        EventBus.emit('tier-changed', this.sim.getTier(), this.sim.getRamp().tiers);
+        EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+    }
 
-        if (hitPipe)
+    // Written as the page is hidden or closed, the last point a browser
+    // reliably lets a page run; replays are only ever watched, so aren't
+    // kept.
+    private saveRun = () =>
+    {
+        if (this.replay || this.runTuned || !this.isRunActive())
         {
-            const pipeBounds = hitPipe.getBounds();
-            const targetX = pipeBounds.left - (this.bird.displayWidth * 0.6);
-            this.bird.setX(Phaser.Math.Clamp(targetX, this.playBounds.x + 40, this.playBounds.right - 40));
+            return;
         }
 
-        const safeTop = 30;
-        const safeBottom = this.scale.height - 30;
-        this.bird.setY(Phaser.Math.Clamp(this.bird.y, safeTop, safeBottom));
+        this.savedRuns.save({
+            mode: this.mode,
+            layout: this.layout.orientation,
+            course: this.course,
+            dailyDate: this.dailyDate,
+            assisted: this.runAssisted,
+            snapshot: this.sim.snapshot(),
+            savedAt: new Date().toISOString()
+        });
+    };
 
-        this.pausePipes();
-        this.setSpawnTimerPaused(true);
-        this.startBlinking();
+    private handleVisibilityChange = () =>
+    {
+        if (document.visibilityState === 'hidden')
+        {
+            this.saveRun();
+        }
+    };
 
-        this.invulnerabilityTimer?.remove(false);
-        this.invulnerabilityTimer = this.time.delayedCall(this.resumeDelay, this.resumeFromLifeLoss, [], this);
+    // Picks a saved run up exactly where it was left and holds it on the
+    // pause screen. Daily runs already spent their attempt, so don't take
+    // another.
+    private resumeRun (saved: SavedRun)
+    {
+        this.savedRuns.clear();
+        this.dailyDate = saved.dailyDate;
+        this.sim.restore(saved.snapshot);
+        // Practice slow-mo starts over at full speed.
+        if (this.isPractice())
+        {
+            this.sim.setGameSpeed(this.getGameSpeed());
+            this.checkpoints.record(this.sim.snapshot());
+        }
+        this.runAssisted = saved.assisted;
+        this.runResumed = true;
+        this.activeGhost = null;
+        this.achievements = this.isVersus() || this.isPractice() ? null : new AchievementTracker(this.sim.getDifficulty(), this.sim.getLives(), new StatsStore().getUnlocked());
+        this.trail = [];
+        // The page may have turned since; the next retry lays it out again.
+        this.rebuildPending = saved.layout !== getViewportOrientation(this.scale);
+        this.resumeData = null;
+        this.syncRestoredRun();
+        this.ghost.setVisible(false);
+        this.instructionText.setVisible(false);
+        EventBus.emit('bests-changed', { ...this.progress.getBestScores(this.isSlowedDown()) });
+        this.emitDailyStatus();
+        this.emitVersusStatus();
+        this.emitPracticeStatus();
+        EventBus.emit('state-changed', this.sim.getState());
+        // The scene can only be paused once it has finished being created.
+        this.events.once(Phaser.Scenes.Events.CREATE, this.pauseRun, this);
     }
 
-    private resumeFromLifeLoss = () =>
+    private toggleFreeze ()
     {
-        this.invulnerabilityTimer = undefined;
-        this.stopBlinking();
-
-        const body = this.bird.body as Phaser.Physics.Arcade.Body;
-        body.setAllowGravity(true);
-        body.setVelocity(0, 0);
-        this.bird.clearTint();
-        this.bird.setVisible(true);
+        if (this.isPractice() && this.isRunActive() && this.scene.isActive())
+        {
+            this.setFrozen(!this.frozen, false);
+        }
+    }
 
-        this.resumePipes();
-        this.setSpawnTimerPaused(false);
+    // Steps through the practice speeds. The change applies straight away.
+    private cyclePracticeSpeed ()
+    {
+        if (!this.isPractice())
+        {
+            return;
+        }
 
-        this.invulnerable = false;
-        this.state = 'playing';
-        this.updateDifficultyButtonsVisibility();
-    };
+        this.practiceSpeed = PRACTICE_SPEEDS[(PRACTICE_SPEEDS.indexOf(this.practiceSpeed) + 1) % PRACTICE_SPEEDS.length];
+        this.sim.setGameSpeed(this.getGameSpeed());
+        this.updateScoreboard();
+        this.emitPracticeStatus();
+    }
 
-    private enterGameOver ()
+    // The prompt in the bottom strip says how to carry on.
+    private setFrozen (frozen: boolean, hit: boolean)
     {
-        this.state = 'gameover';
-        this.updateDifficultyButtonsVisibility();
-        this.spawnTimer?.remove(false);
-        this.spawnTimer = undefined;
-        this.gameOverText.setVisible(true);
-        this.bird.setTint(0xff1744);
-        this.bird.setAngle(60);
+        this.frozen = frozen;
+        this.practiceHit = frozen && hit;
+        this.stepAccumulator = 0;
+        this.updateInstructionText();
+        this.instructionText.setVisible(frozen || this.sim.getState() === 'ready');
+        this.emitPracticeStatus();
+    }
 
-        this.pausePipes();
+    private emitPracticeStatus ()
+    {
+        EventBus.emit('practice-changed', this.isPractice()
+            ? { frozen: this.frozen, hit: this.practiceHit, speed: this.practiceSpeed, checkpoints: this.checkpoints.getCount() }
+            : null);
     }
 
-    private getPlayCenterY ()
+    private toggleAutopilot ()
     {
-        return this.playBounds.y + (this.playBounds.height * 0.5);
+        this.setAutopilot(this.autopilot === null);
     }
 
-    private generateHeartTextures ()
+    private toggleMute ()
     {
-        this.generateHeartTexture('heart-full', 0xff4f5f);
-        this.generateHeartTexture('heart-empty', 0x6b7c8b);
+        this.soundSystem.toggleMute();
     }
 
-    private generateHeartTexture (key: string, color: number)
+    // Only a run in progress can be paused; the ready and game over screens
+    // have nothing to freeze.
+    private pauseRun ()
     {
-        if (this.textures.exists(key))
+        if (!this.isRunActive() || !this.scene.isActive())
         {
             return;
         }
 
-        const width = 48;
-        const height = 40;
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-
-        graphics.fillStyle(color, 1);
-        graphics.fillCircle(width * 0.32, height * 0.35, width * 0.18);
-        graphics.fillCircle(width * 0.68, height * 0.35, width * 0.18);
-        graphics.fillTriangle(width * 0.08, height * 0.4, width * 0.92, height * 0.4, width * 0.5, height * 0.92);
+        this.scene.launch('Pause');
+        this.scene.pause();
+        EventBus.emit('state-changed', 'paused');
+    }
 
-        graphics.generateTexture(key, width, height);
-        graphics.destroy();
+    private handleResume ()
+    {
+        EventBus.emit('state-changed', this.sim.getState());
     }
 
-    private generatePipeTexture ()
+    // Difficulty only changes between runs, so a mid-run request is dropped.
+    // Courses and daily challenges carry their own difficulty.
+    private handleDifficultyCommand (level: Difficulty)
     {
-        if (this.textures.exists('pipe'))
+        if (this.replay || this.course || this.isDaily() || this.isRunActive())
         {
             return;
         }
 
-        const width = 90;
-        const height = 400;
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-        graphics.fillStyle(0x2eb872, 1);
-        graphics.fillRoundedRect(0, 0, width, height, 18);
-        graphics.lineStyle(8, 0x0c7438, 1);
-        graphics.strokeRoundedRect(0, 0, width, height, 18);
-        graphics.generateTexture('pipe', width, height);
-        graphics.destroy();
+        this.setDifficulty(level);
     }
 
-    private generateBirdTexture ()
+    private closeOverlays ()
     {
-        if (this.textures.exists('bird'))
+        this.scene.stop('Pause');
+        this.scene.stop('GameOver');
+
+        if (this.scene.isPaused())
         {
-            return;
+            this.scene.resume();
         }
+    }
 
-        const width = 96;
-        const height = 72;
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-
-        graphics.fillStyle(0x9c27b0, 1);
-        graphics.fillEllipse(width * 0.45, height * 0.55, width * 0.7, height * 0.7);
-
-        graphics.fillStyle(0x7b1fa2, 1);
-        graphics.fillEllipse(width * 0.35, height * 0.52, width * 0.5, height * 0.35);
-
-        graphics.fillStyle(0xf3e5f5, 1);
-        graphics.fillEllipse(width * 0.53, height * 0.58, width * 0.4, height * 0.3);
+    // Retrying after game over goes through the GameOver scene, so flaps
+    // here only ever start or steer a run. Ones the bird can't take yet are
+    // buffered for when it can; a versus bird that is out just watches.
+    private handleFlap = () =>
+    {
+        if (this.replay)
+        {
+            return;
+        }
+
+        if (this.frozen)
+        {
+            this.setFrozen(false, false);
+        }
+
+        const state = this.sim.getState();
+        const status = this.sim.getPlayerStatus();
+        if (state === 'gameover' || status === 'resuming')
+        {
+            this.flapBuffer.press(this.time.now);
+            return;
+        }
+
+        if (status === 'out')
+        {
+            return;
+        }
+
+        if (state === 'ready')
+        {
+            this.startRun();
+        }
+
+        if (this.sim.getState() === 'playing')
+        {
+            this.flapQueued = true;
+        }
+    };
+
+    // Player 2's flap in a versus run. Either player can start the round.
+    private handleRivalFlap = () =>
+    {
+        if (!this.isVersus())
+        {
+            return;
+        }
+
+        if (this.sim.getState() === 'ready')
+        {
+            this.startRun();
+        }
+
+        if (this.sim.getState() === 'playing' && this.sim.getPlayerStatus(1) === 'playing')
+        {
+            this.rivalFlapQueued = true;
+        }
+    };
+
+    // Taps forwarded from the page; the controller drops the copy of a tap
+    // the canvas already reported.
+    private handleFlapCommand ()
+    {
+        this.controls.trigger('flap', 'command');
+    }
+
+    // Daily runs spend an attempt up front, so quitting half way doesn't
+    // hand it back; with none left the scene just stays ready.
+    private startRun ()
+    {
+        const difficulty = this.sim.getDifficulty();
+        this.dailyDate = this.isDaily() ? getDailyDate() : null;
+
+        if (this.dailyDate !== null && !this.dailyStore.startAttempt(this.dailyDate))
+        {
+            this.updateInstructionText();
+            this.emitDailyStatus();
+            return;
+        }
+
+        // A ghost races on its own seed, so both birds face the same pipes.
+        // Only a race run started from the menu takes the ghost's seed; any
+        // other run keeps a seed of its own and shows no ghost. Courses and
+        // daily challenges lay out their own pipes, and versus rounds have a
+        // rival already, so ghosts never race on them. Ghost trails are
+        // recorded at full speed in landscape, so neither do slowed or
+        // portrait runs.
+        const ghostEnabled = !this.replay && !this.course && this.dailyDate === null && !this.isVersus() && !this.isSlowedDown() && this.isLandscape() && this.progress.getSettings().ghostEnabled;
+        const ghost = ghostEnabled ? this.ghostStore.getRace(difficulty, this.raceGhost, this.fixedSeed) : null;
+        const dailySeed = this.dailyDate === null ? null : getDailySeed(this.dailyDate);
+        const seed = this.replay?.seed ?? dailySeed ?? this.fixedSeed ?? ghost?.seed ?? createRandomSeed();
+        this.savedRuns.clear();
+        this.runResumed = false;
+        this.sim.setInfiniteLives(this.isPractice());
+        this.handleSimEvents(this.sim.start(seed, this.course && fitCourseToLayout(this.course, this.layout)));
+        this.checkpoints.clear();
+        if (this.isPractice())
+        {
+            this.checkpoints.record(this.sim.snapshot());
+        }
+        this.activeGhost = ghost && ghost.seed === this.sim.getSeed() ? ghost : null;
+        this.autopilot?.reset(this.sim.getSeed());
+        this.runAssisted = this.autopilot !== null && !this.replay;
+        this.runTuned = this.tuning !== null && !this.replay;
+        this.achievements = this.replay || this.isVersus() || this.isPractice() || this.runTuned ? null : new AchievementTracker(difficulty, this.sim.getLives(), new StatsStore().getUnlocked());
+        this.trail = [];
+        this.stepAccumulator = 0;
+        this.flapQueued = false;
+        this.rivalFlapQueued = false;
+        this.replayCursor = 0;
+
+        const bird = this.sim.getBird();
+        this.ghost.setPosition(bird.x, bird.y).setAngle(0).setVisible(this.activeGhost !== null);
+        this.ghostMarker.setVisible(false);
+        this.instructionText.setVisible(false);
+        this.syncBird();
+        this.syncPipes();
+        this.emitDailyStatus();
+        this.emitVersusStatus();
+        this.setFrozen(false, false);
+        EventBus.emit('state-changed', 'playing');
+    }
+
+    private step ()
+    {
+        const state = this.sim.getState();
+        const queuedFlap = this.consumeFlap();
+        const rivalFlap = this.consumeRivalFlap();
+        const flap = this.autopilot && !this.replay ? this.autopilot.decide(this.sim) : queuedFlap;
+
+        if (state !== 'playing' && state !== 'resuming')
+        {
+            this.handleSimEvents(this.sim.step());
+            return;
+        }
+
+        const events = this.sim.step(this.sim.getPlayerCount() > 1 ? [flap, rivalFlap] : flap);
+
+        if (this.achievements && !this.runAssisted)
+        {
+            this.unlockAchievements(this.achievements.handle(events));
+        }
+
+        if (state === 'playing')
+        {
+            const dx = this.sim.getPipeSpeed() * (this.sim.config.stepMs / 1000);
+            this.backdrop.scroll(dx);
+            if (this.ghostMarker.visible)
+            {
+                this.ghostMarker.x += dx;
+            }
+        }
+
+        this.recordTrailPoint();
+        this.updateGhost();
+        this.handleSimEvents(events);
+    }
+
+    // Live runs take the queued player flap; replays take the flap scheduled
+    // for the current tick instead. Flaps outside of play are dropped.
+    private consumeFlap ()
+    {
+        const queued = this.flapQueued;
+        this.flapQueued = false;
+
+        if (this.sim.getState() !== 'playing')
+        {
+            return false;
+        }
+
+        if (!this.replay)
+        {
+            return queued;
+        }
+
+        const tick = this.sim.getTick();
+        const { flaps } = this.replay;
+        while (this.replayCursor < flaps.length && flaps[this.replayCursor] < tick)
+        {
+            this.replayCursor += 1;
+        }
+
+        if (flaps[this.replayCursor] === tick)
+        {
+            this.replayCursor += 1;
+            return true;
+        }
+
+        return false;
+    }
+
+    private consumeRivalFlap ()
+    {
+        const queued = this.rivalFlapQueued;
+        this.rivalFlapQueued = false;
+        return queued && this.sim.getState() === 'playing';
+    }
+
+    // Versus events carry the bird they are about. The power-up strip and
+    // the single-player HUD fields follow player 1; slow-mo affects the
+    // whole course, so it shows whoever picked it up.
+    private handleSimEvents (events: SimEvent[])
+    {
+        events.forEach((event) =>
+        {
+            switch (event.type)
+            {
+                case 'flap':
+                    this.soundSystem.play('flap');
+                    break;
+                case 'score':
+                    this.soundSystem.play('score');
+                    this.updateScoreboard();
+                    if (playerOf(event) === 0)
+                    {
+                        EventBus.emit('score-changed', event.score);
+                    }
+                    if (this.isPractice() && isCheckpointScore(event.score))
+                    {
+                        this.checkpoints.record(this.sim.snapshot());
+                        this.emitPracticeStatus();
+                    }
+                    this.emitVersusStatus();
+                    break;
+                case 'tier-changed':
+                    this.updateScoreboard();
+                    EventBus.emit('tier-changed', event.tier, this.sim.getRamp().tiers);
+                    break;
+                case 'power-up-collected':
+                    this.soundSystem.play('power-up');
+                    if (event.kind === 'slowmo' || playerOf(event) === 0)
+                    {
+                        this.handlePowerUpCollected(event.kind);
+                    }
+                    this.updateLivesDisplay();
+                    this.emitVersusStatus();
+                    break;
+                case 'power-up-expired':
+                    if (event.kind === 'slowmo' || playerOf(event) === 0)
+                    {
+                        EventBus.emit('power-up-ended', event.kind);
+                    }
+                    break;
+                case 'shield-broken':
+                    this.soundSystem.play('hit');
+                    if (!this.accessibility.reducedMotion)
+                    {
+                        this.cameras.main.flash(150, 130, 177, 255);
+                    }
+                    if (playerOf(event) === 0)
+                    {
+                        EventBus.emit('power-up-ended', 'shield');
+                    }
+                    break;
+                case 'life-lost':
+                    this.soundSystem.play('hit');
+                    this.soundSystem.play('life-lost');
+                    this.handleLifeLost(playerOf(event));
+                    // Practice runs stop on the crash and offer a rewind.
+                    if (this.isPractice())
+                    {
+                        this.setFrozen(true, true);
+                    }
+                    break;
+                case 'resumed':
+                    this.resumeFromLifeLoss(playerOf(event));
+                    break;
+                case 'player-out':
+                    this.soundSystem.play('hit');
+                    this.soundSystem.play('life-lost');
+                    this.handlePlayerOut(event.player);
+                    break;
+                case 'game-over':
+                    this.soundSystem.play('hit');
+                    this.soundSystem.play('game-over');
+                    this.enterGameOver();
+                    break;
+                case 'course-complete':
+                    this.soundSystem.play('course-complete');
+                    this.enterGameOver();
+                    break;
+            }
+        });
+    }
+
+    private syncBird ()
+    {
+        const playing = this.sim.getState() === 'playing';
+
+        this.getBirdSprites().forEach((sprite, player) =>
+        {
+            const bird = this.sim.getBird(player);
+            const shield = player === 0 ? this.shieldBubble : this.rivalShield;
+            sprite.setPosition(bird.x, bird.y);
+            shield.setPosition(bird.x, bird.y).setVisible(this.sim.isShielded(player));
+
+            if (playing && this.sim.getPlayerStatus(player) === 'playing')
+            {
+                sprite.setAngle(Phaser.Math.Clamp(bird.velocityY / 5, -25, 60));
+            }
+        });
+    }
+
+    // One sprite per bird in the simulation, player 1 first.
+    private getBirdSprites ()
+    {
+        return this.sim.getPlayerCount() > 1 ? [this.bird, this.rival] : [this.bird];
+    }
+
+    // Pipe sprites mirror the simulation's segment list by id: new segments
+    // get a sprite, moved ones follow, and ones the simulation dropped are
+    // freed. Pipes are stretched to their segment, since gaps can move.
+    private syncPipes ()
+    {
+        const live = new Set<number>();
+
+        this.sim.getPipes().forEach((pipe) =>
+        {
+            live.add(pipe.id);
+            let sprite = this.pipeSprites.get(pipe.id);
+
+            if (!sprite)
+            {
+                sprite = this.createPipe(pipe);
+                this.pipeSprites.set(pipe.id, sprite);
+            }
+
+            if (pipe.kind === 'hazard')
+            {
+                sprite.setPosition(pipe.x, (pipe.top + pipe.bottom) * 0.5);
+                sprite.setAngle(-pipe.x);
+            }
+            else
+            {
+                sprite.setPosition(pipe.x, pipe.top);
+                sprite.setDisplaySize(pipe.width, Math.max(1, pipe.bottom - pipe.top));
+            }
+        });
+
+        this.pipeSprites.forEach((sprite, id) =>
+        {
+            if (!live.has(id))
+            {
+                sprite.destroy();
+                this.pipeSprites.delete(id);
+            }
+        });
+    }
+
+    private syncFinishLine ()
+    {
+        const finishX = this.sim.getFinishX();
+        this.finishLine.setVisible(finishX !== null && finishX < this.scale.width + this.finishLine.width);
+
+        if (finishX !== null)
+        {
+            this.finishLine.setX(finishX);
+        }
+    }
+
+    private syncPowerUps ()
+    {
+        const live = new Set<number>();
+
+        this.sim.getPowerUps().forEach((powerUp) =>
+        {
+            live.add(powerUp.id);
+            let sprite = this.powerUpSprites.get(powerUp.id);
+
+            if (!sprite)
+            {
+                sprite = this.add.image(0, 0, `power-${powerUp.kind}`);
+                this.powerUpSprites.set(powerUp.id, sprite);
+            }
+
+            sprite.setPosition(powerUp.x, powerUp.y);
+        });
+
+        this.powerUpSprites.forEach((sprite, id) =>
+        {
+            if (!live.has(id))
+            {
+                sprite.destroy();
+                this.powerUpSprites.delete(id);
+            }
+        });
+    }
+
+    private handlePowerUpCollected (kind: PowerUpKind)
+    {
+        if (kind === 'heart')
+        {
+            this.updateLivesDisplay();
+            EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+            return;
+        }
+
+        const durationMs = kind === 'shield' ? this.sim.getShieldRemaining() : this.sim.getSlowMoRemaining();
+        const indicator = this.powerUpIndicators[kind];
+        if (indicator)
+        {
+            indicator.durationMs = durationMs;
+        }
+        EventBus.emit('power-up-started', kind, durationMs);
+    }
+
+    private recordTrailPoint ()
+    {
+        const bird = this.sim.getBird();
+        this.trail.push([Math.round(bird.x), Math.round(bird.y)]);
+    }
+
+    // Trail entry N holds the bird's position after tick N + 1, so the ghost
+    // reads the entry for the tick the live bird has just completed.
+    private updateGhost ()
+    {
+        if (!this.activeGhost || !this.ghost.visible)
+        {
+            return;
+        }
+
+        const { trail } = this.activeGhost;
+        const index = this.sim.getTick() - 1;
+
+        if (index >= trail.length)
+        {
+            this.ghost.setVisible(false);
+            this.ghostMarker.setPosition(this.ghost.x, this.ghost.y).setVisible(true);
+            return;
+        }
+
+        const [x, y] = trail[index];
+        const previousY = index > 0 ? trail[index - 1][1] : y;
+        const velocityY = (y - previousY) / (this.sim.config.stepMs / 1000);
+
+        this.ghost.setPosition(x, y);
+        this.ghost.setAngle(Phaser.Math.Clamp(velocityY / 5, -25, 60));
+    }
+
+    private resetScene ()
+    {
+        const versus = this.isVersus();
+        const canvasHud = this.hudMode === 'canvas';
+        this.sim.setPlayerCount(versus ? 2 : 1);
+        this.sim.setGameSpeed(this.getGameSpeed());
+        this.dailyDate = null;
+        this.submittable = null;
+        this.setSubmission({ state: 'idle' });
+        this.readyWave = 0;
+        this.stepAccumulator = 0;
+        this.flapQueued = false;
+        this.rivalFlapQueued = false;
+        this.flapBuffer.clear();
+        this.gameOverEvent?.remove(false);
+        this.gameOverEvent = undefined;
+        this.clearInvulnerability();
+        this.updateScoreboard();
+        this.updateInstructionText();
+        this.instructionText.setVisible(true);
+        this.syncPipes();
+        this.syncPowerUps();
+        this.syncFinishLine();
+        this.updatePowerUpIndicators();
+        this.bird.clearTint();
+        this.rival.setTint(RIVAL_TINT).setAngle(0).setVisible(versus);
+        this.rivalShield.setVisible(false);
+        this.syncBird();
+        this.bird.setAngle(0);
+        this.activeGhost = null;
+        this.ghost.setVisible(false);
+        this.ghostMarker.setVisible(false);
+        this.checkpoints.clear();
+        this.frozen = false;
+        this.practiceHit = false;
+        this.emitPracticeStatus();
+        this.updateLivesDisplay();
+        // The canvas HUD swaps the best scores for player 2's hearts. Large
+        // text moves the score to the right, in place of the best scores.
+        // Portrait has no room for them and gives the score its own row.
+        const scoreOnRight = this.accessibility.largeText && !versus && this.isLandscape();
+        this.scoreText.setOrigin(scoreOnRight ? 1 : 0.5, 0.5).setX(scoreOnRight ? this.scale.width - 24 : this.scale.width * 0.5);
+        this.bestText.setVisible(canvasHud && !versus && !this.accessibility.largeText && this.isLandscape());
+        this.rivalLifeIcons.forEach((icon) => icon.setVisible(canvasHud && versus));
+        EventBus.emit('state-changed', 'ready');
+        EventBus.emit('score-changed', 0);
+        EventBus.emit('tier-changed', this.sim.getTier(), this.sim.getRamp().tiers);
+        EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+        EventBus.emit('bests-changed', { ...this.progress.getBestScores(this.isSlowedDown()) });
+        EventBus.emit('course-changed', this.course);
+        this.emitDailyStatus();
+        this.emitVersusStatus();
+    }
+
+    private setSubmission (status: SubmissionStatus)
+    {
+        this.submission = status;
+        EventBus.emit('leaderboard-changed', status);
+    }
+
+    private emitDailyStatus ()
+    {
+        EventBus.emit('daily-changed', this.isDaily() ? this.dailyStore.getStatus(this.dailyDate ?? getDailyDate()) : null);
+    }
+
+    private emitVersusStatus ()
+    {
+        EventBus.emit('versus-changed', this.sim.getPlayerCount() > 1 ? this.getVersusPlayers() : null);
+    }
+
+    private getVersusPlayers (): VersusPlayer[]
+    {
+        return this.getBirdSprites().map((_, player) => ({
+            score: this.sim.getScore(player),
+            lives: this.sim.getLives(player),
+            status: this.sim.getPlayerStatus(player)
+        }));
+    }
+
+    private createPipe ({ kind, width, isTop }: Readonly<PipeState>)
+    {
+        if (kind === 'hazard')
+        {
+            return this.add.image(0, 0, 'hazard').setDisplaySize(width, width);
+        }
+
+        const pipe = this.add.image(0, 0, 'pipe');
+        pipe.setOrigin(0.5, 0);
+        pipe.setFlipY(isTop);
+        return pipe;
+    }
+
+    private updateScoreboard ()
+    {
+        if (!this.scoreText)
+        {
+            return;
+        }
+
+        const score = this.sim.getScore();
+        const difficulty = this.sim.getDifficulty();
+        const bests = this.progress.getBestScores();
+        this.bestText.setText(`BEST\nE ${bests.easy}  M ${bests.medium}  H ${bests.hard}`);
+
+        if (this.sim.getPlayerCount() > 1)
+        {
+            this.scoreText.setText(`P1 ${score}  -  P2 ${this.sim.getScore(1)}  ${difficulty.toUpperCase()} T${this.sim.getTier()}`);
+            return;
+        }
+
+        const best = Math.max(score, this.progress.getBest(difficulty, this.isSlowedDown()));
+        const mode = `${this.replay ? 'REPLAY ' : this.autopilot ? 'AUTO ' : this.isPractice() ? 'PRACTICE ' : ''}${this.isSlowedDown() ? `${describeGameSpeed(this.sim.getGameSpeed())} ` : ''}`;
+        const label = this.course
+            ? `${mode}${this.course.name.toUpperCase()}`
+            : `${mode}${this.isDaily() ? 'DAILY' : difficulty.toUpperCase()} T${this.sim.getTier()}`;
+        this.scoreText.setText(`Score: ${score}  Best: ${best}  ${label}`);
+    }
+
+    private updateInstructionText ()
+    {
+        if (!this.instructionText || !this.controls)
+        {
+            return;
+        }
+
+        const bindings = this.controls.getBindings();
+        const flapKey = describeKey(bindings.flap[0]);
+        const pauseKey = describeKey(bindings.pause[0]);
+
+        if (this.isVersus())
+        {
+            this.instructionText.setText(`P1 ${flapKey}  -  P2 ${describeKey(bindings.flap2[0])}  -  ${pauseKey} to pause`);
+            return;
+        }
+
+        if (this.isPractice())
+        {
+            const rewindKey = describeKey(bindings.rewind[0]);
+            this.instructionText.setText(this.frozen
+                ? `${this.practiceHit ? 'Hit!  ' : ''}${rewindKey} to rewind  -  ${flapKey} to carry on`
+                : `Practice  -  ${flapKey} flap  -  ${rewindKey} rewind  -  ${describeKey(bindings.freeze[0])} freeze  -  ${describeKey(bindings.slow[0])} slow-mo`);
+            return;
+        }
+
+        if (this.isDaily() && this.sim.getState() === 'ready')
+        {
+            const { date, attemptsLeft } = this.dailyStore.getStatus(getDailyDate());
+            this.instructionText.setText(attemptsLeft > 0
+                ? `Daily ${date}  -  ${attemptsLeft} of ${DAILY_ATTEMPTS} attempts left  -  ${flapKey} to start`
+                : `No daily attempts left for ${date}  -  come back tomorrow`);
+            return;
+        }
+
+        this.instructionText.setText(`Tap or press ${flapKey} to flap  -  ${pauseKey} to pause`);
+    }
+
+    private isDaily ()
+    {
+        return this.mode === 'daily' && !this.replay && !this.course;
+    }
+
+    private isVersus ()
+    {
+        return this.mode === 'versus' && !this.replay && !this.course;
+    }
+
+    // Unlike the other modes, practice works on courses too.
+    private isPractice ()
+    {
+        return this.mode === 'practice' && !this.replay;
+    }
+
+    private isLandscape ()
+    {
+        return this.layout.orientation === 'landscape';
+    }
+
+    private isRunActive ()
+    {
+        const state = this.sim.getState();
+        return state === 'playing' || state === 'resuming';
+    }
 
-        graphics.fillStyle(0xffb74d, 1);
-        graphics.fillTriangle(width * 0.78, height * 0.47, width * 0.96, height * 0.53, width * 0.78, height * 0.59);
+    // Player 2's hearts mirror player 1's from the right edge.
+    private createLivesDisplay ()
+    {
+        [...this.lifeIcons, ...this.rivalLifeIcons].forEach((icon) => icon.destroy());
+        this.lifeIcons = [];
+        this.rivalLifeIcons = [];
+
+        const startX = 70;
+        const spacing = 50;
+        const y = this.layout.livesY;
+
+        for (let i = 0; i < this.sim.config.maxLives; i++)
+        {
+            const heart = this.add.image(startX + (i * spacing), y, 'heart-full');
+            heart.setDepth(12);
+            heart.setScale(0.75);
+            this.lifeIcons.push(heart);
+
+            const rivalHeart = this.add.image(this.scale.width - startX - (i * spacing), y, 'heart-full');
+            rivalHeart.setDepth(12);
+            rivalHeart.setScale(0.75);
+            rivalHeart.setVisible(false);
+            this.rivalLifeIcons.push(rivalHeart);
+        }
+    }
+
+    // Timed power-ups show as an icon with a draining bar in the bottom strip.
+    private createPowerUpIndicators ()
+    {
+        const y = this.scale.height - (this.layout.hudBottom * 0.5);
 
-        graphics.fillStyle(0xba68c8, 1);
-        graphics.fillRoundedRect(width * 0.08, height * 0.5, width * 0.18, height * 0.18, 16);
+        TIMED_POWER_UPS.forEach((kind, index) =>
+        {
+            const x = 40 + (index * 130);
+            const icon = this.add.image(x, y, `power-${kind}`).setScale(0.8).setDepth(12);
+            const track = this.add.rectangle(x + 26, y, 80, 10, 0x000000, 0.5).setOrigin(0, 0.5).setDepth(12);
+            const bar = this.add.rectangle(x + 26, y, 80, 10, 0xffffff, 1).setOrigin(0, 0.5).setDepth(12);
+            this.powerUpIndicators[kind] = { icon, bar, track, durationMs: 1 };
+        });
+    }
 
-        graphics.fillStyle(0x000000, 1);
-        graphics.fillCircle(width * 0.63, height * 0.38, 7);
-        graphics.fillStyle(0xffffff, 1);
-        graphics.fillCircle(width * 0.66, height * 0.36, 3);
+    private updatePowerUpIndicators ()
+    {
+        const remaining: Record<TimedPowerUp, number> = {
+            shield: this.sim.getShieldRemaining(),
+            slowmo: this.sim.getSlowMoRemaining()
+        };
+
+        TIMED_POWER_UPS.forEach((kind) =>
+        {
+            const indicator = this.powerUpIndicators[kind];
+            if (!indicator)
+            {
+                return;
+            }
+
+            const visible = this.hudMode === 'canvas' && remaining[kind] > 0;
+            indicator.icon.setVisible(visible);
+            indicator.track.setVisible(visible);
+            indicator.bar.setVisible(visible);
+            indicator.bar.setScale(Phaser.Math.Clamp(remaining[kind] / indicator.durationMs, 0, 1), 1);
+        });
+    }
+
+    private updateLivesDisplay ()
+    {
+        if (!this.lifeIcons.length)
+        {
+            return;
+        }
+
+        const lives = this.sim.getLives();
+        this.lifeIcons.forEach((icon, index) =>
+        {
+            icon.setTexture(index < lives ? 'heart-full' : 'heart-empty');
+        });
+
+        const rivalLives = this.sim.getPlayerCount() > 1 ? this.sim.getLives(1) : 0;
+        this.rivalLifeIcons.forEach((icon, index) =>
+        {
+            icon.setTexture(index < rivalLives ? 'heart-full' : 'heart-empty');
+        });
+    }
+
+    // One timer blinks every respawning bird, so versus birds that lose a
+    // life close together blink in step. Reduced motion dims them instead.
+    private startBlinking ()
+    {
+        if (this.accessibility.reducedMotion)
+        {
+            this.getBirdSprites().forEach((sprite, player) =>
+            {
+                if (this.sim.getPlayerStatus(player) === 'resuming')
+                {
+                    sprite.setAlpha(0.5);
+                }
+            });
+            return;
+        }
 
-        graphics.generateTexture('bird', width, height);
-        graphics.destroy();
+        if (this.blinkEvent)
+        {
+            return;
+        }
+
+        this.blinkEvent = this.time.addEvent({
+            delay: 140,
+            loop: true,
+            callback: () =>
+            {
+                this.getBirdSprites().forEach((sprite, player) =>
+                {
+                    if (this.sim.getPlayerStatus(player) === 'resuming')
+                    {
+                        sprite.setVisible(!sprite.visible);
+                    }
+                });
+            }
+        });
+    }
+
+    private stopBlinking ()
+    {
+        this.blinkEvent?.remove(false);
+        this.blinkEvent = undefined;
+        this.getBirdSprites().forEach((sprite) => sprite.setVisible(true).setAlpha(1));
+    }
+
+    private isAnyBirdResuming ()
+    {
+        return this.getBirdSprites().some((_, player) => this.sim.getPlayerStatus(player) === 'resuming');
+    }
+
+    private clearInvulnerability ()
+    {
+        this.stopBlinking();
+
+        if (this.bird)
+        {
+            this.bird.setVisible(true);
+            this.bird.clearTint();
+        }
+    }
+
+    // In versus the other bird keeps flying, so the run never shows as
+    // resuming.
+    private handleLifeLost (player: number)
+    {
+        const sprite = this.getBirdSprites()[player];
+        this.updateLivesDisplay();
+        this.syncBird();
+        sprite.setAngle(0);
+        sprite.setVisible(true);
+        sprite.setTint(0xfff082);
+        this.startBlinking();
+        EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+        this.emitVersusStatus();
+
+        if (this.sim.getState() === 'resuming')
+        {
+            EventBus.emit('state-changed', 'resuming');
+        }
+    }
+
+    private resumeFromLifeLoss (player: number)
+    {
+        const sprite = this.getBirdSprites()[player];
+        if (!this.isAnyBirdResuming())
+        {
+            this.stopBlinking();
+        }
+        if (player === 0)
+        {
+            sprite.clearTint();
+        }
+        else
+        {
+            sprite.setTint(RIVAL_TINT);
+        }
+        sprite.setVisible(true).setAlpha(1);
+
+        if (player === 0)
+        {
+            this.flapQueued = this.flapBuffer.consume(this.time.now) && !this.autopilot;
+        }
+        this.emitVersusStatus();
+        EventBus.emit('state-changed', 'playing');
+    }
+
+    // A versus bird out of lives drops to the floor and watches the rest of
+    // the round.
+    private handlePlayerOut (player: number)
+    {
+        const sprite = this.getBirdSprites()[player];
+        if (!this.isAnyBirdResuming())
+        {
+            this.stopBlinking();
+        }
+        sprite.setVisible(true).setAlpha(1);
+        sprite.setTint(0xff1744);
+        sprite.setAngle(60);
+        this.updateLivesDisplay();
+        EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+        this.emitVersusStatus();
+    }
+
+    // Stats are read fresh for every write, so a file imported on the stats
+    // page is never overwritten by a stale copy. The React HUD shows its own
+    // toasts.
+    private unlockAchievements (earned: Achievement[], stats = new StatsStore())
+    {
+        if (earned.length === 0)
+        {
+            return;
+        }
+
+        stats.unlock(earned.map((achievement) => achievement.id));
+        earned.forEach((achievement) => EventBus.emit('achievement-unlocked', achievement));
+
+        if (this.hudMode === 'canvas')
+        {
+            this.achievementText.setText(earned.map((achievement) => `Achievement: ${achievement.name}`).join('\n')).setVisible(true);
+            this.achievementEvent?.remove(false);
+            this.achievementEvent = this.time.delayedCall(2500, () =>
+            {
+                this.achievementEvent = undefined;
+                this.achievementText.setVisible(false);
+            });
+        }
+    }
+
+    private getDailyResult (score: number): DailyResult | null
+    {
+        if (this.dailyDate === null || !this.isDaily())
+        {
+            return null;
+        }
+
+        const rank = this.dailyStore.recordResult(this.dailyDate, score);
+        return { ...this.dailyStore.getStatus(this.dailyDate), rank, results: this.dailyStore.getResults(this.dailyDate) };
+    }
+
+    // Versus rounds are never recorded: replays, ghosts, bests and the
+    // leaderboard all follow a single bird. Practice runs, with their rewinds
+    // and endless hearts, aren't either, and nor are tuned ones.
+    private enterGameOver ()
+    {
+        const versus = this.sim.getPlayerCount() > 1 ? { players: this.getVersusPlayers(), winner: this.sim.getWinner() } : null;
+        const score = versus ? Math.max(...versus.players.map((player) => player.score)) : this.sim.getScore();
+        const difficulty = this.sim.getDifficulty();
+        const seed = this.sim.getSeed();
+        const isReplay = this.replay !== null;
+        const practice = this.isPractice();
+        const courseComplete = this.sim.isCourseComplete();
+        const gameSpeed = this.sim.getGameSpeed();
+        const slowed = this.isSlowedDown();
+        const unlockedBefore = getUnlockedThemes(this.progress.getBestScores());
+        let isNewBest = false;
+        this.savedRuns.clear();
+
+        if (this.achievements && !this.runAssisted)
+        {
+            const stats = new StatsStore();
+            stats.recordRun(this.achievements.getStats(), this.sim.getTick() * this.sim.config.stepMs);
+            this.unlockAchievements(this.achievements.finish(stats.getTotals()), stats);
+        }
+        this.achievements = null;
+
+        if (!isReplay && !versus && !practice && !this.runTuned)
+        {
+            // Daily runs have a table of their own, so they never count
+            // towards the regular bests or the online board.
+            const daily = this.dailyDate !== null;
+            if (!this.runAssisted && !this.course && !daily)
+            {
+                isNewBest = this.progress.recordRun(difficulty, score, slowed);
+                if (!slowed && this.isLandscape() && !this.runResumed)
+                {
+                    this.ghostStore.submit({ seed, difficulty, score, trail: this.trail });
+                }
+            }
+
+            this.lastReplay = {
+                version: REPLAY_VERSION,
+                seed,
+                difficulty,
+                flaps: [...this.sim.getFlapTicks()],
+                ticks: this.sim.getTick(),
+                score,
+                recordedAt: new Date().toISOString(),
+                ...(this.course && { course: this.course }),
+                ...(slowed && { gameSpeed }),
+                ...(!this.isLandscape() && { layout: this.layout.orientation })
+            };
+            EventBus.emit('replay-recorded', this.lastReplay);
+
+            if (this.leaderboard && !this.runAssisted && !this.course && !daily && !slowed && score > 0)
+            {
+                this.submittable = this.lastReplay;
+            }
+        }
+
+        const summary: RunSummary = {
+            score,
+            best: this.progress.getBest(difficulty, slowed),
+            isNewBest,
+            pipesCleared: score,
+            durationMs: this.sim.getTick() * this.sim.config.stepMs,
+            seed,
+            difficulty,
+            isReplay,
+            assisted: this.runAssisted,
+            practice,
+            tuned: this.runTuned,
+            gameSpeed,
+            courseName: this.course?.name ?? null,
+            courseComplete,
+            daily: this.getDailyResult(score),
+            leaderboard: this.submittable ? { playerName: this.progress.getSettings().playerName } : null,
+            versus,
+            unlockedThemes: getUnlockedThemes(this.progress.getBestScores())
+                .filter((theme) => !unlockedBefore.includes(theme))
+                .map((theme) => theme.name)
+        };
+
+        this.updateLivesDisplay();
+        this.updateScoreboard();
+        if (!courseComplete)
+        {
+            this.bird.setTint(0xff1744);
+            this.bird.setAngle(60);
+        }
+        EventBus.emit('lives-changed', this.sim.getLives(), this.sim.config.maxLives);
+        EventBus.emit('bests-changed', { ...this.progress.getBestScores(slowed) });
+        EventBus.emit('state-changed', 'gameover');
+        EventBus.emit('run-ended', summary);
+
+        // The React HUD draws its own results panel.
+        if (this.hudMode === 'dom')
+        {
+            return;
+        }
+
+        // Give the bird a moment to fall before the results cover the course.
+        this.gameOverEvent = this.time.delayedCall(700, () =>
+        {
+            this.gameOverEvent = undefined;
+            this.scene.launch('GameOver', summary);
+        });
     }
 }
@@ -0,0 +1,186 @@
+import Phaser from 'phaser';
+import { EventBus } from '../EventBus';
+import { InputController } from '../input/InputController';
+import { canSubmit, describeSubmission, SubmissionStatus } from '../leaderboard/Leaderboard';
+import { Button, createButton, styleButton } from '../ui/Button';
+import { describeGameSpeed, describeUnlockedThemes, describeWinner, formatDuration } from '../ui/format';
+import { getLayout } from '../ui/Layout';
+import type { DailyResult, Game, RunSummary } from './Game';
+
+// Results overlay launched on top of the Game scene once a run ends. The Game
+// scene keeps running underneath so the bird can settle on the floor.
+export class GameOver extends Phaser.Scene
+{
+    private summary!: RunSummary;
+    private retryKey?: Phaser.Input.Keyboard.Key;
+    private submitButton?: Button;
+    private submissionText?: Phaser.GameObjects.Text;
+
+    constructor ()
+    {
+        super('GameOver');
+    }
+
+    init (summary: RunSummary)
+    {
+        this.summary = summary;
+        this.submitButton = undefined;
+        this.submissionText = undefined;
+    }
+
+    create ()
+    {
+        const { width, height } = this.scale;
+        const { score, best, isNewBest, pipesCleared, durationMs, seed, difficulty, isReplay, assisted, practice, tuned, gameSpeed, courseName, courseComplete, daily, versus, unlockedThemes } = this.summary;
+        const title = versus ? describeWinner(versus.winner) : courseComplete ? 'Course Complete!' : isReplay ? 'Replay Over' : 'Game Over';
+        // Daily runs get a wider panel with the day's table on the right. A
+        // portrait screen has no room beside the stats, so the panel grows
+        // downwards instead and everything above the table moves up.
+        const tableBelow = daily !== null && getLayout(this.scale).orientation === 'portrait';
+        const tableBeside = daily !== null && !tableBelow;
+        const shift = tableBelow ? 130 : 0;
+        const statsX = tableBeside ? width * 0.5 - 150 : width * 0.5;
+
+        this.add.rectangle(width * 0.5, height * 0.5, width, height, 0x031b2b, 0.55);
+        this.add.rectangle(width * 0.5, height * 0.5, tableBeside ? 760 : 520, 400 + (shift * 2), 0x0b2033, 0.9).setStrokeStyle(3, 0xffffff, 0.5);
+
+        this.add.text(width * 0.5, height * 0.5 - 150 - shift, title, {
+            fontFamily: 'Arial Black',
+            fontSize: '48px',
+            color: '#ffeb3b',
+            stroke: '#000000',
+            strokeThickness: 8
+        }).setOrigin(0.5);
+
+        const speedNote = gameSpeed < 1 ? describeGameSpeed(gameSpeed) : '';
+        const note = isNewBest
+            ? (speedNote ? `New best at ${speedNote}!` : 'New best!')
+            : practice ? 'Practice run - not recorded' : tuned ? 'Tuned run - not recorded' : assisted ? 'Autopilot run - not recorded' : speedNote ? `Assisted run - ${speedNote}` : '';
+        this.add.text(width * 0.5, height * 0.5 - 100 - shift, note, {
+            fontFamily: 'Arial Black',
+            fontSize: '20px',
+            color: isNewBest ? '#ffbe0b' : '#b0bec5'
+        }).setOrigin(0.5);
+
+        if (unlockedThemes.length > 0)
+        {
+            this.add.text(width * 0.5, height * 0.5 - 76 - shift, describeUnlockedThemes(unlockedThemes), {
+                fontFamily: 'Arial Black',
+                fontSize: '16px',
+                color: '#ffbe0b'
+            }).setOrigin(0.5);
+        }
+
+        const scoreLines = versus
+            ? versus.players.map((player, index) => `Player ${index + 1}: ${player.score}`)
+            : [`Score: ${score}`, courseName === null ? `${speedNote ? 'Assisted best' : 'Best'} (${difficulty}): ${best}` : `Course: ${courseName}`];
+        const lines = [
+            ...scoreLines,
+            `Pipes cleared: ${pipesCleared}`,
+            `Time: ${formatDuration(durationMs)}`,
+            courseName === null ? `Seed: ${seed}` : `Difficulty: ${difficulty}`
+        ];
+        this.add.text(statsX, height * 0.5 - 5 - shift, lines.join('\n'), {
+            fontFamily: 'Arial Black',
+            fontSize: '22px',
+            color: '#ffffff',
+            align: 'center',
+            lineSpacing: 4
+        }).setOrigin(0.5);
+
+        if (daily)
+        {
+            this.createDailyTable(tableBelow ? width * 0.5 : width * 0.5 + 200, tableBelow ? height * 0.5 - 40 : height * 0.5 - 85, daily);
+        }
+
+        // Runs that can go online get a SUBMIT button between the other two.
+        const buttonY = height * 0.5 + 145 + shift;
+        const buttonWidth = this.summary.leaderboard ? 160 : 220;
+        const buttonOffset = this.summary.leaderboard ? 180 : 120;
+        const retryButton = createButton(this, width * 0.5 - buttonOffset, buttonY, buttonWidth, 52, isReplay ? 'WATCH AGAIN' : 'RETRY', this.retry);
+        styleButton(retryButton, true);
+        createButton(this, width * 0.5 + buttonOffset, buttonY, buttonWidth, 52, 'MENU', this.returnToMenu);
+
+        if (this.summary.leaderboard)
+        {
+            this.submitButton = createButton(this, width * 0.5, buttonY, buttonWidth, 52, 'SUBMIT', this.submit);
+            this.submissionText = this.add.text(width * 0.5, height * 0.5 + 95 + shift, '', {
+                fontFamily: 'Arial Black',
+                fontSize: '16px',
+                color: '#b0bec5',
+                align: 'center'
+            }).setOrigin(0.5);
+            this.showSubmission((this.scene.get('Game') as Game).getSubmission());
+            EventBus.on('leaderboard-changed', this.showSubmission, this);
+        }
+
+        new InputController(this, { flap: this.retry });
+        this.retryKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
+        this.retryKey?.on('down', this.retry, this);
+
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+        {
+            this.retryKey?.off('down', this.retry, this);
+            EventBus.off('leaderboard-changed', this.showSubmission, this);
+        });
+    }
+
+    private createDailyTable (x: number, y: number, daily: DailyResult)
+    {
+        const rows = daily.results.map((entry, index) =>
+            `${index + 1 === daily.rank ? '>' : ' '} ${String(index + 1).padStart(2)}.  ${entry.score}`);
+
+        this.add.text(x, y, `DAILY ${daily.date}`, {
+            fontFamily: 'Arial Black',
+            fontSize: '18px',
+            color: '#ffbe0b'
+        }).setOrigin(0.5, 0);
+
+        this.add.text(x, y + 28, rows.join('\n'), {
+            fontFamily: 'monospace',
+            fontSize: '16px',
+            color: '#ffffff',
+            lineSpacing: 2
+        }).setOrigin(0.5, 0);
+
+        this.add.text(x, y + 220, `Streak ${daily.streak}  -  ${daily.attemptsLeft} left today`, {
+            fontFamily: 'Arial Black',
+            fontSize: '14px',
+            color: '#b0bec5'
+        }).setOrigin(0.5, 0);
+    }
+
+    // The canvas HUD has no text fields, so a name is asked for once and
+    // remembered for later submissions.
+    private submit = () =>
+    {
+        const name = this.summary.leaderboard?.playerName || window.prompt('Name for the leaderboard', '') || '';
+        if (this.summary.leaderboard)
+        {
+            this.summary.leaderboard.playerName = name;
+        }
+        void (this.scene.get('Game') as Game).submitScore(name);
+    };
+
+    private showSubmission (status: SubmissionStatus)
+    {
+        this.submissionText?.setText(describeSubmission(status));
+        if (this.submitButton)
+        {
+            this.submitButton.container.setAlpha(canSubmit(status) ? 1 : 0.4);
+            this.submitButton.label.setText(status.state === 'offline' ? 'TRY AGAIN' : 'SUBMIT');
+        }
+    }
+
+    // Game.retry() stops this overlay itself.
+    private retry = () =>
+    {
+        (this.scene.get('Game') as Game).retry();
+    };
+
+    private returnToMenu = () =>
+    {
+        this.scene.stop('Game');
+        this.scene.start('Menu');
+    };
+}
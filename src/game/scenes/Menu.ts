@@ -0,0 +1,439 @@
+import Phaser from 'phaser';
+import { getSoundSystem, SoundSystem } from '../audio/SoundSystem';
+import type { Course } from '../course/Course';
+import { EventBus } from '../EventBus';
+import { InputController } from '../input/InputController';
+import { AccessibilitySettings, AccessibilityStore, Palette } from '../persistence/AccessibilityStore';
+import { DAILY_ATTEMPTS, DailyStore, getDailyDate } from '../persistence/DailyStore';
+import { GhostStore } from '../persistence/GhostStore';
+import { ProgressStore } from '../persistence/ProgressStore';
+import { SavedRun, SavedRunStore } from '../persistence/SavedRunStore';
+import { HUD_MODES, HudMode } from '../persistence/SaveData';
+import { Replay } from '../replay/Replay';
+import { DIFFICULTIES, Difficulty } from '../sim/SimulationConfig';
+import { generateTextures } from '../Textures';
+import { createBackdrop } from '../theme/Backdrop';
+import { getUnlockedThemes, resolveTheme, Theme, THEMES, ThemeId } from '../theme/Theme';
+import { Button, createButton, styleButton } from '../ui/Button';
+import { applyOrientation, getLayout, getViewportOrientation } from '../ui/Layout';
+import { GameMode, GameSceneData } from './Game';
+
+const MODES: GameMode[] = ['play', 'autopilot', 'daily', 'versus', 'practice'];
+
+export class Menu extends Phaser.Scene
+{
+    private progress!: ProgressStore;
+    private dailyStore!: DailyStore;
+    private ghostStore!: GhostStore;
+    private mode: GameMode = 'play';
+    private bestText!: Phaser.GameObjects.Text;
+    private difficultyButtons: Partial<Record<Difficulty, Button>> = {};
+    private modeButtons: Partial<Record<GameMode, Button>> = {};
+    private hudButtons: Partial<Record<HudMode, Button>> = {};
+    private skinButtons: Partial<Record<ThemeId, Button>> = {};
+    private ghostButton?: Button;
+    private raceButton?: Button;
+    private soundButton?: Button;
+    private musicButton?: Button;
+    private soundSystem!: SoundSystem;
+    private startKey?: Phaser.Input.Keyboard.Key;
+    private palette: Palette = 'default';
+    private theme!: Theme;
+    private portrait = false;
+    private savedRuns!: SavedRunStore;
+    private savedRun: SavedRun | null = null;
+    private resumePrompt?: Phaser.GameObjects.Container;
+
+    constructor ()
+    {
+        super('Menu');
+    }
+
+    preload ()
+    {
+        this.load.setPath('assets');
+        this.load.image('background', 'bg.png');
+    }
+
+    create ()
+    {
+        applyOrientation(this.scale, getViewportOrientation(this.scale));
+        const { width, height, orientation } = getLayout(this.scale);
+        this.portrait = orientation === 'portrait';
+        // Portrait stacks each caption above its row, so rows sit further apart.
+        const titleY = this.portrait ? 150 : 80;
+        const rowY = (row: number) => this.portrait ? 300 + (row * 95) : 190 + (row * 55);
+
+        this.progress = new ProgressStore();
+        this.dailyStore = new DailyStore();
+        this.ghostStore = new GhostStore();
+        this.soundSystem = getSoundSystem();
+        this.difficultyButtons = {};
+        this.modeButtons = {};
+        this.hudButtons = {};
+        this.skinButtons = {};
+        this.palette = new AccessibilityStore().getSettings().palette;
+        this.theme = resolveTheme(this.progress.getSettings().theme, this.progress.getBestScores());
+        generateTextures(this, this.theme, this.palette);
+
+        createBackdrop(this, this.theme);
+        this.add.rectangle(width * 0.5, height * 0.5, width, height, 0x031b2b, 0.45);
+        this.add.image(this.portrait ? width * 0.5 : width * 0.5 - 250, this.portrait ? 65 : 80, 'bird').setScale(0.8).setAngle(-15);
+
+        this.add.text(width * 0.5, titleY, 'Bunny Bird', {
+            fontFamily: 'Arial Black',
+            fontSize: '64px',
+            color: '#ffeb3b',
+            stroke: '#000000',
+            strokeThickness: 10
+        }).setOrigin(0.5);
+
+        this.bestText = this.add.text(width * 0.5, titleY + 60, '', {
+            fontFamily: 'Arial Black',
+            fontSize: '20px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4,
+            align: 'center',
+            wordWrap: { width: width - 40 }
+        }).setOrigin(0.5);
+
+        this.createRow(rowY(0), 'DIFFICULTY', DIFFICULTIES.map((level) =>
+        {
+            const button = this.createRowButton(level.toUpperCase(), () => this.selectDifficulty(level));
+            this.difficultyButtons[level] = button;
+            return button;
+        }));
+
+        // Five modes only fit the row on narrower buttons.
+        this.createRow(rowY(1), 'MODE', MODES.map((mode) =>
+        {
+            const button = this.createRowButton(mode.toUpperCase(), () => this.selectMode(mode), 108);
+            button.label.setFontSize(this.portrait ? 12 : 14);
+            this.modeButtons[mode] = button;
+            return button;
+        }));
+
+        this.createRow(rowY(2), 'HUD', HUD_MODES.map((hud) =>
+        {
+            const button = this.createRowButton(hud.toUpperCase(), () => this.selectHud(hud));
+            this.hudButtons[hud] = button;
+            return button;
+        }));
+
+        this.ghostButton = this.createRowButton('', this.toggleGhost);
+        this.soundButton = this.createRowButton('', this.toggleSound);
+        this.musicButton = this.createRowButton('', this.toggleMusic);
+        this.createRow(rowY(3), 'SETTINGS', [this.ghostButton, this.soundButton, this.musicButton]);
+
+        // Locked skins show the score that unlocks them instead.
+        const unlocked = getUnlockedThemes(this.progress.getBestScores());
+        this.createRow(rowY(4), 'SKIN', THEMES.map((theme) =>
+        {
+            const isUnlocked = unlocked.includes(theme);
+            const label = isUnlocked ? theme.name.toUpperCase() : `${theme.name.toUpperCase()}\nSCORE ${theme.unlockScore}`;
+            const button = this.createRowButton(label, () => this.selectSkin(theme));
+            if (!isUnlocked)
+            {
+                button.label.setFontSize(14).setAlign('center');
+                button.container.setAlpha(0.5);
+            }
+            this.skinButtons[theme.id] = button;
+            return button;
+        }));
+
+        const startButton = createButton(this, width * 0.5, this.portrait ? 820 : 485, 240, 60, 'START', this.startGame);
+        styleButton(startButton, true);
+        startButton.label.setFontSize(28);
+
+        // Only offered while there is a ghost to race on the chosen difficulty.
+        this.raceButton = this.portrait
+            ? createButton(this, width * 0.5, 890, 240, 46, 'RACE GHOST', this.raceGhost)
+            : createButton(this, width * 0.5 + 240, 485, 190, 46, 'RACE GHOST', this.raceGhost);
+
+        // The flap binding starts a run too, so players never have to reach
+        // for a second key.
+        new InputController(this, { flap: this.startGame, mute: this.toggleSound });
+        this.startKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
+        this.startKey?.on('down', this.startGame, this);
+        EventBus.on('set-difficulty', this.selectDifficulty, this);
+        EventBus.on('play-replay', this.playReplay, this);
+        EventBus.on('play-course', this.playCourse, this);
+        EventBus.on('audio-changed', this.refresh, this);
+        EventBus.on('accessibility-changed', this.handleAccessibilityChanged, this);
+        this.scale.on(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+        {
+            this.startKey?.off('down', this.startGame, this);
+            this.scale.off(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+            EventBus.off('set-difficulty', this.selectDifficulty, this);
+            EventBus.off('play-replay', this.playReplay, this);
+            EventBus.off('play-course', this.playCourse, this);
+            EventBus.off('audio-changed', this.refresh, this);
+            EventBus.off('accessibility-changed', this.handleAccessibilityChanged, this);
+        });
+
+        this.refresh();
+
+        this.savedRuns = new SavedRunStore();
+        this.savedRun = this.savedRuns.get();
+        if (this.savedRun)
+        {
+            this.showResumePrompt(this.savedRun);
+        }
+
+        EventBus.emit('current-scene-ready', this);
+    }
+
+    private createRowButton (text: string, onPress: () => void, width = 170)
+    {
+        return createButton(this, 0, 0, this.portrait ? width - 20 : width, 46, text, onPress);
+    }
+
+    // Lays a captioned row of buttons out left to right from the centre line,
+    // or centred under its caption in portrait.
+    private createRow (y: number, caption: string, buttons: Button[])
+    {
+        const spacing = this.portrait ? 10 : 18;
+        const rowWidth = buttons.reduce((total, button) => total + button.container.width, spacing * (buttons.length - 1));
+        const x = this.portrait ? (this.scale.width - rowWidth) * 0.5 : this.scale.width * 0.5 - 170;
+
+        this.add.text(this.portrait ? this.scale.width * 0.5 : x - 30, this.portrait ? y - 40 : y, caption, {
+            fontFamily: 'Arial Black',
+            fontSize: '20px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(this.portrait ? 0.5 : 1, 0.5);
+
+        buttons.forEach((button, index) =>
+        {
+            const { width } = button.container;
+            button.container.setPosition(x + (width * 0.5) + (index * (width + spacing)), y);
+        });
+    }
+
+    // A run left when the page was last closed is offered back before
+    // anything else. The shade swallows clicks meant for the menu below.
+    private showResumePrompt (saved: SavedRun)
+    {
+        const { width, height } = this.scale;
+        const { snapshot } = saved;
+        const score = Math.max(...snapshot.players.map((player) => player.score));
+        const name = saved.course?.name ?? (saved.mode === 'play' ? snapshot.difficulty : `${saved.mode} ${snapshot.difficulty}`);
+
+        const shade = this.add.rectangle(width * 0.5, height * 0.5, width, height, 0x031b2b, 0.75).setInteractive();
+        const panel = this.add.rectangle(width * 0.5, height * 0.5, Math.min(520, width - 40), 260, 0x0b2033, 0.95).setStrokeStyle(3, 0xffffff, 0.5);
+        const title = this.add.text(width * 0.5, height * 0.5 - 80, 'Resume run?', {
+            fontFamily: 'Arial Black',
+            fontSize: '40px',
+            color: '#ffeb3b',
+            stroke: '#000000',
+            strokeThickness: 8
+        }).setOrigin(0.5);
+        const details = this.add.text(width * 0.5, height * 0.5 - 25, `${name.toUpperCase()}   SCORE ${score}`, {
+            fontFamily: 'Arial Black',
+            fontSize: '20px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4,
+            align: 'center',
+            wordWrap: { width: width - 80 }
+        }).setOrigin(0.5);
+        const resumeButton = createButton(this, width * 0.5 - 110, height * 0.5 + 60, 200, 52, 'RESUME', this.resumeRun);
+        styleButton(resumeButton, true);
+        const discardButton = createButton(this, width * 0.5 + 110, height * 0.5 + 60, 200, 52, 'DISCARD', this.discardRun);
+
+        this.resumePrompt = this.add.container(0, 0, [shade, panel, title, details, resumeButton.container, discardButton.container]).setDepth(20);
+    }
+
+    private resumeRun = () =>
+    {
+        if (!this.savedRun)
+        {
+            return;
+        }
+
+        const data: GameSceneData = { mode: this.savedRun.mode, resume: this.savedRun, ...(this.savedRun.course && { course: this.savedRun.course }) };
+        this.scene.start('Game', data);
+    };
+
+    private discardRun = () =>
+    {
+        this.savedRuns.clear();
+        this.savedRun = null;
+        this.resumePrompt?.destroy();
+        this.resumePrompt = undefined;
+    };
+
+    private selectDifficulty (level: Difficulty)
+    {
+        this.progress.setLastDifficulty(level);
+        this.refresh();
+        EventBus.emit('difficulty-changed', level);
+    }
+
+    // The menu is laid out again whenever the page turns between landscape
+    // and portrait.
+    private handleResize ()
+    {
+        if (getViewportOrientation(this.scale) !== getLayout(this.scale).orientation)
+        {
+            this.scene.restart();
+        }
+    }
+
+    // The menu's bird is drawn in the palette's colours.
+    private handleAccessibilityChanged (settings: AccessibilitySettings)
+    {
+        if (settings.palette !== this.palette)
+        {
+            this.scene.restart();
+        }
+    }
+
+    // The menu redraws itself in the new skin.
+    private selectSkin (theme: Theme)
+    {
+        if (theme === this.theme || !getUnlockedThemes(this.progress.getBestScores()).includes(theme))
+        {
+            return;
+        }
+
+        this.progress.updateSettings({ theme: theme.id });
+        this.scene.restart();
+    }
+
+    private selectMode (mode: GameMode)
+    {
+        this.mode = mode;
+        this.refresh();
+    }
+
+    private selectHud (hud: HudMode)
+    {
+        this.progress.updateSettings({ hud });
+        this.refresh();
+    }
+
+    private toggleGhost = () =>
+    {
+        this.progress.updateSettings({ ghostEnabled: !this.progress.getSettings().ghostEnabled });
+        this.refresh();
+    };
+
+    // Both update the shared sound system, which announces the change and
+    // so refreshes the buttons.
+    private toggleSound = () =>
+    {
+        this.soundSystem.toggleMute();
+    };
+
+    private toggleMusic = () =>
+    {
+        this.soundSystem.updateSettings({ music: !this.soundSystem.getSettings().music });
+    };
+
+    // While a saved run is on offer, the start keys take it up.
+    private startGame = () =>
+    {
+        if (this.savedRun)
+        {
+            this.resumeRun();
+            return;
+        }
+
+        const data: GameSceneData = { mode: this.mode };
+        this.scene.start('Game', data);
+    };
+
+    // A normal run on the ghost's own seed, with the ghost alongside.
+    private raceGhost = () =>
+    {
+        if (this.savedRun || !this.canRaceGhost())
+        {
+            return;
+        }
+
+        const data: GameSceneData = { mode: 'play', raceGhost: true };
+        this.scene.start('Game', data);
+    };
+
+    private canRaceGhost ()
+    {
+        return this.mode === 'play' && this.progress.getSettings().ghostEnabled && this.ghostStore.get(this.progress.getLastDifficulty()) !== null;
+    }
+
+    private playReplay (replay: Replay)
+    {
+        const data: GameSceneData = { replay };
+        this.scene.start('Game', data);
+    }
+
+    // Courses can be practised too; every other mode plays them normally.
+    private playCourse (course: Course)
+    {
+        const data: GameSceneData = { course, mode: this.mode === 'practice' ? 'practice' : 'play' };
+        this.scene.start('Game', data);
+    }
+
+    private refresh ()
+    {
+        const difficulty = this.progress.getLastDifficulty();
+        const bests = this.progress.getBestScores();
+        const { ghostEnabled, hud } = this.progress.getSettings();
+
+        if (this.mode === 'daily')
+        {
+            const { date, attemptsLeft, streak } = this.dailyStore.getStatus(getDailyDate());
+            this.bestText.setText(`DAILY ${date}   ${attemptsLeft}/${DAILY_ATTEMPTS} ATTEMPTS LEFT   STREAK ${streak}`);
+        }
+        else
+        {
+            this.bestText.setText(`BEST   EASY ${bests.easy}   MEDIUM ${bests.medium}   HARD ${bests.hard}`);
+        }
+
+        Object.entries(this.difficultyButtons).forEach(([level, button]) =>
+        {
+            styleButton(button, level === difficulty);
+        });
+
+        Object.entries(this.modeButtons).forEach(([mode, button]) =>
+        {
+            styleButton(button, mode === this.mode);
+        });
+
+        Object.entries(this.hudButtons).forEach(([mode, button]) =>
+        {
+            styleButton(button, mode === hud);
+        });
+
+        Object.entries(this.skinButtons).forEach(([id, button]) =>
+        {
+            styleButton(button, id === this.theme.id);
+        });
+
+        if (this.ghostButton)
+        {
+            this.ghostButton.label.setText(ghostEnabled ? 'GHOST ON' : 'GHOST OFF');
+            styleButton(this.ghostButton, ghostEnabled);
+        }
+
+        this.raceButton?.container.setVisible(this.canRaceGhost());
+
+        const { muted, music } = this.soundSystem.getSettings();
+
+        if (this.soundButton)
+        {
+            this.soundButton.label.setText(muted ? 'SOUND OFF' : 'SOUND ON');
+            styleButton(this.soundButton, !muted);
+        }
+
+        if (this.musicButton)
+        {
+            this.musicButton.label.setText(music ? 'MUSIC ON' : 'MUSIC OFF');
+            styleButton(this.musicButton, music);
+        }
+    }
+}
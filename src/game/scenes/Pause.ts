@@ -0,0 +1,45 @@
+import Phaser from 'phaser';
+import { InputController } from '../input/InputController';
+import { createButton } from '../ui/Button';
+
+// Launched over a paused Game scene. Pausing the scene stops its update loop
+// and timers, which freezes the simulation exactly where it was.
+export class Pause extends Phaser.Scene
+{
+    constructor ()
+    {
+        super('Pause');
+    }
+
+    create ()
+    {
+        const { width, height } = this.scale;
+
+        this.add.rectangle(width * 0.5, height * 0.5, width, height, 0x031b2b, 0.6);
+
+        this.add.text(width * 0.5, height * 0.5 - 90, 'Paused', {
+            fontFamily: 'Arial Black',
+            fontSize: '56px',
+            color: '#ffeb3b',
+            stroke: '#000000',
+            strokeThickness: 8
+        }).setOrigin(0.5);
+
+        createButton(this, width * 0.5, height * 0.5 + 10, 220, 52, 'RESUME', this.resumeGame);
+        createButton(this, width * 0.5, height * 0.5 + 80, 220, 52, 'MENU', this.returnToMenu);
+
+        new InputController(this, { pause: this.resumeGame }, { switchAction: 'pause' });
+    }
+
+    private resumeGame = () =>
+    {
+        this.scene.resume('Game');
+        this.scene.stop();
+    };
+
+    private returnToMenu = () =>
+    {
+        this.scene.stop('Game');
+        this.scene.start('Menu');
+    };
+}
@@ -0,0 +1,58 @@
+import type { Difficulty } from './SimulationConfig';
+
+// One opening through a column. `offset` moves it from the column's centre
+// line in pixels and `size` scales the difficulty's current gap.
+export interface GapDefinition
+{
+    offset: number;
+    size: number;
+}
+
+// A free-floating hazard, `offset` pixels from the column's centre line.
+export interface HazardDefinition
+{
+    offset: number;
+    size: number;
+}
+
+// An obstacle type as plain data. The spawner builds pipes around every gap
+// (so no gaps means no pipes at all), adds the hazards, and animates the
+// column with whichever motions are set. Adding a type only needs an entry
+// here and a weight in OBSTACLE_WEIGHTS.
+export interface ObstacleDefinition
+{
+    gaps: GapDefinition[];
+    hazards?: HazardDefinition[];
+    // The whole column drifts up and down around its centre line.
+    oscillate?: { amplitude: number; periodMs: number };
+    // Every gap shrinks to `minScale` of its size and opens again.
+    pulse?: { minScale: number; periodMs: number };
+}
+
+export const OBSTACLE_TYPES: Record<string, ObstacleDefinition> = {
+    'pipes': {
+        gaps: [{ offset: 0, size: 1 }]
+    },
+    'moving-gap': {
+        gaps: [{ offset: 0, size: 1 }],
+        oscillate: { amplitude: 40, periodMs: 3200 }
+    },
+    'closing-gap': {
+        gaps: [{ offset: 0, size: 1.15 }],
+        pulse: { minScale: 0.7, periodMs: 2800 }
+    },
+    'floating-hazard': {
+        gaps: [],
+        hazards: [{ offset: 0, size: 56 }]
+    },
+    'double-gap': {
+        gaps: [{ offset: -120, size: 0.85 }, { offset: 120, size: 0.85 }]
+    }
+};
+
+// Relative odds of each type per difficulty; types left out never spawn.
+export const OBSTACLE_WEIGHTS: Record<Difficulty, Record<string, number>> = {
+    easy: { 'pipes': 10, 'moving-gap': 2, 'closing-gap': 1, 'floating-hazard': 1 },
+    medium: { 'pipes': 8, 'moving-gap': 3, 'closing-gap': 2, 'floating-hazard': 2, 'double-gap': 1 },
+    hard: { 'pipes': 6, 'moving-gap': 4, 'closing-gap': 3, 'floating-hazard': 2, 'double-gap': 2 }
+};
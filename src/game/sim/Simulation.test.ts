@@ -0,0 +1,541 @@
+import { describe, expect, it } from 'vitest';
+import { Course, COURSE_VERSION } from '../course/Course';
+import { OBSTACLE_WEIGHTS } from './Obstacles';
+import { SimEvent, Simulation } from './Simulation';
+import { createSimulationConfig, DIFFICULTY_RAMPS, DIFFICULTY_SETTINGS, POWER_UP_RATES, PowerUpKind, shiftDifficultyRamps, SimulationConfig } from './SimulationConfig';
+
+// Plain pipe pairs only, so the courses below stay predictable.
+const pipesOnly = { ...OBSTACLE_WEIGHTS, medium: { pipes: 1 } };
+
+// A course whose gaps are far taller than the world, so pipes can never be hit.
+const openCourse = (overrides: Partial<SimulationConfig> = {}) => createSimulationConfig({
+    gravity: 0,
+    difficultySettings: {
+        ...DIFFICULTY_SETTINGS,
+        medium: { ...DIFFICULTY_SETTINGS.medium, gap: 10000 }
+    },
+    obstacleWeights: pipesOnly,
+    ...overrides
+});
+
+// A course with no gap at all, so the first pipe pair always hits the bird.
+const closedCourse = () => createSimulationConfig({
+    gravity: 0,
+    difficultySettings: {
+        ...DIFFICULTY_SETTINGS,
+        medium: { ...DIFFICULTY_SETTINGS.medium, gap: 0 }
+    },
+    obstacleWeights: pipesOnly
+});
+
+// Every pipe pair spawns the given power-up dead centre in its gap, right in
+// the path of a bird holding the play area's centre line.
+const powerUpCourse = (kind: PowerUpKind) =>
+{
+    const base = openCourse();
+    return openCourse({
+        spawnPadding: (base.playBottom - base.playTop) * 0.5,
+        powerUpRates: {
+            ...POWER_UP_RATES,
+            medium: { shield: 0, slowmo: 0, heart: 0, [kind]: 1 }
+        }
+    });
+};
+
+const stepUntil = (sim: Simulation, done: (events: SimEvent[]) => boolean, maxTicks = 10000) =>
+{
+    const seen: SimEvent[] = [];
+
+    for (let i = 0; i < maxTicks; i++)
+    {
+        const events = sim.step();
+        seen.push(...events);
+        if (done(events))
+        {
+            return seen;
+        }
+    }
+
+    throw new Error(`Condition not met within ${maxTicks} ticks`);
+};
+
+const hasEvent = (type: SimEvent['type']) => (events: SimEvent[]) => events.some((event) => event.type === type);
+
+describe('Simulation', () =>
+{
+    it('ignores steps until a run is started', () =>
+    {
+        const sim = new Simulation();
+
+        expect(sim.step(true)).toEqual([]);
+        expect(sim.getState()).toBe('ready');
+        expect(sim.getTick()).toBe(0);
+    });
+
+    it('spawns the first pipe pair immediately when a run starts', () =>
+    {
+        const sim = new Simulation();
+        const events = sim.start(42);
+
+        expect(sim.getState()).toBe('playing');
+        expect(events).toEqual([{ type: 'pipes-spawned', gapCenter: expect.any(Number) }]);
+        expect(sim.getPipes()).toHaveLength(2);
+    });
+
+    it('applies flaps and records the tick they landed on', () =>
+    {
+        const sim = new Simulation();
+        sim.start(1);
+        sim.step();
+        sim.step();
+
+        expect(sim.step(true)).toContainEqual({ type: 'flap' });
+        expect(sim.getBird().velocityY).toBeLessThan(0);
+        expect(sim.getFlapTicks()).toEqual([2]);
+    });
+
+    it('scores each pipe pair once after the bird passes it', () =>
+    {
+        const sim = new Simulation(openCourse());
+        sim.start(7);
+
+        const events = stepUntil(sim, () => sim.getScore() === 3);
+        const scores = events.filter((event) => event.type === 'score');
+
+        expect(scores).toEqual([
+            { type: 'score', score: 1 },
+            { type: 'score', score: 2 },
+            { type: 'score', score: 3 }
+        ]);
+        expect(sim.getLives()).toBe(sim.config.maxLives);
+    });
+
+    it('costs a life and freezes the run when the bird hits a pipe', () =>
+    {
+        const sim = new Simulation(closedCourse());
+        sim.start(3);
+
+        const events = stepUntil(sim, hasEvent('life-lost'));
+
+        expect(events).toContainEqual({ type: 'life-lost', lives: sim.config.maxLives - 1 });
+        expect(sim.getState()).toBe('resuming');
+        expect(sim.isInvulnerable()).toBe(true);
+        expect(sim.getBird().velocityY).toBe(0);
+
+        const pipeX = sim.getPipes().map((pipe) => pipe.x);
+        sim.step(true);
+
+        expect(sim.getPipes().map((pipe) => pipe.x)).toEqual(pipeX);
+        expect(sim.getFlapTicks()).toEqual([]);
+    });
+
+    it('costs a life when the bird leaves the world', () =>
+    {
+        const sim = new Simulation(openCourse({ gravity: 900 }));
+        sim.start(5);
+
+        stepUntil(sim, hasEvent('life-lost'));
+
+        const bounds = sim.getBirdBounds();
+        expect(bounds.bottom).toBeLessThanOrEqual(sim.config.worldHeight);
+        expect(sim.getLives()).toBe(sim.config.maxLives - 1);
+    });
+
+    it('stays invulnerable for exactly the resume delay', () =>
+    {
+        const config = closedCourse();
+        const sim = new Simulation(config);
+        sim.start(3);
+        stepUntil(sim, hasEvent('life-lost'));
+
+        const windowTicks = Math.ceil(config.resumeDelay / config.stepMs);
+        for (let i = 0; i < windowTicks - 1; i++)
+        {
+            expect(sim.step()).toEqual([]);
+            expect(sim.isInvulnerable()).toBe(true);
+        }
+
+        expect(sim.step()).toEqual([{ type: 'resumed' }]);
+        expect(sim.getState()).toBe('playing');
+        expect(sim.isInvulnerable()).toBe(false);
+    });
+
+    it('ignores collisions while invulnerable', () =>
+    {
+        const sim = new Simulation(closedCourse());
+        sim.start(3);
+        stepUntil(sim, hasEvent('life-lost'));
+        const lives = sim.getLives();
+
+        stepUntil(sim, hasEvent('resumed'));
+
+        expect(sim.getLives()).toBe(lives);
+    });
+
+    it('ends the run once the last life is lost', () =>
+    {
+        const sim = new Simulation(closedCourse());
+        sim.start(3);
+
+        const events = stepUntil(sim, hasEvent('game-over'));
+        const livesLost = events.filter((event) => event.type === 'life-lost');
+
+        expect(livesLost).toHaveLength(sim.config.maxLives - 1);
+        expect(sim.getLives()).toBe(0);
+        expect(sim.getState()).toBe('gameover');
+        expect(sim.step(true)).toEqual([]);
+    });
+
+    it('ramps towards the end settings as the score climbs', () =>
+    {
+        const end = { gap: 10000, spawnDelay: 1200, speed: -300 };
+        const config = openCourse({
+            difficultyRamps: {
+                ...DIFFICULTY_RAMPS,
+                medium: { end, metric: 'score', span: 4, tiers: 4 }
+            }
+        });
+        const sim = new Simulation(config);
+        sim.start(11);
+
+        const start = { ...sim.getSettings() };
+        const events = stepUntil(sim, () => sim.getRampProgress() === 1);
+        const tiers = events.filter((event) => event.type === 'tier-changed');
+
+        expect(start).toEqual(config.difficultySettings.medium);
+        expect(sim.getScore()).toBe(4);
+        expect(sim.getSettings()).toEqual(end);
+        expect(tiers).toEqual([2, 3, 4].map((tier) => ({ type: 'tier-changed', tier })));
+    });
+
+    it('moves the end of a ramp along with retuned starting settings', () =>
+    {
+        const difficultySettings = { ...DIFFICULTY_SETTINGS, hard: { ...DIFFICULTY_SETTINGS.hard, gap: DIFFICULTY_SETTINGS.hard.gap + 20 } };
+        const ramps = shiftDifficultyRamps(difficultySettings);
+
+        expect(ramps.hard.end).toEqual({ ...DIFFICULTY_RAMPS.hard.end, gap: DIFFICULTY_RAMPS.hard.end.gap + 20 });
+        expect(ramps.hard.span).toBe(DIFFICULTY_RAMPS.hard.span);
+        expect(ramps.medium).toEqual(DIFFICULTY_RAMPS.medium);
+    });
+
+    it('blends a jump in the ramp metric over time', () =>
+    {
+        const config = openCourse({
+            rampBlendMs: 500,
+            difficultyRamps: {
+                ...DIFFICULTY_RAMPS,
+                medium: { ...DIFFICULTY_RAMPS.medium, metric: 'time', span: 0.001, tiers: 2 }
+            }
+        });
+        const sim = new Simulation(config);
+        sim.start(13);
+        sim.step();
+
+        expect(sim.getRampProgress()).toBeCloseTo(config.stepMs / (500 * 2));
+
+        stepUntil(sim, () => sim.getRampProgress() === 1);
+        expect(sim.getTick()).toBe(Math.ceil((500 * 2) / config.stepMs));
+        expect(sim.getTier()).toBe(2);
+    });
+
+    it('absorbs one hit with a collected shield', () =>
+    {
+        const sim = new Simulation(powerUpCourse('shield'));
+        sim.start(17);
+
+        stepUntil(sim, hasEvent('power-up-collected'));
+        expect(sim.isShielded()).toBe(true);
+
+        // With no gravity a single flap carries the bird into the ceiling.
+        const events = [...sim.step(true), ...stepUntil(sim, hasEvent('shield-broken'))];
+
+        expect(events).not.toContainEqual(expect.objectContaining({ type: 'life-lost' }));
+        expect(sim.isShielded()).toBe(false);
+        expect(sim.getLives()).toBe(sim.config.maxLives);
+        expect(sim.getState()).toBe('playing');
+    });
+
+    it('slows the pipes down while slow-mo lasts', () =>
+    {
+        // Short enough to run out before the next pair's slow-mo is reached.
+        const config = { ...powerUpCourse('slowmo'), slowMoDurationMs: 500 };
+        const sim = new Simulation(config);
+        sim.start(19);
+
+        stepUntil(sim, hasEvent('power-up-collected'));
+        const [pipe] = sim.getPipes();
+        const x = pipe.x;
+        sim.step();
+
+        const expected = config.difficultySettings.medium.speed * config.slowMoFactor * (config.stepMs / 1000);
+        expect(pipe.x - x).toBeCloseTo(expected);
+
+        const events = stepUntil(sim, hasEvent('power-up-expired'));
+        expect(events).toContainEqual({ type: 'power-up-expired', kind: 'slowmo' });
+        expect(sim.getPipeSpeed()).toBe(sim.getSettings().speed);
+    });
+
+    it('plays the same arc more slowly at a reduced game speed', () =>
+    {
+        const full = new Simulation(createSimulationConfig());
+        const slow = new Simulation(createSimulationConfig());
+        slow.setGameSpeed(0.5);
+        full.start(5);
+        slow.start(5);
+
+        full.step(true);
+        slow.step(true);
+        for (let i = 1; i < 20; i++)
+        {
+            full.step();
+            slow.step();
+            slow.step();
+        }
+        slow.step();
+
+        expect(slow.getPipeSpeed()).toBe(full.getPipeSpeed() * 0.5);
+        expect(slow.getPipes()[0].x).toBeCloseTo(full.getPipes()[0].x);
+        // Only the fixed step's rounding separates the two arcs.
+        expect(Math.abs(slow.getBird().y - full.getBird().y)).toBeLessThan(2);
+    });
+
+    it('keeps the pipe layout of a seed whatever power-ups spawn', () =>
+    {
+        const gaps = (config: SimulationConfig) =>
+        {
+            const sim = new Simulation(config);
+            const events = [...sim.start(23), ...stepUntil(sim, () => sim.getPipes().length >= 8)];
+            return events.filter((event) => event.type === 'pipes-spawned');
+        };
+
+        expect(gaps(powerUpCourse('heart'))).toEqual(gaps(powerUpCourse('shield')));
+    });
+
+    it('builds obstacles from data-only type definitions', () =>
+    {
+        const sim = new Simulation(openCourse({
+            obstacleTypes: {
+                'gate': {
+                    gaps: [{ offset: -60, size: 0.01 }, { offset: 60, size: 0.01 }],
+                    hazards: [{ offset: 0, size: 30 }]
+                }
+            },
+            obstacleWeights: { ...OBSTACLE_WEIGHTS, medium: { gate: 1 } }
+        }));
+        sim.start(29);
+
+        const [obstacle] = sim.getObstacles();
+        const [top, middle, bottom, hazard] = obstacle.segments;
+
+        expect(obstacle.type).toBe('gate');
+        expect(obstacle.segments.map((segment) => segment.kind)).toEqual(['pipe', 'pipe', 'pipe', 'hazard']);
+        expect(top.isTop).toBe(true);
+        expect(middle.bottom - middle.top).toBeCloseTo(120 - 100);
+        expect(bottom.top - middle.bottom).toBeCloseTo(100);
+        expect((hazard.top + hazard.bottom) * 0.5).toBeCloseTo(obstacle.centerY);
+        expect(sim.getPipes()).toHaveLength(4);
+    });
+
+    it('moves oscillating gaps and scores every obstacle once', () =>
+    {
+        const sim = new Simulation(openCourse({
+            obstacleWeights: { ...OBSTACLE_WEIGHTS, medium: { 'moving-gap': 1, 'double-gap': 1 } }
+        }));
+        sim.start(31);
+
+        const moving = () => sim.getObstacles().find((obstacle) => obstacle.type === 'moving-gap');
+        const events = stepUntil(sim, () => moving() !== undefined);
+        const tops = new Set<number>();
+
+        events.push(...stepUntil(sim, () =>
+        {
+            const obstacle = moving();
+            tops.add(obstacle ? Math.round(obstacle.segments[0].bottom) : 0);
+            return sim.getScore() === 6;
+        }));
+
+        expect(tops.size).toBeGreaterThan(10);
+        expect(events.filter((event) => event.type === 'score')).toHaveLength(6);
+    });
+
+    it('plays a fixed course in order and finishes at its finish line', () =>
+    {
+        const sim = new Simulation(openCourse());
+        const course: Course = {
+            version: COURSE_VERSION,
+            name: 'test',
+            difficulty: 'medium',
+            obstacles: [
+                { spacing: 0, type: 'pipes', gapCenter: 200 },
+                { spacing: 300, type: 'floating-hazard', gapCenter: 120 },
+                { spacing: 500, type: 'pipes', gapCenter: 300, pickup: 'heart' }
+            ],
+            finish: 200
+        };
+        sim.start(37, course);
+
+        const spawnX = sim.config.worldWidth + sim.config.spawnOffset;
+        const events = stepUntil(sim, () => sim.getObstacles().length === 2);
+        const [first, second] = sim.getObstacles();
+
+        expect(first.centerY).toBe(200);
+        expect(second.type).toBe('floating-hazard');
+        expect(first.x - second.x).toBeCloseTo(-300);
+        expect(second.x).toBeGreaterThan(spawnX - 10);
+
+        events.push(...stepUntil(sim, hasEvent('course-complete')));
+
+        expect(events.filter((event) => event.type === 'pipes-spawned')).toHaveLength(2);
+        expect(events).toContainEqual({ type: 'power-up-spawned', kind: 'heart' });
+        expect(events).not.toContainEqual(expect.objectContaining({ type: 'game-over' }));
+        expect(sim.getScore()).toBe(3);
+        expect(sim.getState()).toBe('gameover');
+        expect(sim.isCourseComplete()).toBe(true);
+        expect(sim.getTier()).toBe(1);
+    });
+
+    it('replays identically from the same seed and flaps', () =>
+    {
+        const run = () =>
+        {
+            const sim = new Simulation();
+            sim.start('same course');
+
+            for (let tick = 0; tick < 3000 && sim.getState() !== 'gameover'; tick++)
+            {
+                const flap = sim.getState() === 'playing' && sim.getBird().velocityY > 120;
+                sim.step(flap);
+            }
+
+            return { tick: sim.getTick(), score: sim.getScore(), flaps: [...sim.getFlapTicks()], bird: { ...sim.getBird() } };
+        };
+
+        expect(run()).toEqual(run());
+    });
+
+    it('carries on from a restored snapshot exactly as it did the first time', () =>
+    {
+        const flapAt = (sim: Simulation) => sim.getState() === 'playing' && sim.getBird().velocityY > 120;
+        const sim = new Simulation();
+        sim.start('rewind');
+
+        for (let tick = 0; tick < 200; tick++)
+        {
+            sim.step(flapAt(sim));
+        }
+
+        expect(sim.getState()).not.toBe('gameover');
+        const snapshot = JSON.parse(JSON.stringify(sim.snapshot()));
+        const play = () =>
+        {
+            for (let tick = 0; tick < 1200 && sim.getState() !== 'gameover'; tick++)
+            {
+                sim.step(flapAt(sim));
+            }
+            return { tick: sim.getTick(), score: sim.getScore(), lives: sim.getLives(), pipes: sim.getPipes().map((pipe) => ({ ...pipe })), bird: { ...sim.getBird() } };
+        };
+
+        const first = play();
+        sim.restore(snapshot);
+        expect(sim.getTick()).toBe(200);
+        expect(play()).toEqual(first);
+    });
+
+    it('picks a saved run up in a fresh simulation, flaps and all', () =>
+    {
+        const flapAt = (sim: Simulation) => sim.getState() === 'playing' && sim.getBird().velocityY > 120;
+        const original = new Simulation();
+        original.setDifficulty('hard');
+        original.start('saved');
+
+        for (let tick = 0; tick < 200; tick++)
+        {
+            original.step(flapAt(original));
+        }
+
+        const resumed = new Simulation();
+        resumed.restore(JSON.parse(JSON.stringify(original.snapshot())));
+        for (let tick = 0; tick < 600; tick++)
+        {
+            original.step(flapAt(original));
+            resumed.step(flapAt(resumed));
+        }
+
+        expect(resumed.getDifficulty()).toBe('hard');
+        expect(resumed.getScore()).toBe(original.getScore());
+        expect(resumed.getBird()).toEqual(original.getBird());
+        expect(resumed.getFlapTicks()).toEqual(original.getFlapTicks());
+    });
+
+    it('takes new rules mid-run without waiting for the next pipe', () =>
+    {
+        const sim = new Simulation();
+        sim.start(9);
+        sim.step();
+
+        const config = createSimulationConfig({
+            gravity: 0,
+            difficultySettings: { ...DIFFICULTY_SETTINGS, medium: { ...DIFFICULTY_SETTINGS.medium, speed: -400 } }
+        });
+        sim.setConfig(config);
+        const { velocityY } = sim.getBird();
+        sim.step();
+
+        expect(sim.getSettings().speed).toBe(-400);
+        expect(sim.getBird().velocityY).toBe(velocityY);
+    });
+
+    it('never costs a heart with infinite lives', () =>
+    {
+        const sim = new Simulation(closedCourse());
+        sim.setInfiniteLives(true);
+        sim.start(1);
+
+        const events = stepUntil(sim, hasEvent('life-lost'));
+
+        expect(events).toContainEqual({ type: 'life-lost', lives: sim.config.maxLives });
+        expect(sim.getLives()).toBe(sim.config.maxLives);
+        expect(sim.getState()).toBe('resuming');
+    });
+
+    it('races two birds on one course until both are out', () =>
+    {
+        // With no gravity a flap carries a bird into the ceiling; a bird that
+        // never flaps just hovers in the open gaps.
+        const sim = new Simulation(openCourse());
+        const { maxLives } = sim.config;
+        sim.setPlayerCount(2);
+        sim.start(9);
+
+        const events: SimEvent[] = [];
+        let pipeX: number[] | null = null;
+
+        while (sim.getPlayerStatus(1) !== 'out' && sim.getTick() < 10000)
+        {
+            events.push(...sim.step([false, true]));
+
+            if (!pipeX && sim.getPlayerStatus(1) === 'resuming')
+            {
+                pipeX = sim.getPipes().map((pipe) => pipe.x);
+                sim.step([false, false]);
+                expect(sim.getPipes().map((pipe) => pipe.x)).not.toEqual(pipeX);
+            }
+        }
+
+        expect(events).toContainEqual({ type: 'life-lost', lives: maxLives - 1, player: 1 });
+        expect(events).toContainEqual({ type: 'player-out', score: sim.getScore(1), player: 1 });
+        expect(sim.getState()).toBe('playing');
+        expect(sim.getLives(0)).toBe(maxLives);
+
+        const finalScore = sim.getScore(1);
+        while (sim.getState() !== 'gameover' && sim.getTick() < 20000)
+        {
+            events.push(...sim.step([true, true]));
+        }
+
+        expect(sim.getScore(1)).toBe(finalScore);
+        expect(sim.getScore(0)).toBeGreaterThan(finalScore);
+        expect(sim.getWinner()).toBe(0);
+        expect(events.filter((event) => event.type === 'game-over')).toHaveLength(1);
+    });
+});
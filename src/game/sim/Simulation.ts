@@ -0,0 +1,1210 @@
+import type { Course } from '../course/Course';
+import { normalizeSeed, SeededRandom } from '../random/SeededRandom';
+import { ObstacleDefinition } from './Obstacles';
+import { createSimulationConfig, Difficulty, DifficultyRamp, DifficultySettings, POWER_UP_KINDS, PowerUpKind, SimulationConfig } from './SimulationConfig';
+
+export type SimState = 'ready' | 'playing' | 'resuming' | 'gameover';
+
+// Where one bird of a versus run stands. Birds that are out keep falling
+// while the others play on.
+export type PlayerStatus = 'playing' | 'resuming' | 'out';
+
+export interface BirdState
+{
+    x: number;
+    y: number;
+    velocityY: number;
+}
+
+// One solid segment of an obstacle spanning `top` to `bottom`, centred on
+// `x`: either a length of pipe or a floating hazard.
+export interface PipeState
+{
+    id: number;
+    obstacleId: number;
+    kind: 'pipe' | 'hazard';
+    x: number;
+    top: number;
+    bottom: number;
+    width: number;
+    // The pipe hanging down from above the gaps, drawn upside down.
+    isTop: boolean;
+}
+
+// A column built from one ObstacleDefinition. Its segments are laid out
+// again every tick from the centre line, motion phase and age, and the
+// column scores once for each bird its trailing edge passes.
+export interface ObstacleState
+{
+    id: number;
+    type: string;
+    x: number;
+    centerY: number;
+    gapSize: number;
+    phase: number;
+    ageMs: number;
+    segments: PipeState[];
+}
+
+// A pickup floating in the middle of a pipe gap, moving with the pipes.
+export interface PowerUpState
+{
+    id: number;
+    kind: PowerUpKind;
+    x: number;
+    y: number;
+}
+
+export type TimedPowerUp = Exclude<PowerUpKind, 'heart'>;
+
+export interface Bounds
+{
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+// Everything that belongs to one bird rather than to the shared course.
+export interface PlayerState
+{
+    bird: BirdState;
+    status: PlayerStatus;
+    score: number;
+    lives: number;
+    invulnerable: boolean;
+    resumeTicks: number;
+    shieldTicks: number;
+    graceTicks: number;
+    flapTicks: number[];
+    // Ids of the obstacles this bird has already passed.
+    scored: number[];
+    // The tick the bird ran out of lives on; breaks versus ties.
+    outTick: number | null;
+}
+
+// In versus runs every event about one bird carries that bird's `player`
+// index; single-player events never have one.
+export type SimEvent =
+    | { type: 'flap'; player?: number }
+    | { type: 'pipes-spawned'; gapCenter: number }
+    | { type: 'score'; score: number; player?: number }
+    | { type: 'life-lost'; lives: number; player?: number }
+    | { type: 'resumed'; player?: number }
+    | { type: 'tier-changed'; tier: number }
+    | { type: 'power-up-spawned'; kind: PowerUpKind }
+    | { type: 'power-up-collected'; kind: PowerUpKind; player?: number }
+    | { type: 'power-up-expired'; kind: TimedPowerUp; player?: number }
+    | { type: 'shield-broken'; player?: number }
+    | { type: 'player-out'; score: number; player: number }
+    | { type: 'course-complete'; score: number }
+    | { type: 'game-over'; score: number };
+
+// A whole run at one tick as plain data, which can be held on to for a
+// rewind or written out as JSON. The config isn't part of it, so restore it
+// into a simulation built with the same config it was taken from.
+export interface SimSnapshot
+{
+    state: SimState;
+    difficulty: Difficulty;
+    rampProgress: number;
+    playedMs: number;
+    tick: number;
+    seed: number;
+    // Where each random stream had got to.
+    rngStates: { course: number; obstacles: number; powerUps: number };
+    gameSpeed: number;
+    infiniteLives: boolean;
+    players: PlayerState[];
+    obstacles: ObstacleState[];
+    powerUps: PowerUpState[];
+    nextObstacleId: number;
+    nextPipeId: number;
+    nextPowerUpId: number;
+    slowMoTicks: number;
+    spawnElapsed: number;
+    course: Course | null;
+    courseIndex: number;
+    courseDistance: number;
+    courseComplete: boolean;
+}
+
+const clonePlayer = (player: Readonly<PlayerState>): PlayerState => ({
+    ...player,
+    bird: { ...player.bird },
+    flapTicks: [...player.flapTicks],
+    scored: [...player.scored]
+});
+
+const cloneObstacle = (obstacle: Readonly<ObstacleState>): ObstacleState => ({
+    ...obstacle,
+    segments: obstacle.segments.map((segment) => ({ ...segment }))
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const lerp = (from: number, to: number, t: number) => from + ((to - from) * t);
+
+const overlaps = (a: Bounds, b: Bounds) =>
+    a.left <= b.right && a.right >= b.left && a.top <= b.bottom && a.bottom >= b.top;
+
+// The complete rules of a run with no dependency on Phaser or the DOM: the
+// scene feeds it one flag per fixed tick and renders whatever state results.
+export class Simulation
+{
+    // Only swapped mid-run by the debug tuning panel, through `setConfig`.
+    config: SimulationConfig;
+    private state: SimState = 'ready';
+    private difficulty: Difficulty = 'medium';
+    private settings: DifficultySettings;
+    private rampProgress = 0;
+    private tier = 1;
+    private playedMs = 0;
+    private rng = new SeededRandom(0);
+    private obstacleRng = new SeededRandom(0);
+    private powerUpRng = new SeededRandom(0);
+    private playerCount = 1;
+    private players: PlayerState[];
+    private obstacles: ObstacleState[] = [];
+    private pipes: PipeState[] = [];
+    private nextObstacleId = 0;
+    private nextPipeId = 0;
+    private powerUps: PowerUpState[] = [];
+    private nextPowerUpId = 0;
+    private slowMoTicks = 0;
+    private gameSpeed = 1;
+    private infiniteLives = false;
+    private tick = 0;
+    private spawnElapsed = 0;
+    private course: Course | null = null;
+    private courseIndex = 0;
+    private courseDistance = 0;
+    private courseComplete = false;
+
+    constructor (config: SimulationConfig = createSimulationConfig())
+    {
+        this.config = config;
+        this.settings = { ...config.difficultySettings[this.difficulty] };
+        this.players = [this.createPlayer()];
+    }
+
+    getState ()
+    {
+        return this.state;
+    }
+
+    getDifficulty ()
+    {
+        return this.difficulty;
+    }
+
+    // The settings in force right now, part way along the difficulty's ramp.
+    getSettings (): Readonly<DifficultySettings>
+    {
+        return this.settings;
+    }
+
+    getRamp (): Readonly<DifficultyRamp>
+    {
+        return this.config.difficultyRamps[this.difficulty];
+    }
+
+    // 0 at the start of a run, 1 once the ramp has reached its end settings.
+    getRampProgress ()
+    {
+        return this.rampProgress;
+    }
+
+    // 1-based; the last tier is only reached at the very end of the ramp.
+    getTier ()
+    {
+        return this.tier;
+    }
+
+    getCourse (): Readonly<Course> | null
+    {
+        return this.course;
+    }
+
+    // True once a course run has crossed its finish line.
+    isCourseComplete ()
+    {
+        return this.courseComplete;
+    }
+
+    // Where the finish line currently is, or null outside course runs. It
+    // scrolls in from the same point obstacles spawn at.
+    getFinishX ()
+    {
+        if (!this.course)
+        {
+            return null;
+        }
+
+        const finish = this.course.obstacles.reduce((sum, obstacle) => sum + obstacle.spacing, 0) + this.course.finish;
+        return this.getSpawnX() - (this.courseDistance - finish);
+    }
+
+    getSeed ()
+    {
+        return this.rng.seed;
+    }
+
+    getPlayerCount ()
+    {
+        return this.playerCount;
+    }
+
+    getPlayerStatus (player = 0): PlayerStatus
+    {
+        return this.players[player].status;
+    }
+
+    getBird (player = 0): Readonly<BirdState>
+    {
+        return this.players[player].bird;
+    }
+
+    getObstacles (): ReadonlyArray<Readonly<ObstacleState>>
+    {
+        return this.obstacles;
+    }
+
+    // Every segment of every obstacle on the course.
+    getPipes (): ReadonlyArray<Readonly<PipeState>>
+    {
+        return this.pipes;
+    }
+
+    getPowerUps (): ReadonlyArray<Readonly<PowerUpState>>
+    {
+        return this.powerUps;
+    }
+
+    // Pipe speed after slow-mo and game speed, which is what actually moves
+    // the course.
+    getPipeSpeed ()
+    {
+        return this.settings.speed * this.getTimeScale();
+    }
+
+    isShielded (player = 0)
+    {
+        return this.players[player].shieldTicks > 0;
+    }
+
+    getShieldRemaining (player = 0)
+    {
+        return this.players[player].shieldTicks * this.config.stepMs;
+    }
+
+    getSlowMoRemaining ()
+    {
+        return this.slowMoTicks * this.config.stepMs;
+    }
+
+    getScore (player = 0)
+    {
+        return this.players[player].score;
+    }
+
+    getLives (player = 0)
+    {
+        return this.players[player].lives;
+    }
+
+    getTick ()
+    {
+        return this.tick;
+    }
+
+    isInvulnerable (player = 0)
+    {
+        return this.players[player].invulnerable;
+    }
+
+    getInvulnerabilityRemaining (player = 0)
+    {
+        return this.players[player].resumeTicks * this.config.stepMs;
+    }
+
+    // Ticks on which a flap was applied during the current run.
+    getFlapTicks (player = 0): readonly number[]
+    {
+        return this.players[player].flapTicks;
+    }
+
+    // The versus winner once the run is over: the higher score, then
+    // whoever stayed in longer. Null for a draw or a single-player run.
+    getWinner ()
+    {
+        if (this.playerCount < 2 || this.state !== 'gameover')
+        {
+            return null;
+        }
+
+        const ranked = this.players
+            .map((player, index) => ({ index, score: player.score, outTick: player.outTick ?? this.tick }))
+            .sort((a, b) => (b.score - a.score) || (b.outTick - a.outTick));
+
+        const [first, second] = ranked;
+        return first.score === second.score && first.outTick === second.outTick ? null : first.index;
+    }
+
+    getPlayCenterY ()
+    {
+        return this.config.playTop + ((this.config.playBottom - this.config.playTop) * 0.5);
+    }
+
+    getBirdBounds (player = 0): Bounds
+    {
+        const { bird } = this.players[player];
+        const halfWidth = this.config.birdWidth * 0.5;
+        const halfHeight = this.config.birdHeight * 0.5;
+
+        return {
+            left: bird.x - halfWidth,
+            top: bird.y - halfHeight,
+            right: bird.x + halfWidth,
+            bottom: bird.y + halfHeight
+        };
+    }
+
+    getPipeBounds (pipe: Readonly<PipeState>): Bounds
+    {
+        const halfWidth = pipe.width * 0.5;
+        return { left: pipe.x - halfWidth, top: pipe.top, right: pipe.x + halfWidth, bottom: pipe.bottom };
+    }
+
+    getPowerUpBounds (powerUp: Readonly<PowerUpState>): Bounds
+    {
+        const half = this.config.powerUpSize * 0.5;
+        return { left: powerUp.x - half, top: powerUp.y - half, right: powerUp.x + half, bottom: powerUp.y + half };
+    }
+
+    setDifficulty (level: Difficulty)
+    {
+        this.difficulty = level;
+        this.applyRamp(0);
+    }
+
+    getGameSpeed ()
+    {
+        return this.gameSpeed;
+    }
+
+    // Carries the run on under new rules, for tuning them live. The ramp is
+    // reapplied so changed difficulty settings take hold straight away.
+    setConfig (config: SimulationConfig)
+    {
+        this.config = config;
+        this.applyRamp(this.rampProgress);
+    }
+
+    // Slows the whole run down as an accessibility assist. Gravity scales
+    // with the square of the speed and flaps with the speed itself, so the
+    // bird's arc keeps its shape relative to the pipes and everything just
+    // plays out more slowly. Timers stay in real time.
+    setGameSpeed (speed: number)
+    {
+        this.gameSpeed = clamp(speed, 0.1, 1);
+    }
+
+    // Hits still knock the bird back and make it respawn, but never cost a
+    // heart, so the run can't end on a crash.
+    setInfiniteLives (enabled: boolean)
+    {
+        this.infiniteLives = enabled;
+    }
+
+    hasInfiniteLives ()
+    {
+        return this.infiniteLives;
+    }
+
+    // Two or more birds share one course in a versus run, each flying on
+    // its own flap and lives. Changing the count resets the simulation.
+    setPlayerCount (count: number)
+    {
+        this.playerCount = Math.max(1, Math.floor(count));
+        this.reset();
+    }
+
+    reset ()
+    {
+        this.state = 'ready';
+        this.tick = 0;
+        this.spawnElapsed = 0;
+        this.obstacles = [];
+        this.pipes = [];
+        this.powerUps = [];
+        this.slowMoTicks = 0;
+        this.playedMs = 0;
+        this.courseIndex = 0;
+        this.courseDistance = 0;
+        this.courseComplete = false;
+        this.applyRamp(0);
+        this.players = Array.from({ length: this.playerCount }, () => this.createPlayer());
+    }
+
+    // With a course the obstacles come from it in order (on the course's own
+    // difficulty, with no ramp) and the run ends at its finish line; without
+    // one they are generated endlessly from the seed.
+    start (seed: number | string, course: Course | null = null): SimEvent[]
+    {
+        const events: SimEvent[] = [];
+
+        this.course = course;
+        if (course)
+        {
+            this.difficulty = course.difficulty;
+        }
+        this.reset();
+        this.rng = new SeededRandom(seed);
+        // Obstacle types and power-ups draw from their own streams so they
+        // never shift the gap positions a seed produces.
+        this.obstacleRng = new SeededRandom(normalizeSeed(`${this.rng.seed}:obstacles`));
+        this.powerUpRng = new SeededRandom(normalizeSeed(`${this.rng.seed}:power-ups`));
+        this.state = 'playing';
+        if (course)
+        {
+            this.spawnFromCourse(events);
+        }
+        else
+        {
+            this.spawnObstacle(events);
+        }
+
+        return events;
+    }
+
+    snapshot (): SimSnapshot
+    {
+        return {
+            state: this.state,
+            difficulty: this.difficulty,
+            rampProgress: this.rampProgress,
+            playedMs: this.playedMs,
+            tick: this.tick,
+            seed: this.rng.seed,
+            rngStates: { course: this.rng.getState(), obstacles: this.obstacleRng.getState(), powerUps: this.powerUpRng.getState() },
+            gameSpeed: this.gameSpeed,
+            infiniteLives: this.infiniteLives,
+            players: this.players.map(clonePlayer),
+            obstacles: this.obstacles.map(cloneObstacle),
+            powerUps: this.powerUps.map((powerUp) => ({ ...powerUp })),
+            nextObstacleId: this.nextObstacleId,
+            nextPipeId: this.nextPipeId,
+            nextPowerUpId: this.nextPowerUpId,
+            slowMoTicks: this.slowMoTicks,
+            spawnElapsed: this.spawnElapsed,
+            course: this.course,
+            courseIndex: this.courseIndex,
+            courseDistance: this.courseDistance,
+            courseComplete: this.courseComplete
+        };
+    }
+
+    // Puts the run back exactly as it was when the snapshot was taken. The
+    // snapshot is copied, so it can be restored again later.
+    restore (snapshot: Readonly<SimSnapshot>)
+    {
+        this.state = snapshot.state;
+        this.difficulty = snapshot.difficulty;
+        this.applyRamp(snapshot.rampProgress);
+        this.playedMs = snapshot.playedMs;
+        this.tick = snapshot.tick;
+        this.rng = new SeededRandom(snapshot.seed);
+        this.rng.setState(snapshot.rngStates.course);
+        this.obstacleRng = new SeededRandom(normalizeSeed(`${snapshot.seed}:obstacles`));
+        this.obstacleRng.setState(snapshot.rngStates.obstacles);
+        this.powerUpRng = new SeededRandom(normalizeSeed(`${snapshot.seed}:power-ups`));
+        this.powerUpRng.setState(snapshot.rngStates.powerUps);
+        this.gameSpeed = snapshot.gameSpeed;
+        this.infiniteLives = snapshot.infiniteLives;
+        this.playerCount = snapshot.players.length;
+        this.players = snapshot.players.map(clonePlayer);
+        this.obstacles = snapshot.obstacles.map(cloneObstacle);
+        this.pipes = this.obstacles.flatMap((obstacle) => obstacle.segments);
+        this.powerUps = snapshot.powerUps.map((powerUp) => ({ ...powerUp }));
+        this.nextObstacleId = snapshot.nextObstacleId;
+        this.nextPipeId = snapshot.nextPipeId;
+        this.nextPowerUpId = snapshot.nextPowerUpId;
+        this.slowMoTicks = snapshot.slowMoTicks;
+        this.spawnElapsed = snapshot.spawnElapsed;
+        this.course = snapshot.course;
+        this.courseIndex = snapshot.courseIndex;
+        this.courseDistance = snapshot.courseDistance;
+        this.courseComplete = snapshot.courseComplete;
+    }
+
+    // Advances the run by one fixed tick. `flap` is only honoured while
+    // playing; the caller is expected to drop input in every other state.
+    // Versus runs pass one flag per player.
+    step (flap: boolean | readonly boolean[] = false): SimEvent[]
+    {
+        const events: SimEvent[] = [];
+        const flaps = typeof flap === 'boolean' ? [flap] : flap;
+
+        // Only a lone bird's respawn holds the course still; in versus it
+        // keeps scrolling for whoever is still flying.
+        if (this.state === 'resuming')
+        {
+            this.tick += 1;
+            this.players.forEach((player, index) => this.tickResume(player, index, events));
+            return events;
+        }
+
+        if (this.state === 'gameover')
+        {
+            if (!this.courseComplete)
+            {
+                this.players.forEach((player) => this.settleFallenBird(player));
+            }
+            return events;
+        }
+
+        if (this.state !== 'playing')
+        {
+            return events;
+        }
+
+        const dt = this.config.stepMs / 1000;
+        const timeScale = this.getTimeScale();
+
+        this.players.forEach((player, index) =>
+        {
+            const { bird } = player;
+
+            if (player.status === 'out')
+            {
+                this.settleFallenBird(player);
+                return;
+            }
+
+            // Respawning versus birds hover until they are back.
+            if (player.status !== 'playing')
+            {
+                return;
+            }
+
+            if (flaps[index])
+            {
+                bird.velocityY = this.config.flapVelocity * this.gameSpeed;
+                player.flapTicks.push(this.tick);
+                events.push(this.tag({ type: 'flap' }, index));
+            }
+
+            bird.velocityY += this.getGravity() * dt;
+            bird.y += bird.velocityY * dt;
+        });
+
+        if (this.course)
+        {
+            this.spawnFromCourse(events);
+        }
+        else
+        {
+            this.spawnElapsed += this.config.stepMs * timeScale;
+            if (this.spawnElapsed >= this.settings.spawnDelay)
+            {
+                this.spawnElapsed -= this.settings.spawnDelay;
+                this.spawnObstacle(events);
+            }
+        }
+
+        const dx = this.settings.speed * timeScale * dt;
+        this.courseDistance += Math.abs(dx);
+        this.obstacles.forEach((obstacle) =>
+        {
+            obstacle.x += dx;
+            obstacle.ageMs += this.config.stepMs * timeScale;
+            this.layoutObstacle(obstacle);
+        });
+        this.powerUps.forEach((powerUp) =>
+        {
+            powerUp.x += dx;
+        });
+
+        this.tick += 1;
+        this.playedMs += this.config.stepMs;
+        this.players.forEach((player, index) => this.tickResume(player, index, events));
+        this.tickPowerUpTimers(events);
+        this.collectPowerUps(events);
+        this.checkCollisions(events);
+        this.manageObstacles(events);
+        this.checkFinish(events);
+        this.advanceRamp(events);
+
+        return events;
+    }
+
+    private createPlayer (): PlayerState
+    {
+        return {
+            bird: { x: this.config.birdStartX, y: this.getPlayCenterY(), velocityY: 0 },
+            status: 'playing',
+            score: 0,
+            lives: this.config.maxLives,
+            invulnerable: false,
+            resumeTicks: 0,
+            shieldTicks: 0,
+            graceTicks: 0,
+            flapTicks: [],
+            scored: [],
+            outTick: null
+        };
+    }
+
+    private tag<E extends SimEvent> (event: E, player: number): E
+    {
+        return this.playerCount > 1 ? { ...event, player } : event;
+    }
+
+    // The run is over once every bird is out; a lone bird respawning holds
+    // the whole run in 'resuming'.
+    private updateState (events: SimEvent[])
+    {
+        if (this.players.every((player) => player.status === 'out'))
+        {
+            this.state = 'gameover';
+            events.push({ type: 'game-over', score: Math.max(...this.players.map((player) => player.score)) });
+            return;
+        }
+
+        this.state = this.playerCount === 1 && this.players[0].status === 'resuming' ? 'resuming' : 'playing';
+    }
+
+    private checkFinish (events: SimEvent[])
+    {
+        const finishX = this.getFinishX();
+        const birdX = Math.max(...this.players.filter((player) => player.status !== 'out').map((player) => player.bird.x));
+
+        if (this.state !== 'playing' || finishX === null || finishX > birdX)
+        {
+            return;
+        }
+
+        this.state = 'gameover';
+        this.courseComplete = true;
+        events.push({ type: 'course-complete', score: this.players[0].score });
+    }
+
+    // Eases the settings towards wherever the ramp metric says they should
+    // be. Pipes already on screen pick up the new speed on the next tick and
+    // the spawn timer is compared against the new delay.
+    private advanceRamp (events: SimEvent[])
+    {
+        if (this.state !== 'playing' || this.course)
+        {
+            return;
+        }
+
+        const ramp = this.getRamp();
+        const score = Math.max(...this.players.map((player) => player.score));
+        const metric = ramp.metric === 'score' ? score : this.playedMs / 1000;
+        const target = ramp.span > 0 ? clamp(metric / ramp.span, 0, 1) : 1;
+        const maxChange = this.config.rampBlendMs > 0 ? this.config.stepMs / (this.config.rampBlendMs * ramp.tiers) : 1;
+        const progress = clamp(target, this.rampProgress - maxChange, this.rampProgress + maxChange);
+
+        if (progress === this.rampProgress)
+        {
+            return;
+        }
+
+        const previousTier = this.tier;
+        this.applyRamp(progress);
+
+        if (this.tier !== previousTier)
+        {
+            events.push({ type: 'tier-changed', tier: this.tier });
+        }
+    }
+
+    private applyRamp (progress: number)
+    {
+        const start = this.config.difficultySettings[this.difficulty];
+        const ramp = this.getRamp();
+
+        this.rampProgress = progress;
+        this.tier = Math.min(ramp.tiers, Math.floor(progress * ramp.tiers) + 1);
+        this.settings = {
+            gap: lerp(start.gap, ramp.end.gap, progress),
+            spawnDelay: lerp(start.spawnDelay, ramp.end.spawnDelay, progress),
+            speed: lerp(start.speed, ramp.end.speed, progress)
+        };
+    }
+
+    private spawnObstacle (events: SimEvent[])
+    {
+        const type = this.pickObstacleType();
+        const definition = this.config.obstacleTypes[type];
+        const gapSize = this.settings.gap;
+        const halfGap = gapSize * 0.5;
+
+        // Columns reaching further than a plain gap are kept far enough from
+        // the edges that all of their openings stay on screen.
+        const reach = this.getObstacleReach(definition, gapSize);
+        const minY = this.config.playTop + this.config.spawnPadding + Math.max(0, reach.up - halfGap);
+        const maxY = this.config.playBottom - this.config.spawnPadding - Math.max(0, reach.down - halfGap);
+        const centerY = minY <= maxY ? this.rng.between(minY, maxY) : (minY + maxY) * 0.5;
+        const obstacle = this.addObstacle(type, centerY, gapSize, this.getSpawnX(), events);
+
+        // Pickups only sit in gaps that hold still.
+        const firstGap = this.getFirstGap(definition);
+        if (firstGap && !definition.oscillate && !definition.pulse)
+        {
+            this.rollPowerUp(obstacle.x, centerY + firstGap.offset, events);
+        }
+    }
+
+    // Spawns every course obstacle the course has scrolled far enough to
+    // reach, placed by how far past its spawn point the course already is.
+    private spawnFromCourse (events: SimEvent[])
+    {
+        const obstacles = this.course?.obstacles ?? [];
+        let position = obstacles.slice(0, this.courseIndex + 1).reduce((sum, obstacle) => sum + obstacle.spacing, 0);
+
+        while (this.courseIndex < obstacles.length && position <= this.courseDistance)
+        {
+            const entry = obstacles[this.courseIndex];
+            const type = Object.prototype.hasOwnProperty.call(this.config.obstacleTypes, entry.type)
+                ? entry.type
+                : Object.keys(this.config.obstacleTypes)[0];
+            const x = this.getSpawnX() - (this.courseDistance - position);
+            const obstacle = this.addObstacle(type, entry.gapCenter, entry.gapSize ?? this.settings.gap, x, events);
+
+            if (entry.pickup)
+            {
+                const firstGap = this.getFirstGap(this.config.obstacleTypes[type]);
+                this.placePowerUp(entry.pickup, obstacle.x, entry.gapCenter + (firstGap?.offset ?? 0), events);
+            }
+
+            this.courseIndex += 1;
+            position += obstacles[this.courseIndex]?.spacing ?? 0;
+        }
+    }
+
+    private getSpawnX ()
+    {
+        return this.config.worldWidth + this.config.spawnOffset;
+    }
+
+    private getFirstGap (definition: ObstacleDefinition)
+    {
+        return [...definition.gaps].sort((a, b) => a.offset - b.offset)[0];
+    }
+
+    private addObstacle (type: string, centerY: number, gapSize: number, x: number, events: SimEvent[])
+    {
+        const definition = this.config.obstacleTypes[type];
+        const obstacle: ObstacleState = {
+            id: this.nextObstacleId,
+            type,
+            x,
+            centerY,
+            gapSize,
+            phase: this.obstacleRng.next() * Math.PI * 2,
+            ageMs: 0,
+            segments: []
+        };
+        this.nextObstacleId += 1;
+
+        const pipeCount = definition.gaps.length > 0 ? definition.gaps.length + 1 : 0;
+        for (let i = 0; i < pipeCount; i++)
+        {
+            obstacle.segments.push(this.createSegment(obstacle, 'pipe', this.config.pipeWidth, i === 0));
+        }
+        definition.hazards?.forEach((hazard) =>
+        {
+            obstacle.segments.push(this.createSegment(obstacle, 'hazard', hazard.size, false));
+        });
+
+        this.layoutObstacle(obstacle);
+        this.obstacles.push(obstacle);
+        this.pipes.push(...obstacle.segments);
+        events.push({ type: 'pipes-spawned', gapCenter: centerY });
+
+        return obstacle;
+    }
+
+    private pickObstacleType ()
+    {
+        const weights = Object.entries(this.config.obstacleWeights[this.difficulty])
+            .filter(([type, weight]) => weight > 0 && Object.prototype.hasOwnProperty.call(this.config.obstacleTypes, type));
+        const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+        let roll = this.obstacleRng.next() * total;
+
+        const picked = weights.find(([, weight]) =>
+        {
+            roll -= weight;
+            return roll < 0;
+        });
+
+        return picked ? picked[0] : Object.keys(this.config.obstacleTypes)[0];
+    }
+
+    // How far above and below its centre line a column can extend.
+    private getObstacleReach (definition: ObstacleDefinition, gapSize: number)
+    {
+        const drift = definition.oscillate?.amplitude ?? 0;
+        let up = 0;
+        let down = 0;
+
+        definition.gaps.forEach((gap) =>
+        {
+            const half = gap.size * gapSize * 0.5;
+            up = Math.max(up, half - gap.offset);
+            down = Math.max(down, half + gap.offset);
+        });
+        definition.hazards?.forEach((hazard) =>
+        {
+            up = Math.max(up, (hazard.size * 0.5) - hazard.offset);
+            down = Math.max(down, (hazard.size * 0.5) + hazard.offset);
+        });
+
+        return { up: up + drift, down: down + drift };
+    }
+
+    private createSegment (obstacle: ObstacleState, kind: PipeState['kind'], width: number, isTop: boolean): PipeState
+    {
+        const id = this.nextPipeId;
+        this.nextPipeId += 1;
+        return { id, obstacleId: obstacle.id, kind, x: obstacle.x, top: 0, bottom: 0, width, isTop };
+    }
+
+    // Pipes fill the space around the gaps (one above, one between each pair
+    // of gaps, one below), followed by the hazards in definition order.
+    private layoutObstacle (obstacle: ObstacleState)
+    {
+        const definition = this.config.obstacleTypes[obstacle.type];
+        const { oscillate, pulse } = definition;
+        const angle = (periodMs: number) => obstacle.phase + ((Math.PI * 2 * obstacle.ageMs) / periodMs);
+        const centerY = obstacle.centerY + (oscillate ? oscillate.amplitude * Math.sin(angle(oscillate.periodMs)) : 0);
+        const scale = pulse ? pulse.minScale + ((1 - pulse.minScale) * (0.5 + (0.5 * Math.cos(angle(pulse.periodMs))))) : 1;
+        const { segments } = obstacle;
+        let index = 0;
+
+        const edges = [...definition.gaps]
+            .sort((a, b) => a.offset - b.offset)
+            .flatMap((gap) =>
+            {
+                const half = gap.size * obstacle.gapSize * scale * 0.5;
+                return [centerY + gap.offset - half, centerY + gap.offset + half];
+            });
+
+        if (edges.length > 0)
+        {
+            const bounds = [edges[0] - this.config.pipeHeight, ...edges, edges[edges.length - 1] + this.config.pipeHeight];
+            for (let i = 0; i < bounds.length; i += 2)
+            {
+                segments[index].top = bounds[i];
+                segments[index].bottom = bounds[i + 1];
+                index += 1;
+            }
+        }
+
+        definition.hazards?.forEach((hazard) =>
+        {
+            segments[index].top = centerY + hazard.offset - (hazard.size * 0.5);
+            segments[index].bottom = centerY + hazard.offset + (hazard.size * 0.5);
+            index += 1;
+        });
+
+        segments.forEach((segment) =>
+        {
+            segment.x = obstacle.x;
+        });
+    }
+
+    private rollPowerUp (x: number, y: number, events: SimEvent[])
+    {
+        const rates = this.config.powerUpRates[this.difficulty];
+        let roll = this.powerUpRng.next();
+
+        const kind = POWER_UP_KINDS.find((candidate) =>
+        {
+            roll -= rates[candidate];
+            return roll < 0;
+        });
+
+        if (kind)
+        {
+            this.placePowerUp(kind, x, y, events);
+        }
+    }
+
+    private placePowerUp (kind: PowerUpKind, x: number, y: number, events: SimEvent[])
+    {
+        this.powerUps.push({ id: this.nextPowerUpId, kind, x, y });
+        this.nextPowerUpId += 1;
+        events.push({ type: 'power-up-spawned', kind });
+    }
+
+    // Pickups go to the first bird touching them. Shields and hearts are
+    // that bird's own; slow-mo slows the course for everyone.
+    private collectPowerUps (events: SimEvent[])
+    {
+        this.players.forEach((player, index) =>
+        {
+            if (player.status !== 'playing')
+            {
+                return;
+            }
+
+            const birdBounds = this.getBirdBounds(index);
+            const collected = this.powerUps.filter((powerUp) => overlaps(birdBounds, this.getPowerUpBounds(powerUp)));
+
+            if (collected.length === 0)
+            {
+                return;
+            }
+
+            this.powerUps = this.powerUps.filter((powerUp) => !collected.includes(powerUp));
+            collected.forEach(({ kind }) =>
+            {
+                if (kind === 'shield')
+                {
+                    player.shieldTicks = this.toTicks(this.config.shieldDurationMs);
+                }
+                else if (kind === 'slowmo')
+                {
+                    this.slowMoTicks = this.toTicks(this.config.slowMoDurationMs);
+                }
+                else
+                {
+                    player.lives = Math.min(player.lives + 1, this.config.maxLives);
+                }
+
+                events.push(this.tag({ type: 'power-up-collected', kind }, index));
+            });
+        });
+    }
+
+    private tickPowerUpTimers (events: SimEvent[])
+    {
+        this.players.forEach((player, index) =>
+        {
+            player.graceTicks = Math.max(0, player.graceTicks - 1);
+
+            if (player.shieldTicks > 0)
+            {
+                player.shieldTicks -= 1;
+                if (player.shieldTicks === 0)
+                {
+                    events.push(this.tag({ type: 'power-up-expired', kind: 'shield' }, index));
+                }
+            }
+        });
+
+        if (this.slowMoTicks > 0)
+        {
+            this.slowMoTicks -= 1;
+            if (this.slowMoTicks === 0)
+            {
+                events.push({ type: 'power-up-expired', kind: 'slowmo' });
+            }
+        }
+    }
+
+    private getTimeScale ()
+    {
+        return (this.slowMoTicks > 0 ? this.config.slowMoFactor : 1) * this.gameSpeed;
+    }
+
+    private getGravity ()
+    {
+        return this.config.gravity * this.gameSpeed * this.gameSpeed;
+    }
+
+    // Counted in whole ticks so timed windows can't drift by float error.
+    private toTicks (ms: number)
+    {
+        return Math.ceil(ms / this.config.stepMs);
+    }
+
+    private getObstacleHalfWidth (obstacle: ObstacleState)
+    {
+        return Math.max(this.config.pipeWidth, ...obstacle.segments.map((segment) => segment.width)) * 0.5;
+    }
+
+    private manageObstacles (events: SimEvent[])
+    {
+        const obstacleCount = this.obstacles.length;
+
+        this.obstacles = this.obstacles.filter((obstacle) => obstacle.x + this.getObstacleHalfWidth(obstacle) >= -20);
+        if (this.obstacles.length !== obstacleCount)
+        {
+            this.pipes = this.obstacles.flatMap((obstacle) => obstacle.segments);
+            this.players.forEach((player) =>
+            {
+                player.scored = player.scored.filter((id) => this.obstacles.some((obstacle) => obstacle.id === id));
+            });
+        }
+        this.powerUps = this.powerUps.filter((powerUp) => powerUp.x + (this.config.powerUpSize * 0.5) >= -20);
+
+        // Obstacles that pass a respawning bird are written off rather than
+        // scored once it is back.
+        this.players.forEach((player, index) =>
+        {
+            if (player.status === 'out')
+            {
+                return;
+            }
+
+            this.obstacles.forEach((obstacle) =>
+            {
+                if (!player.scored.includes(obstacle.id) && obstacle.x + this.getObstacleHalfWidth(obstacle) < player.bird.x)
+                {
+                    player.scored.push(obstacle.id);
+                    if (player.status === 'playing')
+                    {
+                        this.incrementScore(player, index, events);
+                    }
+                }
+            });
+        });
+    }
+
+    private incrementScore (player: PlayerState, index: number, events: SimEvent[])
+    {
+        player.score += 1;
+        events.push(this.tag({ type: 'score', score: player.score }, index));
+    }
+
+    private checkCollisions (events: SimEvent[])
+    {
+        this.players.forEach((player, index) =>
+        {
+            if (player.status !== 'playing')
+            {
+                return;
+            }
+
+            const birdBounds = this.getBirdBounds(index);
+
+            if (birdBounds.top < 0 || birdBounds.bottom > this.config.worldHeight)
+            {
+                this.clampBirdToWorld(player);
+                this.handleBirdCollision(player, index, events);
+                return;
+            }
+
+            const hitPipe = this.pipes.find((pipe) => overlaps(birdBounds, this.getPipeBounds(pipe)));
+            if (hitPipe)
+            {
+                this.handleBirdCollision(player, index, events, hitPipe);
+            }
+        });
+    }
+
+    private handleBirdCollision (player: PlayerState, index: number, events: SimEvent[], hitPipe?: PipeState)
+    {
+        if (player.status !== 'playing' || player.invulnerable || player.graceTicks > 0)
+        {
+            return;
+        }
+
+        if (player.shieldTicks > 0)
+        {
+            player.shieldTicks = 0;
+            player.graceTicks = this.toTicks(this.config.shieldGraceMs);
+            events.push(this.tag({ type: 'shield-broken' }, index));
+            return;
+        }
+
+        if (!this.infiniteLives)
+        {
+            player.lives -= 1;
+        }
+
+        if (player.lives <= 0)
+        {
+            player.status = 'out';
+            player.outTick = this.tick;
+            if (this.playerCount > 1)
+            {
+                events.push({ type: 'player-out', score: player.score, player: index });
+            }
+            this.updateState(events);
+            return;
+        }
+
+        this.handleLifeLost(player, index, events, hitPipe);
+    }
+
+    private handleLifeLost (player: PlayerState, index: number, events: SimEvent[], hitPipe?: PipeState)
+    {
+        const { bird } = player;
+        player.status = 'resuming';
+        player.invulnerable = true;
+        bird.velocityY = 0;
+
+        // Back the bird off the pipe it hit so resuming doesn't re-collide.
+        if (hitPipe)
+        {
+            const targetX = this.getPipeBounds(hitPipe).left - (this.config.birdWidth * 0.6);
+            bird.x = clamp(targetX, 40, this.config.worldWidth - 40);
+        }
+
+        // Keep the whole bird inside the world so resuming can't register an
+        // immediate floor or ceiling hit.
+        const safeMargin = (this.config.birdHeight * 0.5) + 4;
+        bird.y = clamp(bird.y, safeMargin, this.config.worldHeight - safeMargin);
+
+        player.resumeTicks = this.toTicks(this.config.resumeDelay);
+        events.push(this.tag({ type: 'life-lost', lives: player.lives }, index));
+        this.updateState(events);
+    }
+
+    // With the course still moving, a versus bird also waits for clear air
+    // so it never comes back inside a pipe.
+    private tickResume (player: PlayerState, index: number, events: SimEvent[])
+    {
+        if (player.status !== 'resuming')
+        {
+            return;
+        }
+
+        player.resumeTicks = Math.max(0, player.resumeTicks - 1);
+        const bounds = this.getBirdBounds(index);
+        const blocked = this.state === 'playing' && this.pipes.some((pipe) => overlaps(bounds, this.getPipeBounds(pipe)));
+
+        if (player.resumeTicks <= 0 && !blocked)
+        {
+            this.resumeFromLifeLoss(player, index, events);
+        }
+    }
+
+    private resumeFromLifeLoss (player: PlayerState, index: number, events: SimEvent[])
+    {
+        player.resumeTicks = 0;
+        player.bird.velocityY = 0;
+        player.invulnerable = false;
+        player.status = 'playing';
+        events.push(this.tag({ type: 'resumed' }, index));
+        this.updateState(events);
+    }
+
+    private clampBirdToWorld ({ bird }: PlayerState)
+    {
+        const halfHeight = this.config.birdHeight * 0.5;
+        const clampedY = clamp(bird.y, halfHeight, this.config.worldHeight - halfHeight);
+
+        if (clampedY !== bird.y)
+        {
+            bird.y = clampedY;
+            bird.velocityY = 0;
+        }
+    }
+
+    // After running out of lives a bird keeps falling until it rests on
+    // the floor.
+    private settleFallenBird (player: PlayerState)
+    {
+        const dt = this.config.stepMs / 1000;
+        player.bird.velocityY += this.getGravity() * dt;
+        player.bird.y += player.bird.velocityY * dt;
+        this.clampBirdToWorld(player);
+    }
+}
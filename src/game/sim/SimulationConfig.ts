@@ -0,0 +1,148 @@
+import { OBSTACLE_TYPES, OBSTACLE_WEIGHTS, ObstacleDefinition } from './Obstacles';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface DifficultySettings
+{
+    gap: number;
+    spawnDelay: number;
+    speed: number;
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+    easy: { gap: 280, spawnDelay: 1900, speed: -190 },
+    medium: { gap: 220, spawnDelay: 1650, speed: -220 },
+    hard: { gap: 170, spawnDelay: 1350, speed: -255 }
+};
+
+export type RampMetric = 'score' | 'time';
+
+// How a difficulty tightens over a run. Settings slide from the difficulty's
+// starting values to `end` as the metric (pipes cleared, or seconds of play)
+// climbs from 0 to `span`; the HUD shows progress as one of `tiers` steps.
+export interface DifficultyRamp
+{
+    end: DifficultySettings;
+    metric: RampMetric;
+    span: number;
+    tiers: number;
+}
+
+export const DIFFICULTY_RAMPS: Record<Difficulty, DifficultyRamp> = {
+    easy: { end: { gap: 220, spawnDelay: 1600, speed: -230 }, metric: 'score', span: 60, tiers: 5 },
+    medium: { end: { gap: 175, spawnDelay: 1350, speed: -265 }, metric: 'score', span: 50, tiers: 5 },
+    hard: { end: { gap: 140, spawnDelay: 1100, speed: -300 }, metric: 'score', span: 40, tiers: 5 }
+};
+
+// Ramps for retuned starting settings: each end moves by as much as its
+// start did, so a run still tightens by the same amount from wherever it
+// now begins.
+export const shiftDifficultyRamps = (
+    difficultySettings: Record<Difficulty, DifficultySettings>,
+    ramps: Record<Difficulty, DifficultyRamp> = DIFFICULTY_RAMPS,
+    base: Record<Difficulty, DifficultySettings> = DIFFICULTY_SETTINGS
+): Record<Difficulty, DifficultyRamp> =>
+{
+    const shift = (level: Difficulty): DifficultyRamp =>
+    {
+        const { end } = ramps[level];
+        const start = difficultySettings[level];
+        const stock = base[level];
+
+        return {
+            ...ramps[level],
+            end: {
+                gap: end.gap + start.gap - stock.gap,
+                spawnDelay: end.spawnDelay + start.spawnDelay - stock.spawnDelay,
+                speed: end.speed + start.speed - stock.speed
+            }
+        };
+    };
+
+    return { easy: shift('easy'), medium: shift('medium'), hard: shift('hard') };
+};
+
+export type PowerUpKind = 'shield' | 'slowmo' | 'heart';
+
+export const POWER_UP_KINDS: PowerUpKind[] = ['shield', 'slowmo', 'heart'];
+
+// Chance of each power-up appearing in the gap of a newly spawned pipe pair.
+// At most one spawns per pair, so each row should sum to well under 1.
+export const POWER_UP_RATES: Record<Difficulty, Record<PowerUpKind, number>> = {
+    easy: { shield: 0.07, slowmo: 0.06, heart: 0.05 },
+    medium: { shield: 0.05, slowmo: 0.045, heart: 0.03 },
+    hard: { shield: 0.04, slowmo: 0.035, heart: 0.02 }
+};
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+    typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+
+// Everything the simulation needs to know about the world, in pixels and
+// milliseconds. The defaults are the landscape world; ui/Layout derives the
+// layout fields for other screen shapes.
+export interface SimulationConfig
+{
+    worldWidth: number;
+    worldHeight: number;
+    playTop: number;
+    playBottom: number;
+    birdStartX: number;
+    birdWidth: number;
+    birdHeight: number;
+    pipeWidth: number;
+    pipeHeight: number;
+    spawnPadding: number;
+    spawnOffset: number;
+    gravity: number;
+    flapVelocity: number;
+    maxLives: number;
+    resumeDelay: number;
+    stepMs: number;
+    difficultySettings: Record<Difficulty, DifficultySettings>;
+    obstacleTypes: Record<string, ObstacleDefinition>;
+    obstacleWeights: Record<Difficulty, Record<string, number>>;
+    difficultyRamps: Record<Difficulty, DifficultyRamp>;
+    // How long the settings take to catch up with one whole tier, so a jump
+    // in the ramp metric never changes the course abruptly.
+    rampBlendMs: number;
+    powerUpSize: number;
+    powerUpRates: Record<Difficulty, Record<PowerUpKind, number>>;
+    shieldDurationMs: number;
+    // After a shield absorbs a hit the bird passes through whatever it hit.
+    shieldGraceMs: number;
+    slowMoDurationMs: number;
+    slowMoFactor: number;
+}
+
+export const createSimulationConfig = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+    worldWidth: 960,
+    worldHeight: 540,
+    playTop: 90,
+    playBottom: 445,
+    birdStartX: 960 * 0.35,
+    birdWidth: 96 * 0.95,
+    birdHeight: 72 * 0.95,
+    pipeWidth: 90,
+    pipeHeight: 400,
+    spawnPadding: 70,
+    spawnOffset: 80,
+    gravity: 900,
+    flapVelocity: -320,
+    maxLives: 3,
+    resumeDelay: 2500,
+    stepMs: 1000 / 60,
+    difficultySettings: DIFFICULTY_SETTINGS,
+    obstacleTypes: OBSTACLE_TYPES,
+    obstacleWeights: OBSTACLE_WEIGHTS,
+    difficultyRamps: DIFFICULTY_RAMPS,
+    rampBlendMs: 1000,
+    powerUpSize: 40,
+    powerUpRates: POWER_UP_RATES,
+    shieldDurationMs: 8000,
+    shieldGraceMs: 1000,
+    slowMoDurationMs: 5000,
+    slowMoFactor: 0.6,
+    ...overrides
+});
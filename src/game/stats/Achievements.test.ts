@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../persistence/StorageBackend';
+import { StatsFormatError, StatsStore } from '../persistence/StatsStore';
+import type { SimEvent } from '../sim/Simulation';
+import { AchievementTracker, createRunStats } from './Achievements';
+
+const scores = (from: number, to: number): SimEvent[] =>
+    Array.from({ length: to - from + 1 }, (_, index) => ({ type: 'score', score: from + index }));
+
+const ids = (achievements: { id: string }[]) => achievements.map(({ id }) => id);
+
+describe('AchievementTracker', () =>
+{
+    it('unlocks run achievements the moment their rule is met, once', () =>
+    {
+        const tracker = new AchievementTracker('medium', 3);
+
+        expect(ids(tracker.handle([{ type: 'flap' }]))).toEqual([]);
+        expect(ids(tracker.handle(scores(1, 1)))).toEqual(['first-pipe']);
+        expect(ids(tracker.handle(scores(2, 14)))).toEqual([]);
+        expect(ids(tracker.handle(scores(15, 15)))).toEqual(['no-hit-15']);
+        expect(ids(tracker.handle(scores(16, 16)))).toEqual([]);
+    });
+
+    it('tracks hits, the last heart and difficulty-specific rules', () =>
+    {
+        const tracker = new AchievementTracker('hard', 3, ['first-pipe']);
+
+        tracker.handle([...scores(1, 5), { type: 'life-lost', lives: 2 }, { type: 'life-lost', lives: 1 }]);
+        const earned = tracker.handle(scores(6, 20));
+
+        expect(tracker.getStats()).toMatchObject({ pipes: 20, livesLost: 2, longestNoHitStreak: 15, pipesOnLastHeart: 15 });
+        expect(ids(earned)).toEqual(['hard-20', 'no-hit-15', 'last-heart-10']);
+    });
+
+    it('checks lifetime rules against the totals', () =>
+    {
+        const tracker = new AchievementTracker('easy', 3);
+
+        expect(ids(tracker.finish({ runs: 50, pipes: 499, flaps: 0, livesLost: 0, powerUps: 0, playTimeMs: 0 }))).toEqual(['runs-50']);
+    });
+});
+
+describe('StatsStore', () =>
+{
+    it('round-trips lifetime stats through export and import', () =>
+    {
+        const source = new StatsStore(new MemoryStorage());
+        source.recordRun({ ...createRunStats('hard'), pipes: 12, flaps: 40 }, 30000);
+        source.recordRun({ ...createRunStats('hard'), pipes: 60 }, 90000);
+        source.unlock(['first-pipe'], '2026-01-01T00:00:00.000Z');
+
+        const target = new StatsStore(new MemoryStorage());
+        target.import(source.export());
+
+        expect(target.getData()).toEqual(source.getData());
+        expect(target.getTotals()).toMatchObject({ runs: 2, pipes: 72, flaps: 40, playTimeMs: 120000 });
+        expect(target.getData().histograms.hard[2]).toBe(1);
+        expect(target.getData().histograms.hard[9]).toBe(1);
+    });
+
+    it('rejects files it cannot use and keeps the current stats', () =>
+    {
+        const store = new StatsStore(new MemoryStorage());
+        store.recordRun(createRunStats('easy'), 1000);
+
+        expect(() => store.import('{')).toThrow(StatsFormatError);
+        expect(() => store.import(JSON.stringify({ version: 99 }))).toThrow(StatsFormatError);
+        expect(store.getTotals().runs).toBe(1);
+    });
+});
@@ -0,0 +1,137 @@
+import type { SimEvent } from '../sim/Simulation';
+import type { Difficulty } from '../sim/SimulationConfig';
+
+// What one run did, built up from its simulation events.
+export interface RunStats
+{
+    difficulty: Difficulty;
+    pipes: number;
+    flaps: number;
+    livesLost: number;
+    powerUps: number;
+    // Most pipes cleared in a row without losing a life.
+    longestNoHitStreak: number;
+    // Pipes cleared while down to the last heart.
+    pipesOnLastHeart: number;
+}
+
+// Everything the player has done across all tracked runs.
+export interface LifetimeTotals
+{
+    runs: number;
+    pipes: number;
+    flaps: number;
+    livesLost: number;
+    powerUps: number;
+    playTimeMs: number;
+}
+
+type RunStat = Exclude<keyof RunStats, 'difficulty'>;
+
+// Run rules are checked after every step, so they unlock mid-run; lifetime
+// rules once the run's totals are in.
+export type AchievementRule =
+    | { scope: 'run'; stat: RunStat; atLeast: number; difficulty?: Difficulty }
+    | { scope: 'lifetime'; stat: keyof LifetimeTotals; atLeast: number };
+
+export interface Achievement
+{
+    id: string;
+    name: string;
+    description: string;
+    rule: AchievementRule;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'first-pipe', name: 'Lift Off', description: 'Clear your first pipe.', rule: { scope: 'run', stat: 'pipes', atLeast: 1 } },
+    { id: 'pipes-25', name: 'Frequent Flyer', description: 'Clear 25 pipes in one run.', rule: { scope: 'run', stat: 'pipes', atLeast: 25 } },
+    { id: 'pipes-50', name: 'Sky High', description: 'Clear 50 pipes in one run.', rule: { scope: 'run', stat: 'pipes', atLeast: 50 } },
+    { id: 'hard-20', name: 'Hard Boiled', description: 'Clear 20 pipes in one run on hard.', rule: { scope: 'run', stat: 'pipes', atLeast: 20, difficulty: 'hard' } },
+    { id: 'no-hit-15', name: 'Untouchable', description: 'Clear 15 pipes in a row without losing a life.', rule: { scope: 'run', stat: 'longestNoHitStreak', atLeast: 15 } },
+    { id: 'last-heart-10', name: 'Hanging On', description: 'Clear 10 pipes on your last heart.', rule: { scope: 'run', stat: 'pipesOnLastHeart', atLeast: 10 } },
+    { id: 'flaps-150', name: 'Wing Workout', description: 'Flap 150 times in one run.', rule: { scope: 'run', stat: 'flaps', atLeast: 150 } },
+    { id: 'power-ups-5', name: 'Collector', description: 'Pick up 5 power-ups in one run.', rule: { scope: 'run', stat: 'powerUps', atLeast: 5 } },
+    { id: 'runs-50', name: 'Regular', description: 'Play 50 runs.', rule: { scope: 'lifetime', stat: 'runs', atLeast: 50 } },
+    { id: 'total-pipes-500', name: 'Marathon', description: 'Clear 500 pipes in total.', rule: { scope: 'lifetime', stat: 'pipes', atLeast: 500 } },
+    { id: 'play-time-hour', name: 'Dedicated', description: 'Fly for an hour in total.', rule: { scope: 'lifetime', stat: 'playTimeMs', atLeast: 60 * 60 * 1000 } }
+];
+
+export const createRunStats = (difficulty: Difficulty): RunStats => ({
+    difficulty,
+    pipes: 0,
+    flaps: 0,
+    livesLost: 0,
+    powerUps: 0,
+    longestNoHitStreak: 0,
+    pipesOnLastHeart: 0
+});
+
+// Follows a single-player run's events and reports each achievement the
+// moment its rule is met. Achievements unlocked before the run never fire.
+export class AchievementTracker
+{
+    private readonly stats: RunStats;
+    private readonly unlocked: Set<string>;
+    private lives: number;
+    private noHitStreak = 0;
+
+    constructor (difficulty: Difficulty, lives: number, unlocked: Iterable<string> = [])
+    {
+        this.stats = createRunStats(difficulty);
+        this.lives = lives;
+        this.unlocked = new Set(unlocked);
+    }
+
+    getStats (): Readonly<RunStats>
+    {
+        return this.stats;
+    }
+
+    // Feeds one step's events and returns the run achievements they earned.
+    handle (events: SimEvent[]): Achievement[]
+    {
+        events.forEach((event) =>
+        {
+            switch (event.type)
+            {
+                case 'flap':
+                    this.stats.flaps += 1;
+                    break;
+                case 'score':
+                    this.stats.pipes = event.score;
+                    this.noHitStreak += 1;
+                    this.stats.longestNoHitStreak = Math.max(this.stats.longestNoHitStreak, this.noHitStreak);
+                    if (this.lives === 1)
+                    {
+                        this.stats.pipesOnLastHeart += 1;
+                    }
+                    break;
+                case 'life-lost':
+                    this.lives = event.lives;
+                    this.stats.livesLost += 1;
+                    this.noHitStreak = 0;
+                    break;
+                case 'power-up-collected':
+                    this.stats.powerUps += 1;
+                    break;
+            }
+        });
+
+        return this.collect((rule) => rule.scope === 'run'
+            && (rule.difficulty === undefined || rule.difficulty === this.stats.difficulty)
+            && this.stats[rule.stat] >= rule.atLeast);
+    }
+
+    // Checks the lifetime rules against totals that include this run.
+    finish (totals: Readonly<LifetimeTotals>): Achievement[]
+    {
+        return this.collect((rule) => rule.scope === 'lifetime' && totals[rule.stat] >= rule.atLeast);
+    }
+
+    private collect (isMet: (rule: AchievementRule) => boolean)
+    {
+        const earned = ACHIEVEMENTS.filter((achievement) => !this.unlocked.has(achievement.id) && isMet(achievement.rule));
+        earned.forEach((achievement) => this.unlocked.add(achievement.id));
+        return earned;
+    }
+}
@@ -0,0 +1,35 @@
+import Phaser from 'phaser';
+import { generateBackdropTextures, getLayerTextureKey, getSkyTextureKey } from '../Textures';
+import type { Theme } from './Theme';
+
+export interface Backdrop
+{
+    sky: Phaser.GameObjects.Image;
+    layers: Phaser.GameObjects.TileSprite[];
+    // Moves the hills along with the course; `dx` is how far the pipes moved.
+    scroll: (dx: number) => void;
+}
+
+// Adds the theme's sky and hill layers behind everything else, so call it
+// before the scene adds any other objects.
+export const createBackdrop = (scene: Phaser.Scene, theme: Theme): Backdrop =>
+{
+    const { width, height } = scene.scale;
+    generateBackdropTextures(scene, theme);
+
+    // A loaded image is cropped to cover the screen rather than stretched.
+    const sky = scene.add.image(width * 0.5, height * 0.5, getSkyTextureKey(theme, width, height));
+    sky.setScale(Math.max(width / sky.width, height / sky.height));
+    const layers = theme.background.layers.map((layer, index) =>
+        scene.add.tileSprite(0, height, width, Math.round(layer.height * height), getLayerTextureKey(theme, index, width, height)).setOrigin(0, 1));
+
+    const scroll = (dx: number) =>
+    {
+        layers.forEach((sprite, index) =>
+        {
+            sprite.tilePositionX -= dx * theme.background.layers[index].parallax;
+        });
+    };
+
+    return { sky, layers, scroll };
+};
@@ -0,0 +1,182 @@
+import type { Difficulty } from '../sim/SimulationConfig';
+
+export type ThemeId = 'day' | 'night' | 'retro';
+
+// Colours for the generated bird, pipe, heart and pickup textures.
+export interface ThemeColors
+{
+    pipe: number;
+    pipeEdge: number;
+    hazard: number;
+    hazardCore: number;
+    birdBody: number;
+    birdWing: number;
+    birdBelly: number;
+    birdBeak: number;
+    birdTail: number;
+    birdEye: number;
+    heartFull: number;
+    heartEmpty: number;
+    shield: number;
+    shieldBubble: number;
+    slowmo: number;
+    heart: number;
+}
+
+export interface ThemeShapes
+{
+    pipeCornerRadius: number;
+    pipeEdgeWidth: number;
+    // Draws the bird from squares instead of ellipses.
+    blockyBird: boolean;
+}
+
+// A band of hills along the bottom of the play area. Layers scroll at a
+// fraction of the pipe speed, so nearer ones move faster.
+export interface BackgroundLayer
+{
+    color: number;
+    // Height of the band as a fraction of the screen.
+    height: number;
+    // How far the hilltops rise and fall, in pixels.
+    roughness: number;
+    parallax: number;
+}
+
+export interface ThemeBackground
+{
+    // A texture loaded from the assets folder, drawn instead of the sky.
+    image: string | null;
+    skyTop: number;
+    skyBottom: number;
+    stars: number;
+    layers: BackgroundLayer[];
+}
+
+export interface Theme
+{
+    id: ThemeId;
+    name: string;
+    // Best full-speed score, on any difficulty, that unlocks the theme.
+    unlockScore: number;
+    colors: ThemeColors;
+    shapes: ThemeShapes;
+    background: ThemeBackground;
+}
+
+export const THEMES: Theme[] = [
+    {
+        id: 'day',
+        name: 'Day',
+        unlockScore: 0,
+        colors: {
+            pipe: 0x2eb872,
+            pipeEdge: 0x0c7438,
+            hazard: 0x37474f,
+            hazardCore: 0xff5252,
+            birdBody: 0x9c27b0,
+            birdWing: 0x7b1fa2,
+            birdBelly: 0xf3e5f5,
+            birdBeak: 0xffb74d,
+            birdTail: 0xba68c8,
+            birdEye: 0x000000,
+            heartFull: 0xff4f5f,
+            heartEmpty: 0x6b7c8b,
+            shield: 0x2979ff,
+            shieldBubble: 0x82b1ff,
+            slowmo: 0x00bfa5,
+            heart: 0xff4f5f
+        },
+        shapes: { pipeCornerRadius: 18, pipeEdgeWidth: 8, blockyBird: false },
+        background: { image: 'background', skyTop: 0x4ec0ca, skyBottom: 0x4ec0ca, stars: 0, layers: [] }
+    },
+    {
+        id: 'night',
+        name: 'Night',
+        unlockScore: 10,
+        colors: {
+            pipe: 0x26667a,
+            pipeEdge: 0x9be7ff,
+            hazard: 0x263238,
+            hazardCore: 0xffca28,
+            birdBody: 0x3949ab,
+            birdWing: 0x283593,
+            birdBelly: 0xe8eaf6,
+            birdBeak: 0xffd54f,
+            birdTail: 0x7986cb,
+            birdEye: 0x000000,
+            heartFull: 0xff4f5f,
+            heartEmpty: 0x546e7a,
+            shield: 0x40c4ff,
+            shieldBubble: 0x80d8ff,
+            slowmo: 0x1de9b6,
+            heart: 0xff4f5f
+        },
+        shapes: { pipeCornerRadius: 18, pipeEdgeWidth: 6, blockyBird: false },
+        background: {
+            image: null,
+            skyTop: 0x0b1026,
+            skyBottom: 0x2b3a67,
+            stars: 70,
+            layers: [
+                { color: 0x1c2541, height: 0.4, roughness: 60, parallax: 0.15 },
+                { color: 0x0f172e, height: 0.22, roughness: 30, parallax: 0.4 }
+            ]
+        }
+    },
+    {
+        id: 'retro',
+        name: 'Retro',
+        unlockScore: 25,
+        colors: {
+            pipe: 0x306230,
+            pipeEdge: 0x0f380f,
+            hazard: 0x0f380f,
+            hazardCore: 0x8bac0f,
+            birdBody: 0x306230,
+            birdWing: 0x0f380f,
+            birdBelly: 0x9bbc0f,
+            birdBeak: 0x8bac0f,
+            birdTail: 0x0f380f,
+            birdEye: 0x0f380f,
+            heartFull: 0x0f380f,
+            heartEmpty: 0x8bac0f,
+            shield: 0x306230,
+            shieldBubble: 0x0f380f,
+            slowmo: 0x306230,
+            heart: 0x0f380f
+        },
+        shapes: { pipeCornerRadius: 0, pipeEdgeWidth: 6, blockyBird: true },
+        background: {
+            image: null,
+            skyTop: 0x9bbc0f,
+            skyBottom: 0x9bbc0f,
+            stars: 0,
+            layers: [
+                { color: 0x8bac0f, height: 0.3, roughness: 40, parallax: 0.2 }
+            ]
+        }
+    }
+];
+
+export const DEFAULT_THEME: ThemeId = 'day';
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+    THEMES.some((theme) => theme.id === value);
+
+export const getTheme = (id: ThemeId) =>
+    THEMES.find((theme) => theme.id === id) ?? THEMES[0];
+
+// Assisted bests never unlock anything, so pass the full-speed table.
+export const getUnlockedThemes = (bestScores: Readonly<Record<Difficulty, number>>) =>
+{
+    const best = Math.max(...Object.values(bestScores));
+    return THEMES.filter((theme) => best >= theme.unlockScore);
+};
+
+// Falls back to the default theme while the chosen one is still locked.
+export const resolveTheme = (id: ThemeId, bestScores: Readonly<Record<Difficulty, number>>) =>
+{
+    const theme = getTheme(id);
+    return getUnlockedThemes(bestScores).includes(theme) ? theme : getTheme(DEFAULT_THEME);
+};
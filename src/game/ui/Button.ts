@@ -0,0 +1,43 @@
+import Phaser from 'phaser';
+
+export interface Button
+{
+    container: Phaser.GameObjects.Container;
+    background: Phaser.GameObjects.Rectangle;
+    label: Phaser.GameObjects.Text;
+}
+
+export const createButton = (
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    text: string,
+    onPress: () => void
+): Button =>
+{
+    const container = scene.add.container(x, y).setDepth(16);
+    const background = scene.add.rectangle(0, 0, width, height, 0x0b2033, 0.8);
+    background.setStrokeStyle(3, 0xffffff, 0.5);
+    const label = scene.add.text(0, 0, text, {
+        fontFamily: 'Arial Black',
+        fontSize: '20px',
+        color: '#ffffff'
+    }).setOrigin(0.5);
+
+    container.add([background, label]);
+    container.setSize(width, height);
+    container.setInteractive({ useHandCursor: true });
+    container.on('pointerdown', onPress);
+
+    return { container, background, label };
+};
+
+export const styleButton = ({ background, label }: Button, isActive: boolean) =>
+{
+    background.setFillStyle(isActive ? 0xffbe0b : 0x0b2033, isActive ? 1 : 0.8);
+    background.setStrokeStyle(3, 0xffffff, isActive ? 1 : 0.35);
+    label.setColor(isActive ? '#0b1726' : '#ffffff');
+    label.setAlpha(isActive ? 1 : 0.85);
+};
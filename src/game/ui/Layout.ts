@@ -0,0 +1,125 @@
+import type Phaser from 'phaser';
+import type { Course } from '../course/Course';
+import { createSimulationConfig, Difficulty, DifficultyRamp, DifficultySettings, SimulationConfig } from '../sim/SimulationConfig';
+
+export type Orientation = 'landscape' | 'portrait';
+
+// Screen positions shared by the scenes, in game pixels. The play area sits
+// between the HUD bands; hearts and the score share one row in landscape and
+// stack in portrait, where the screen is too narrow for both.
+export interface Layout
+{
+    orientation: Orientation;
+    width: number;
+    height: number;
+    hudTop: number;
+    hudBottom: number;
+    livesY: number;
+    scoreY: number;
+    scoreFontSize: number;
+}
+
+// Landscape is the world every difficulty was tuned in, and the one replays
+// without a layout were recorded in.
+export const LAYOUTS: Record<Orientation, Layout> = {
+    landscape: { orientation: 'landscape', width: 960, height: 540, hudTop: 90, hudBottom: 95, livesY: 45, scoreY: 45, scoreFontSize: 32 },
+    portrait: { orientation: 'portrait', width: 540, height: 960, hudTop: 120, hudBottom: 140, livesY: 34, scoreY: 88, scoreFontSize: 24 }
+};
+
+const REFERENCE = LAYOUTS.landscape;
+
+export const getOrientation = (width: number, height: number): Orientation =>
+    height > width ? 'portrait' : 'landscape';
+
+export const getPlayTop = (layout: Layout) => layout.hudTop;
+
+export const getPlayBottom = (layout: Layout) => layout.height - layout.hudBottom;
+
+// How much taller this layout's play area is than the reference one. Gaps
+// and everything measured from them grow by it, so a course keeps the same
+// shape relative to the play area.
+export const getGapScale = (layout: Layout) =>
+    (getPlayBottom(layout) - getPlayTop(layout)) / (getPlayBottom(REFERENCE) - getPlayTop(REFERENCE));
+
+const scaleSettings = (settings: DifficultySettings, scale: number): DifficultySettings => ({ ...settings, gap: settings.gap * scale });
+
+const mapDifficulties = <T>(values: Record<Difficulty, T>, map: (value: T) => T): Record<Difficulty, T> => ({
+    easy: map(values.easy),
+    medium: map(values.medium),
+    hard: map(values.hard)
+});
+
+// Simulation settings for a layout: the world matches the screen, pipes
+// spawn just past its right edge, and gaps scale with the play height.
+// Landscape gets the defaults untouched, so its runs replay exactly. Other
+// layouts scale `defaults`, which the debug tuning panel can stand in for.
+export const createLayoutConfig = (layout: Layout, defaults = createSimulationConfig()): Partial<SimulationConfig> =>
+{
+    if (layout.orientation === 'landscape')
+    {
+        return {};
+    }
+
+    const scale = getGapScale(layout);
+    const obstacleTypes = Object.fromEntries(Object.entries(defaults.obstacleTypes).map(([type, definition]) => [type, {
+        ...definition,
+        gaps: definition.gaps.map((gap) => ({ ...gap, offset: gap.offset * scale })),
+        ...(definition.hazards && { hazards: definition.hazards.map((hazard) => ({ ...hazard, offset: hazard.offset * scale })) }),
+        ...(definition.oscillate && { oscillate: { ...definition.oscillate, amplitude: definition.oscillate.amplitude * scale } })
+    }]));
+
+    return {
+        worldWidth: layout.width,
+        worldHeight: layout.height,
+        playTop: getPlayTop(layout),
+        playBottom: getPlayBottom(layout),
+        birdStartX: layout.width * 0.3,
+        pipeHeight: defaults.pipeHeight * scale,
+        spawnPadding: defaults.spawnPadding * scale,
+        difficultySettings: mapDifficulties(defaults.difficultySettings, (settings) => scaleSettings(settings, scale)),
+        difficultyRamps: mapDifficulties<DifficultyRamp>(defaults.difficultyRamps, (ramp) => ({ ...ramp, end: scaleSettings(ramp.end, scale) })),
+        obstacleTypes
+    };
+};
+
+// Courses are authored against the landscape play area; other layouts
+// stretch their gaps the same way as the endless course's.
+export const fitCourseToLayout = (course: Course, layout: Layout): Course =>
+{
+    if (layout.orientation === 'landscape')
+    {
+        return course;
+    }
+
+    const scale = getGapScale(layout);
+    return {
+        ...course,
+        obstacles: course.obstacles.map((obstacle) => ({
+            ...obstacle,
+            gapCenter: getPlayTop(layout) + ((obstacle.gapCenter - getPlayTop(REFERENCE)) * scale),
+            ...(obstacle.gapSize !== undefined && { gapSize: obstacle.gapSize * scale })
+        }))
+    };
+};
+
+// Switches the game to the layout for `orientation` if it isn't in it
+// already. The scale manager announces the new size with a RESIZE event
+// before this returns.
+export const applyOrientation = (scale: Phaser.Scale.ScaleManager, orientation: Orientation) =>
+{
+    const { width, height } = LAYOUTS[orientation];
+    if (scale.width === width && scale.height === height)
+    {
+        return false;
+    }
+
+    scale.setGameSize(width, height);
+    return true;
+};
+
+// The orientation the page around the canvas calls for.
+export const getViewportOrientation = (scale: Phaser.Scale.ScaleManager) =>
+    getOrientation(scale.parentSize.width, scale.parentSize.height);
+
+export const getLayout = (scale: Phaser.Scale.ScaleManager) =>
+    LAYOUTS[getOrientation(scale.width, scale.height)];
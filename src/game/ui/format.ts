@@ -0,0 +1,17 @@
+// Formats a run length as m:ss.
+export const formatDuration = (ms: number) =>
+{
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Banner for the end of a versus round; `winner` is a player index.
+export const describeWinner = (winner: number | null) => winner === null ? 'Draw!' : `Player ${winner + 1} Wins!`;
+
+// Tags runs slowed down by the game-speed assist, e.g. '70% SPEED'.
+export const describeGameSpeed = (speed: number) => `${Math.round(speed * 100)}% SPEED`;
+
+// Announces skins a run unlocked, e.g. 'Night skin unlocked!'.
+export const describeUnlockedThemes = (names: string[]) => `${names.join(' & ')} skin${names.length > 1 ? 's' : ''} unlocked!`;
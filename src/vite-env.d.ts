@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv
+{
+    // Base URL of the online leaderboard, e.g. http://localhost:8787.
+    readonly VITE_LEADERBOARD_URL?: string;
+}